@@ -0,0 +1,132 @@
+
+import React from 'react';
+import { BlueprintDiff, DiffKind } from '../types';
+import { Plus, Minus, Pencil, Terminal, Check, X } from 'lucide-react';
+
+interface BlueprintDiffPanelProps {
+  diff: BlueprintDiff;
+  showUnchanged?: boolean;
+  // When provided, each change gets accept/reject controls; ids in the set are accepted
+  accepted?: Set<number>;
+  onToggleStep?: (stepId: number) => void;
+  snippetAccepted?: boolean;
+  onToggleSnippet?: () => void;
+}
+
+const DecisionToggle: React.FC<{ accepted: boolean; onToggle: () => void }> = ({ accepted, onToggle }) => (
+  <button
+    onClick={onToggle}
+    className={`ml-auto flex items-center gap-1 px-2 py-1 rounded-md text-[9px] font-black uppercase tracking-widest transition-all ${
+      accepted ? 'bg-green-600 text-white' : 'bg-white/70 text-gray-500 hover:bg-white border border-gray-200'
+    }`}
+  >
+    {accepted ? <Check size={10} /> : <X size={10} />}
+    {accepted ? 'Accepted' : 'Rejected'}
+  </button>
+);
+
+const KIND_STYLES: Record<DiffKind, string> = {
+  added: 'bg-green-50 border-green-100 text-green-800',
+  removed: 'bg-red-50 border-red-100 text-red-800',
+  changed: 'bg-amber-50 border-amber-100 text-amber-800',
+  unchanged: 'bg-white border-gray-100 text-gray-500'
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const KIND_ICONS: Record<DiffKind, React.ReactNode> = {
+  added: <Plus size={12} />,
+  removed: <Minus size={12} />,
+  changed: <Pencil size={12} />,
+  unchanged: null
+};
+
+export const BlueprintDiffPanel: React.FC<BlueprintDiffPanelProps> = ({
+  diff,
+  showUnchanged = false,
+  accepted,
+  onToggleStep,
+  snippetAccepted,
+  onToggleSnippet
+}) => {
+  const steps = showUnchanged ? diff.steps : diff.steps.filter(step => step.kind !== 'unchanged');
+  const hasChanges = steps.length > 0 || diff.snippetChanged || diff.platformChanged || diff.explanationChanged;
+
+  if (!hasChanges) {
+    return (
+      <p className="text-[11px] text-gray-400 font-bold uppercase tracking-widest text-center py-6">
+        No differences between these revisions
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {(diff.platformChanged || diff.explanationChanged) && (
+        <div className="flex flex-wrap gap-2">
+          {diff.platformChanged && (
+            <span className="text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-md bg-amber-50 text-amber-700">Platform changed</span>
+          )}
+          {diff.explanationChanged && (
+            <span className="text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-md bg-amber-50 text-amber-700">Strategy text changed</span>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {steps.map(step => {
+          const shown = step.after || step.before!;
+          const decidable = accepted && onToggleStep && step.kind !== 'unchanged';
+          const rejected = decidable && !accepted!.has(step.stepId);
+          return (
+            <div key={`${step.kind}-${step.stepId}`} className={`p-4 rounded-2xl border transition-opacity ${KIND_STYLES[step.kind]} ${rejected ? 'opacity-50' : ''}`}>
+              <div className="flex items-center gap-2 mb-1">
+                {KIND_ICONS[step.kind]}
+                <span className="text-[9px] font-black uppercase tracking-widest">{step.kind}</span>
+                <span className="text-[9px] font-bold opacity-60">Step {step.stepId} • {shown.type}</span>
+                {decidable && <DecisionToggle accepted={!rejected} onToggle={() => onToggleStep!(step.stepId)} />}
+              </div>
+              {step.kind === 'changed' && step.before ? (
+                <div className="space-y-1">
+                  {step.changedFields.map(field => (
+                    <div key={field} className="text-[11px] leading-relaxed">
+                      <span className="font-black uppercase text-[9px] tracking-widest mr-2">{field}</span>
+                      <span className="line-through opacity-50 mr-2">{formatValue(step.before![field])}</span>
+                      <span className="font-semibold">{formatValue(step.after![field])}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <>
+                  <h5 className={`text-sm font-bold ${step.kind === 'removed' ? 'line-through' : ''}`}>{shown.title}</h5>
+                  <p className="text-[11px] opacity-80 leading-relaxed">{shown.description}</p>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {diff.snippetChanged && (
+        <div className="bg-[#0f1117] rounded-2xl overflow-hidden border border-gray-800/50">
+          <div className="flex items-center gap-2 px-5 py-3 border-b border-white/5 bg-white/5">
+            <Terminal size={12} className="text-indigo-400" />
+            <span className="text-[10px] font-black text-white/40 uppercase tracking-[0.2em]">Snippet Changes</span>
+            {onToggleSnippet && <DecisionToggle accepted={!!snippetAccepted} onToggle={onToggleSnippet} />}
+          </div>
+          <pre className="p-4 font-mono text-[11px] leading-relaxed overflow-x-auto custom-scrollbar">
+            {diff.snippet.map((line, idx) => (
+              <div
+                key={idx}
+                className={line.kind === 'added' ? 'text-green-400 bg-green-500/10' : line.kind === 'removed' ? 'text-red-400 bg-red-500/10' : 'text-gray-500'}
+              >
+                {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}{line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
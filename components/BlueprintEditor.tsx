@@ -0,0 +1,189 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AutomationStep } from '../types';
+import { useHistory } from '../hooks/useHistory';
+import { addStep, moveStep, removeStep, toggleConnection, updateStep } from '../services/blueprintEditing';
+import { FlowDiagram } from './FlowDiagram';
+import { GripVertical, Undo2, Redo2, Trash2, Plus, Link2 } from 'lucide-react';
+
+interface BlueprintEditorProps {
+  steps: AutomationStep[];
+  onChange: (steps: AutomationStep[]) => void;
+}
+
+const STEP_TYPES: AutomationStep['type'][] = ['trigger', 'action', 'logic'];
+
+const TYPE_STYLES: Record<AutomationStep['type'], string> = {
+  trigger: 'bg-orange-500',
+  action: 'bg-indigo-600',
+  logic: 'bg-amber-500'
+};
+
+/**
+ * Card-based canvas for hand-editing a blueprint's steps. Owns its own undo stack, so callers
+ * should remount it (via `key`) when switching to a different blueprint.
+ */
+export const BlueprintEditor: React.FC<BlueprintEditorProps> = ({ steps, onChange }) => {
+  const history = useHistory<AutomationStep[]>(steps);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const [connecting, setConnecting] = useState<number | null>(null);
+  const isFirstRender = useRef(true);
+
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+    onChange(history.value);
+  }, [history.value]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      // Let text fields keep their native undo while the user is typing
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      e.preventDefault();
+      if (e.shiftKey) history.redo();
+      else history.undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
+
+  const current = history.value;
+
+  const handleDrop = (idx: number) => {
+    if (dragIndex !== null) history.set(moveStep(current, dragIndex, idx));
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const connectedTo = (step: AutomationStep, idx: number) =>
+    step.next ?? (step.branches?.length ? [] : current[idx + 1] ? [current[idx + 1].id] : []);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">
+          {current.length} steps • drag to reorder
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={history.undo}
+            disabled={!history.canUndo}
+            title="Undo (Ctrl+Z)"
+            className="p-2 rounded-xl text-gray-500 hover:bg-gray-100 disabled:text-gray-200 disabled:hover:bg-transparent transition-all"
+          >
+            <Undo2 size={14} />
+          </button>
+          <button
+            onClick={history.redo}
+            disabled={!history.canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-2 rounded-xl text-gray-500 hover:bg-gray-100 disabled:text-gray-200 disabled:hover:bg-transparent transition-all"
+          >
+            <Redo2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {current.map((step, idx) => {
+          const targets = connectedTo(step, idx);
+          return (
+            <div
+              key={step.id}
+              draggable
+              onDragStart={() => setDragIndex(idx)}
+              onDragOver={(e) => { e.preventDefault(); setOverIndex(idx); }}
+              onDragEnd={() => { setDragIndex(null); setOverIndex(null); }}
+              onDrop={() => handleDrop(idx)}
+              className={`p-4 bg-white border rounded-2xl transition-all ${
+                overIndex === idx && dragIndex !== idx ? 'border-indigo-400 shadow-lg' : 'border-gray-100'
+              } ${dragIndex === idx ? 'opacity-40' : ''}`}
+            >
+              <div className="flex items-start gap-3">
+                <div className="flex flex-col items-center gap-2 pt-1">
+                  <GripVertical size={14} className="text-gray-300 cursor-grab" />
+                  <div className={`w-7 h-7 rounded-lg flex items-center justify-center font-black text-white text-[10px] ${TYPE_STYLES[step.type]}`}>
+                    {step.id}
+                  </div>
+                </div>
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={step.title}
+                      onChange={(e) => history.set(updateStep(current, step.id, { title: e.target.value }))}
+                      className="flex-1 min-w-0 bg-gray-50 border border-gray-100 rounded-xl px-3 py-1.5 text-xs font-bold focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all"
+                    />
+                    <select
+                      value={step.type}
+                      onChange={(e) => history.set(updateStep(current, step.id, { type: e.target.value as AutomationStep['type'] }))}
+                      className="bg-gray-50 border border-gray-100 rounded-xl px-2 py-1.5 text-[10px] font-black uppercase tracking-widest text-gray-600 outline-none"
+                    >
+                      {STEP_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                    <button
+                      onClick={() => setConnecting(connecting === step.id ? null : step.id)}
+                      title="Edit connections"
+                      className={`p-1.5 rounded-lg transition-all ${connecting === step.id ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:bg-indigo-50 hover:text-indigo-600'}`}
+                    >
+                      <Link2 size={14} />
+                    </button>
+                    <button
+                      onClick={() => history.set(removeStep(current, step.id))}
+                      title="Delete step"
+                      className="p-1.5 rounded-lg text-gray-400 hover:bg-red-50 hover:text-red-500 transition-all"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                  <textarea
+                    value={step.description}
+                    onChange={(e) => history.set(updateStep(current, step.id, { description: e.target.value }))}
+                    rows={2}
+                    className="w-full bg-gray-50 border border-gray-100 rounded-xl px-3 py-2 text-[11px] leading-relaxed focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all resize-none"
+                  />
+                  {connecting === step.id && (
+                    <div className="flex flex-wrap items-center gap-1.5 animate-in fade-in">
+                      <span className="text-[9px] font-black text-gray-400 uppercase tracking-widest mr-1">Next →</span>
+                      {current.filter(other => other.id !== step.id).map(other => {
+                        const active = targets.includes(other.id);
+                        return (
+                          <button
+                            key={other.id}
+                            onClick={() => history.set(toggleConnection(current, step.id, other.id))}
+                            className={`px-2 py-1 rounded-md text-[9px] font-black uppercase tracking-widest transition-all ${
+                              active ? 'bg-indigo-600 text-white' : 'bg-gray-50 text-gray-400 hover:bg-indigo-50 hover:text-indigo-600'
+                            }`}
+                          >
+                            {other.id}. {other.title.length > 16 ? `${other.title.substring(0, 16)}…` : other.title}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={() => history.set(addStep(current, current.length - 1))}
+        className="w-full py-3 rounded-2xl border-2 border-dashed border-gray-100 text-[10px] font-black uppercase tracking-widest text-gray-400 hover:border-indigo-200 hover:text-indigo-600 hover:bg-indigo-50/40 flex items-center justify-center gap-2 transition-all"
+      >
+        <Plus size={14} />
+        Add Step
+      </button>
+
+      <div className="pt-6 border-t border-gray-50">
+        <h5 className="text-[10px] font-black text-gray-400 uppercase tracking-widest mb-4">Live Preview</h5>
+        <FlowDiagram steps={current} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+
+import React from 'react';
+import { BlueprintFinding, BlueprintLintRule } from '../types';
+import { XCircle, AlertTriangle, Info, CheckCircle2, Wand2, Loader2 } from 'lucide-react';
+
+interface BlueprintLintPanelProps {
+  findings: BlueprintFinding[];
+  // True while a refinement is in flight; every fix action waits for it
+  fixing: boolean;
+  onFix: (finding: BlueprintFinding) => void;
+}
+
+const SEVERITY_ICONS: Record<BlueprintFinding['severity'], React.ReactNode> = {
+  error: <XCircle size={14} className="text-red-500 shrink-0 mt-0.5" />,
+  warning: <AlertTriangle size={14} className="text-amber-500 shrink-0 mt-0.5" />,
+  info: <Info size={14} className="text-sky-500 shrink-0 mt-0.5" />
+};
+
+const RULE_LABELS: Record<BlueprintLintRule, string> = {
+  trigger_count: 'Trigger',
+  action_before_trigger: 'Order',
+  logic_without_effect: 'Logic',
+  duplicate_id: 'Step IDs',
+  broken_reference: 'Reference',
+  undeclared_service: 'Service',
+  hardcoded_secret: 'Secret',
+  unhandled_external_call: 'Error Handling'
+};
+
+/**
+ * Lists the linter's findings for the current blueprint. Each finding carries a ready-made
+ * instruction, so "Ask AI to fix" sends it through the regular refinement review.
+ */
+export const BlueprintLintPanel: React.FC<BlueprintLintPanelProps> = ({ findings, fixing, onFix }) => {
+  if (findings.length === 0) {
+    return (
+      <div className="flex items-center gap-3 p-4 bg-green-50/50 rounded-2xl border border-green-100 text-[11px] font-bold text-green-700">
+        <CheckCircle2 size={16} className="text-green-500" />
+        No structural issues found.
+      </div>
+    );
+  }
+
+  const counts = findings.reduce(
+    (acc, finding) => ({ ...acc, [finding.severity]: acc[finding.severity] + 1 }),
+    { error: 0, warning: 0, info: 0 } as Record<BlueprintFinding['severity'], number>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-4 text-[10px] font-black uppercase tracking-widest">
+        <span className="text-red-500">{counts.error} {counts.error === 1 ? 'error' : 'errors'}</span>
+        <span className="text-amber-500">{counts.warning} {counts.warning === 1 ? 'warning' : 'warnings'}</span>
+        <span className="text-sky-500">{counts.info} info</span>
+      </div>
+      <ul className="max-h-80 overflow-y-auto custom-scrollbar space-y-2 pr-1">
+        {findings.map((finding, idx) => (
+          <li key={idx} className="flex items-start gap-3 p-3 bg-gray-50 rounded-xl border border-gray-100">
+            {SEVERITY_ICONS[finding.severity]}
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-0.5">
+                <span className="text-[9px] font-black uppercase tracking-widest text-gray-400">{RULE_LABELS[finding.rule]}</span>
+                {finding.stepId !== undefined && (
+                  <span className="text-[8px] font-bold bg-white text-gray-500 px-1.5 py-0.5 rounded-md border border-gray-100">Step {finding.stepId}</span>
+                )}
+                {finding.line !== undefined && (
+                  <span className="text-[8px] font-bold bg-white text-gray-500 px-1.5 py-0.5 rounded-md border border-gray-100 font-mono">Line {finding.line}</span>
+                )}
+              </div>
+              <p className="text-[11px] text-gray-700 font-medium leading-relaxed break-words">{finding.message}</p>
+            </div>
+            <button
+              onClick={() => onFix(finding)}
+              disabled={fixing}
+              title={finding.fix}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-50 disabled:opacity-30 transition-all shrink-0"
+            >
+              {fixing ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+              Ask AI to Fix
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
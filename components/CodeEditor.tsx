@@ -0,0 +1,116 @@
+
+import React, { useMemo, useRef } from 'react';
+import { SnippetDiagnostic, SnippetLanguage, SnippetTokenKind } from '../types';
+import { tokenizeSnippet } from '../services/snippetLanguage';
+
+interface CodeEditorProps {
+  value: string;
+  language: SnippetLanguage;
+  onChange: (value: string) => void;
+  diagnostics?: SnippetDiagnostic[];
+  maxLines?: number;
+}
+
+const TOKEN_STYLES: Record<SnippetTokenKind, string> = {
+  keyword: 'text-pink-400',
+  string: 'text-emerald-300',
+  comment: 'text-gray-500 italic',
+  number: 'text-amber-300',
+  function: 'text-sky-300',
+  punctuation: 'text-gray-400',
+  plain: 'text-indigo-100'
+};
+
+const GUTTER_STYLES: Record<SnippetDiagnostic['severity'], string> = {
+  error: 'bg-red-500/20 text-red-300',
+  warning: 'bg-amber-500/20 text-amber-300',
+  info: 'bg-sky-500/10 text-sky-300'
+};
+
+const SEVERITY_RANK: Record<SnippetDiagnostic['severity'], number> = { error: 0, warning: 1, info: 2 };
+
+const LINE_HEIGHT = 20;
+
+/**
+ * A textarea layered over a highlighted copy of its own text, so typing stays native while
+ * the code is coloured. Lines with diagnostics are marked in the gutter.
+ */
+export const CodeEditor: React.FC<CodeEditorProps> = ({ value, language, onChange, diagnostics = [], maxLines = 24 }) => {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const tokens = useMemo(() => tokenizeSnippet(value, language), [value, language]);
+  const lineCount = value.split('\n').length;
+
+  // The most severe finding on each line decides its gutter colour
+  const lineSeverity = useMemo(() => {
+    const byLine = new Map<number, SnippetDiagnostic>();
+    diagnostics.forEach(diagnostic => {
+      const current = byLine.get(diagnostic.line);
+      if (!current || SEVERITY_RANK[diagnostic.severity] < SEVERITY_RANK[current.severity]) byLine.set(diagnostic.line, diagnostic);
+    });
+    return byLine;
+  }, [diagnostics]);
+
+  const syncScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    const { scrollTop, scrollLeft } = e.currentTarget;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = scrollTop;
+      highlightRef.current.scrollLeft = scrollLeft;
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = scrollTop;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    const target = e.currentTarget;
+    const { selectionStart, selectionEnd } = target;
+    const indent = language === 'python' ? '    ' : '  ';
+    onChange(value.slice(0, selectionStart) + indent + value.slice(selectionEnd));
+    requestAnimationFrame(() => target.setSelectionRange(selectionStart + indent.length, selectionStart + indent.length));
+  };
+
+  const height = Math.min(Math.max(lineCount, 6), maxLines) * LINE_HEIGHT + 32;
+  const shared = 'font-mono text-[11px] whitespace-pre p-4 m-0 border-0';
+
+  return (
+    <div className="flex bg-[#0f1117] overflow-hidden" style={{ height }}>
+      <div ref={gutterRef} className="shrink-0 overflow-hidden py-4 select-none border-r border-white/5 text-right" style={{ lineHeight: `${LINE_HEIGHT}px` }}>
+        {Array.from({ length: lineCount }, (_, idx) => {
+          const diagnostic = lineSeverity.get(idx + 1);
+          return (
+            <div
+              key={idx}
+              title={diagnostic?.message}
+              className={`px-3 font-mono text-[10px] ${diagnostic ? GUTTER_STYLES[diagnostic.severity] : 'text-white/20'}`}
+            >
+              {idx + 1}
+            </div>
+          );
+        })}
+      </div>
+      <div className="relative flex-1 min-w-0">
+        <pre
+          ref={highlightRef}
+          aria-hidden
+          className={`${shared} absolute inset-0 overflow-hidden pointer-events-none`}
+          style={{ lineHeight: `${LINE_HEIGHT}px` }}
+        >
+          {tokens.map((token, idx) => <span key={idx} className={TOKEN_STYLES[token.kind]}>{token.text}</span>)}
+          {/* A trailing newline needs a character after it to take up a line */}
+          {'\n '}
+        </pre>
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={syncScroll}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+          wrap="off"
+          className={`${shared} absolute inset-0 w-full h-full resize-none bg-transparent text-transparent caret-white outline-none overflow-auto custom-scrollbar selection:bg-indigo-500/30`}
+          style={{ lineHeight: `${LINE_HEIGHT}px` }}
+        />
+      </div>
+    </div>
+  );
+};
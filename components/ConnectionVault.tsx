@@ -0,0 +1,332 @@
+
+import React, { useState } from 'react';
+import { VaultConnection } from '../types';
+import {
+  CONNECTION_PRESETS,
+  ConnectionSecrets,
+  UnlockedVault,
+  createConnection,
+  createVault,
+  deleteVault,
+  hasVault,
+  loadConnections,
+  putConnection,
+  removeConnection,
+  saveVault,
+  unlockVault,
+  validateConnectionName
+} from '../services/connectionVault';
+import { KeyRound, Lock, Unlock, Plus, Trash2, Pencil, Eye, EyeOff, Copy, Check, Loader2, ShieldCheck, X } from 'lucide-react';
+
+interface DraftConnection {
+  connection: VaultConnection;
+  secrets: ConnectionSecrets;
+}
+
+const FIELD_CLASS = 'w-full bg-gray-50 border border-gray-100 rounded-xl px-4 py-2.5 text-xs font-mono focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all';
+const LABEL_CLASS = 'text-[10px] font-black text-gray-400 uppercase tracking-widest';
+const BUTTON_CLASS = 'flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all disabled:opacity-40';
+
+const uniqueName = (base: string, connections: VaultConnection[]) => {
+  let name = base || 'connection';
+  for (let n = 2; connections.some(connection => connection.name === name); n++) name = `${base}-${n}`;
+  return name;
+};
+
+/**
+ * Named connections whose secrets are encrypted with a passphrase that never leaves the page.
+ * Blueprints and snippets only ever see connection names; the secrets are here to copy into
+ * each platform's own credential store.
+ */
+export const ConnectionVault: React.FC = () => {
+  const [exists, setExists] = useState(hasVault);
+  const [vault, setVault] = useState<UnlockedVault | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DraftConnection | null>(null);
+  const [newField, setNewField] = useState('');
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const connections = vault ? vault.connections : loadConnections();
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || "The vault operation failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    if (passphrase !== confirm) throw new Error("The passphrases do not match.");
+    setVault(await createVault(passphrase));
+    setExists(true);
+    setPassphrase('');
+    setConfirm('');
+  });
+
+  const handleUnlock = () => run(async () => {
+    setVault(await unlockVault(passphrase));
+    setPassphrase('');
+  });
+
+  const handleLock = () => {
+    setVault(null);
+    setDraft(null);
+    setRevealed(new Set());
+  };
+
+  const handleReset = () => {
+    if (!window.confirm("Delete the vault and every connection in it? Secrets cannot be recovered without the passphrase.")) return;
+    deleteVault();
+    handleLock();
+    setExists(false);
+    setError(null);
+  };
+
+  const persist = (next: UnlockedVault) => run(async () => {
+    await saveVault(next);
+    setVault(next);
+    setDraft(null);
+  });
+
+  const handleAdd = (service: string) => {
+    if (!vault) return;
+    const connection = createConnection(service);
+    connection.name = uniqueName(connection.name, vault.connections);
+    setDraft({ connection, secrets: Object.fromEntries(connection.secretFields.map(field => [field, ''])) });
+    setRevealed(new Set());
+  };
+
+  const handleEdit = (connection: VaultConnection) => {
+    if (!vault) return;
+    setDraft({ connection, secrets: { ...vault.secrets[connection.id] } });
+    setRevealed(new Set());
+  };
+
+  const handleSave = () => {
+    if (!vault || !draft) return;
+    const nameError = validateConnectionName(draft.connection.name, vault.connections, draft.connection.id);
+    if (nameError) {
+      setError(nameError);
+      return;
+    }
+    persist(putConnection(vault, draft.connection, draft.secrets));
+  };
+
+  const handleRemove = (connection: VaultConnection) => {
+    if (!vault || !window.confirm(`Delete the "${connection.name}" connection? Blueprints that use it will keep referring to the name.`)) return;
+    persist(removeConnection(vault, connection.id));
+  };
+
+  const handleAddField = () => {
+    const field = newField.trim();
+    if (!draft || !field || field in draft.secrets) return;
+    setDraft({ ...draft, secrets: { ...draft.secrets, [field]: '' } });
+    setNewField('');
+  };
+
+  const copy = (key: string, text: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(key);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const toggleReveal = (field: string) =>
+    setRevealed(prev => {
+      const next = new Set(prev);
+      if (next.has(field)) next.delete(field);
+      else next.add(field);
+      return next;
+    });
+
+  const updateDraft = (patch: Partial<VaultConnection>) => draft && setDraft({ ...draft, connection: { ...draft.connection, ...patch } });
+
+  return (
+    <div className="space-y-6">
+      {error && <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-[11px] text-red-600 font-medium">{error}</div>}
+
+      {!vault && (
+        <div className="flex items-start gap-3 p-4 bg-gray-50 border border-gray-100 rounded-2xl">
+          <Lock size={16} className="text-indigo-500 shrink-0 mt-2.5" />
+          <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && exists && handleUnlock()}
+              placeholder={exists ? 'Vault passphrase' : 'New passphrase (8+ characters)'}
+              className={FIELD_CLASS}
+            />
+            {!exists && (
+              <input
+                type="password"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder="Repeat passphrase"
+                className={FIELD_CLASS}
+              />
+            )}
+            <div className="flex items-center gap-2">
+              <button
+                onClick={exists ? handleUnlock : handleCreate}
+                disabled={busy || !passphrase}
+                className={`${BUTTON_CLASS} bg-indigo-600 text-white hover:bg-indigo-700`}
+              >
+                {busy ? <Loader2 size={14} className="animate-spin" /> : exists ? <Unlock size={14} /> : <ShieldCheck size={14} />}
+                {exists ? 'Unlock' : 'Create Vault'}
+              </button>
+              {exists && (
+                <button onClick={handleReset} className={`${BUTTON_CLASS} text-red-500 hover:bg-red-50`}>
+                  <Trash2 size={14} />
+                  Reset
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {vault && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`${LABEL_CLASS} mr-1`}>Add</span>
+          {CONNECTION_PRESETS.map(preset => (
+            <button
+              key={preset.service}
+              onClick={() => handleAdd(preset.service)}
+              className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-wider bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600 transition-all"
+            >
+              <Plus size={10} /> {preset.service}
+            </button>
+          ))}
+          <button onClick={handleLock} className={`${BUTTON_CLASS} ml-auto text-gray-500 hover:bg-gray-100`}>
+            <Lock size={14} />
+            Lock
+          </button>
+        </div>
+      )}
+
+      {draft && (
+        <div className="p-4 bg-indigo-50/30 border border-indigo-100 rounded-2xl space-y-4 animate-in fade-in">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="space-y-2 block">
+              <span className={LABEL_CLASS}>Name</span>
+              <input value={draft.connection.name} onChange={(e) => updateDraft({ name: e.target.value.toLowerCase() })} className={FIELD_CLASS} />
+            </label>
+            <label className="space-y-2 block">
+              <span className={LABEL_CLASS}>Service</span>
+              <input value={draft.connection.service} onChange={(e) => updateDraft({ service: e.target.value })} className={FIELD_CLASS} />
+            </label>
+          </div>
+          <label className="space-y-2 block">
+            <span className={LABEL_CLASS}>Scopes (comma separated)</span>
+            <input
+              value={draft.connection.scopes.join(', ')}
+              onChange={(e) => updateDraft({ scopes: e.target.value.split(',').map(scope => scope.trim()).filter(Boolean) })}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <div className="space-y-2">
+            <span className={LABEL_CLASS}>Secrets</span>
+            {Object.entries(draft.secrets).map(([field, value]) => (
+              <div key={field} className="grid grid-cols-4 gap-2 items-center">
+                <span className="text-[11px] font-mono font-bold text-gray-600 truncate">{field}</span>
+                <div className="col-span-3 relative">
+                  <input
+                    type={revealed.has(field) ? 'text' : 'password'}
+                    value={value}
+                    onChange={(e) => setDraft({ ...draft, secrets: { ...draft.secrets, [field]: e.target.value } })}
+                    placeholder="Leave empty to drop this field"
+                    autoComplete="off"
+                    className={`${FIELD_CLASS} pr-10`}
+                  />
+                  <button
+                    onClick={() => toggleReveal(field)}
+                    title={revealed.has(field) ? 'Hide' : 'Show'}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-indigo-600"
+                  >
+                    {revealed.has(field) ? <EyeOff size={14} /> : <Eye size={14} />}
+                  </button>
+                </div>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <input
+                value={newField}
+                onChange={(e) => setNewField(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddField()}
+                placeholder="Add field, e.g. clientSecret"
+                className={FIELD_CLASS}
+              />
+              <button onClick={handleAddField} disabled={!newField.trim()} className={`${BUTTON_CLASS} text-indigo-600 hover:bg-indigo-50`}>
+                <Plus size={14} />
+              </button>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className={`${BUTTON_CLASS} text-gray-500 hover:bg-gray-100`}>
+              <X size={14} />
+              Cancel
+            </button>
+            <button onClick={handleSave} disabled={busy} className={`${BUTTON_CLASS} bg-indigo-600 text-white hover:bg-indigo-700`}>
+              {busy ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+              Save Connection
+            </button>
+          </div>
+        </div>
+      )}
+
+      {connections.length === 0 ? (
+        <p className="text-xs text-gray-400 text-center py-6">
+          {exists ? 'No connections yet. Unlock the vault to add one.' : 'Create a vault to store named connections for the services your blueprints call.'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {connections.map(connection => {
+            const reference = `connection("${connection.name}")`;
+            return (
+              <div key={connection.id} className="flex items-center gap-3 px-4 py-3 bg-gray-50 rounded-xl">
+                <KeyRound size={14} className="text-emerald-500 shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs font-bold text-gray-800">
+                    <span className="font-mono">{connection.name}</span>
+                    <span className="ml-2 text-[10px] font-black text-indigo-600 uppercase tracking-widest">{connection.service}</span>
+                  </p>
+                  <p className="text-[10px] text-gray-400 truncate">
+                    {connection.secretFields.length ? connection.secretFields.join(', ') : 'no secrets'}
+                    {connection.scopes.length > 0 && ` · ${connection.scopes.join(', ')}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => copy(connection.id, reference)}
+                  title={`Copy ${reference}`}
+                  className="p-1.5 rounded-lg text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                >
+                  {copied === connection.id ? <Check size={14} className="text-green-500" /> : <Copy size={14} />}
+                </button>
+                {vault && (
+                  <>
+                    <button onClick={() => handleEdit(connection)} title="Edit connection" className="p-1.5 rounded-lg text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors">
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => handleRemove(connection)} title="Delete connection" className="p-1.5 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 transition-colors">
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
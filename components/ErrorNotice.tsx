@@ -0,0 +1,78 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ApiError } from '../types';
+import { describeError } from '../services/aiErrors';
+import { AlertCircle, RotateCw, Settings, X } from 'lucide-react';
+
+interface ErrorNoticeProps {
+  error: ApiError;
+  onRetry?: () => void;
+  onOpenSettings?: () => void;
+  onDismiss?: () => void;
+}
+
+/**
+ * Explains a failed request by its cause and offers the recovery action that fits it:
+ * retry (after any wait the provider asked for), open Settings, or nothing but a hint.
+ */
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onOpenSettings, onDismiss }) => {
+  const { title, hint, action } = describeError(error);
+  const retryAt = useMemo(() => error.details?.retryAfterMs ? Date.now() + error.details.retryAfterMs : 0, [error]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!retryAt) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const waitSeconds = retryAt > now ? Math.ceil((retryAt - now) / 1000) : 0;
+
+  return (
+    <div className="bg-red-50 border border-red-100 text-red-800 px-5 py-4 rounded-2xl flex items-start gap-4 animate-in slide-in-from-top-2">
+      <AlertCircle size={20} className="text-red-500 shrink-0 mt-0.5" />
+      <div className="flex-1 text-xs space-y-1">
+        <h4 className="font-bold">{title}</h4>
+        <p className="opacity-80 leading-relaxed break-words">{error.message}</p>
+        <p className="text-red-600/80 leading-relaxed">{hint}</p>
+        {error.details?.issues && error.details.issues.length > 0 && (
+          <ul className="mt-2 space-y-1 bg-white/60 border border-red-100 rounded-xl px-3 py-2 max-h-40 overflow-y-auto">
+            {error.details.issues.map((issue, idx) => (
+              <li key={idx} className="font-mono text-[11px] break-words">
+                <span className="font-bold">{issue.path || '(root)'}</span> {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+        {action === 'retry' && onRetry && (
+          <button
+            onClick={onRetry}
+            disabled={waitSeconds > 0}
+            className="mt-2 flex items-center gap-2 px-3 py-1.5 bg-white border border-red-200 rounded-lg text-[10px] font-black uppercase tracking-widest text-red-600 hover:bg-red-100 disabled:opacity-50 transition-all"
+          >
+            <RotateCw size={12} />
+            {waitSeconds > 0 ? `Retry in ${waitSeconds}s` : 'Try Again'}
+          </button>
+        )}
+        {action === 'settings' && onOpenSettings && (
+          <button
+            onClick={onOpenSettings}
+            className="mt-2 flex items-center gap-2 px-3 py-1.5 bg-white border border-red-200 rounded-lg text-[10px] font-black uppercase tracking-widest text-red-600 hover:bg-red-100 transition-all"
+          >
+            <Settings size={12} />
+            Open Settings
+          </button>
+        )}
+      </div>
+      {onDismiss && (
+        <button onClick={onDismiss} className="p-1 hover:bg-red-100 rounded-lg transition-colors">
+          <X size={16} />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+
+import React, { useState } from 'react';
+import { AutomationResult, ValidationIssue } from '../types';
+import { EXPORT_OPTIONS, ExportOption, downloadArtifact } from '../services/exporters';
+import { Download, ChevronDown, FileJson, FileCode } from 'lucide-react';
+
+interface ExportMenuProps {
+  automation: AutomationResult;
+  name: string;
+  onIssues: (issues: ValidationIssue[]) => void;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ automation, name, onIssues }) => {
+  const [open, setOpen] = useState(false);
+
+  // Formats native to the blueprint's platform float to the top
+  const options = [...EXPORT_OPTIONS].sort((a, b) =>
+    Number(b.platform === automation.platform) - Number(a.platform === automation.platform)
+  );
+
+  const handleExport = (option: ExportOption) => {
+    setOpen(false);
+    const artifact = option.build(automation, name);
+    onIssues(artifact.issues);
+    if (artifact.issues.length === 0) {
+      downloadArtifact(artifact);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all border text-indigo-600 hover:bg-indigo-50 border-transparent hover:border-indigo-100"
+      >
+        <Download size={14} />
+        Export
+        <ChevronDown size={12} className={`transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-white border border-gray-100 rounded-2xl shadow-2xl z-30 p-2 animate-in fade-in slide-in-from-top-2">
+          {options.map(option => (
+            <button
+              key={option.format}
+              onClick={() => handleExport(option)}
+              className="w-full flex items-start gap-3 p-3 rounded-xl hover:bg-indigo-50 text-left transition-colors"
+            >
+              <div className="w-8 h-8 rounded-lg bg-indigo-50 text-indigo-500 flex items-center justify-center shrink-0">
+                {option.format.startsWith('pipedream') ? <FileCode size={14} /> : <FileJson size={14} />}
+              </div>
+              <div>
+                <span className="block text-xs font-bold text-gray-900">
+                  {option.label}
+                  {option.platform === automation.platform && (
+                    <span className="ml-2 text-[8px] font-black uppercase tracking-widest text-indigo-600">Native</span>
+                  )}
+                </span>
+                <span className="block text-[10px] text-gray-400 font-medium">{option.description}</span>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
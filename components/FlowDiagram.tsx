@@ -0,0 +1,122 @@
+
+import React, { useMemo } from 'react';
+import { AutomationStep, StepEdgeKind } from '../types';
+import { layoutStepGraph } from '../services/stepGraph';
+import { GitBranch, Repeat, ShieldAlert, Split, Merge, KeyRound } from 'lucide-react';
+
+interface FlowDiagramProps {
+  steps: AutomationStep[];
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 76;
+const LANE_GAP = 40;
+const LEVEL_GAP = 64;
+
+const EDGE_STYLES: Record<StepEdgeKind, { stroke: string; dash?: string; text: string }> = {
+  next: { stroke: '#c7d2fe', text: '#6366f1' },
+  parallel: { stroke: '#818cf8', text: '#4f46e5' },
+  branch: { stroke: '#fbbf24', text: '#b45309' },
+  loop: { stroke: '#2dd4bf', dash: '6 4', text: '#0f766e' },
+  error: { stroke: '#f87171', dash: '4 4', text: '#b91c1c' }
+};
+
+const TYPE_STYLES: Record<AutomationStep['type'], string> = {
+  trigger: 'bg-orange-500',
+  action: 'bg-indigo-600',
+  logic: 'bg-amber-500'
+};
+
+export const FlowDiagram: React.FC<FlowDiagramProps> = ({ steps }) => {
+  const graph = useMemo(() => layoutStepGraph(steps), [steps]);
+
+  const width = graph.lanes * NODE_WIDTH + (graph.lanes - 1) * LANE_GAP;
+  const height = graph.levels * NODE_HEIGHT + (graph.levels - 1) * LEVEL_GAP;
+
+  // Center each level's nodes horizontally so single-lane spines stay in the middle
+  const positions = useMemo(() => {
+    const perLevel = new Map<number, number>();
+    graph.nodes.forEach(node => perLevel.set(node.level, (perLevel.get(node.level) || 0) + 1));
+    return new Map(graph.nodes.map(node => {
+      const count = perLevel.get(node.level)!;
+      const rowWidth = count * NODE_WIDTH + (count - 1) * LANE_GAP;
+      const x = (width - rowWidth) / 2 + node.lane * (NODE_WIDTH + LANE_GAP);
+      const y = node.level * (NODE_HEIGHT + LEVEL_GAP);
+      return [node.step.id, { x, y }];
+    }));
+  }, [graph, width]);
+
+  return (
+    <div className="overflow-x-auto custom-scrollbar pb-2">
+      <div className="relative mx-auto" style={{ width, height }}>
+        <svg className="absolute inset-0 pointer-events-none overflow-visible" width={width} height={height}>
+          <defs>
+            {Object.entries(EDGE_STYLES).map(([kind, style]) => (
+              <marker key={kind} id={`arrow-${kind}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={style.stroke} />
+              </marker>
+            ))}
+          </defs>
+          {graph.edges.map((edge, idx) => {
+            const from = positions.get(edge.from);
+            const to = positions.get(edge.to);
+            if (!from || !to) return null;
+            const style = EDGE_STYLES[edge.kind];
+            const sideways = to.y <= from.y;
+            const x1 = from.x + NODE_WIDTH / 2;
+            const y1 = sideways ? from.y + NODE_HEIGHT / 2 : from.y + NODE_HEIGHT;
+            const x2 = sideways ? (to.x > from.x ? to.x : to.x + NODE_WIDTH) : to.x + NODE_WIDTH / 2;
+            const y2 = sideways ? to.y + NODE_HEIGHT / 2 : to.y;
+            // Back edges (loops returning upward) bow out to the right of the column
+            const path = sideways
+              ? `M ${x1} ${y1} C ${x1 + NODE_WIDTH} ${y1}, ${x2 + (to.x > from.x ? -40 : 40)} ${y2}, ${x2} ${y2}`
+              : `M ${x1} ${y1} C ${x1} ${(y1 + y2) / 2}, ${x2} ${(y1 + y2) / 2}, ${x2} ${y2}`;
+            return (
+              <g key={idx}>
+                <path d={path} fill="none" stroke={style.stroke} strokeWidth={2} strokeDasharray={style.dash} markerEnd={`url(#arrow-${edge.kind})`} />
+                {edge.label && (
+                  <text x={(x1 + x2) / 2} y={(y1 + y2) / 2} textAnchor="middle" dy={-4} fontSize={9} fontWeight={800} fill={style.text}>
+                    {edge.label.length > 24 ? `${edge.label.substring(0, 24)}…` : edge.label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+
+        {graph.nodes.map(({ step }) => {
+          const pos = positions.get(step.id)!;
+          const fansOut = step.parallel && (step.next?.length || 0) > 1;
+          return (
+            <div
+              key={step.id}
+              className="absolute bg-white border border-gray-100 rounded-2xl shadow-sm hover:shadow-xl hover:border-indigo-100 transition-all p-3 flex gap-3 group"
+              style={{ left: pos.x, top: pos.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+              title={step.description}
+            >
+              <div className={`w-8 h-8 rounded-xl flex items-center justify-center shrink-0 font-black text-white text-xs shadow-lg ${TYPE_STYLES[step.type]}`}>
+                {step.id}
+              </div>
+              <div className="min-w-0 flex-1">
+                <h5 className="text-[11px] font-extrabold text-gray-900 leading-tight truncate">{step.title}</h5>
+                <p className="text-[10px] text-gray-400 leading-snug line-clamp-2">{step.description}</p>
+                <div className="flex items-center gap-1 mt-1 text-gray-300">
+                  {step.branches && step.branches.length > 0 && <GitBranch size={10} className="text-amber-500" />}
+                  {fansOut && <Split size={10} className="text-indigo-500" />}
+                  {step.join && <Merge size={10} className="text-indigo-500" />}
+                  {step.loop && <Repeat size={10} className="text-teal-500" />}
+                  {step.onError !== undefined && <ShieldAlert size={10} className="text-red-400" />}
+                  {step.connection && (
+                    <span className="flex items-center gap-0.5 text-[8px] font-bold text-emerald-600 truncate" title={`Uses the "${step.connection}" connection`}>
+                      <KeyRound size={10} className="shrink-0" /> {step.connection}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
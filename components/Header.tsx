@@ -15,6 +15,9 @@ const Header: React.FC<HeaderProps> = ({ activeView }) => {
       case AppView.TTS: return 'Voice Lab';
       case AppView.LIVE_CONSULTANT: return 'Live Architect';
       case AppView.LOGIC_SANDBOX: return 'Logic Sandbox';
+      case AppView.LIBRARY: return 'Blueprint Library';
+      case AppView.USAGE: return 'Usage & Cost';
+      case AppView.SETTINGS: return 'Settings';
       default: return 'Architect Console';
     }
   };
@@ -27,6 +30,9 @@ const Header: React.FC<HeaderProps> = ({ activeView }) => {
       case AppView.TTS: return 'Generate high-fidelity audio instructions for standard procedures.';
       case AppView.LIVE_CONSULTANT: return 'Engage in low-latency voice brainstorming with Gemini Native Audio.';
       case AppView.LOGIC_SANDBOX: return 'Stress-test logical branches and data payloads in a dry-run environment.';
+      case AppView.LIBRARY: return 'Version, tag and compare every blueprint your team has saved.';
+      case AppView.USAGE: return 'Track tokens, latency, retries and estimated spend for every AI call.';
+      case AppView.SETTINGS: return 'Choose the AI provider and models behind every feature.';
       default: return '';
     }
   };
@@ -0,0 +1,207 @@
+
+import React, { useState } from 'react';
+import { MockEndpoint, MockFailureMode } from '../types';
+import { FAILURE_MODES, createMockEndpoint, DEFAULT_MOCK_ENDPOINTS } from '../services/mockHttp';
+import { Server, Plus, RotateCcw, Trash2, ChevronDown, ChevronRight, Zap, KeyRound } from 'lucide-react';
+
+interface MockEndpointRegistryProps {
+  endpoints: MockEndpoint[];
+  onChange: (endpoints: MockEndpoint[]) => void;
+  // Vault connection names offered for the required-connection field
+  connectionNames?: string[];
+}
+
+const METHODS = ['ANY', 'GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const FIELD_CLASS = 'w-full bg-white border border-gray-100 rounded-xl px-3 py-2 text-[11px] font-bold text-gray-700 focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all';
+const LABEL_CLASS = 'text-[8px] font-black text-gray-400 uppercase tracking-widest';
+
+const statusStyle = (endpoint: MockEndpoint) =>
+  endpoint.failure !== 'none' ? 'bg-red-50 text-red-600' : endpoint.status >= 400 ? 'bg-amber-50 text-amber-600' : 'bg-green-50 text-green-600';
+
+/**
+ * Canned API responses for simulation runs. Each endpoint answers sandboxed `fetch` calls whose
+ * URL contains its route, and action steps that name its service; failures are injected at
+ * the configured rate. An endpoint with a required connection refuses calls made without it.
+ */
+export const MockEndpointRegistry: React.FC<MockEndpointRegistryProps> = ({ endpoints, onChange, connectionNames = [] }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const update = (id: string, patch: Partial<MockEndpoint>) =>
+    onChange(endpoints.map(endpoint => endpoint.id === id ? { ...endpoint, ...patch } : endpoint));
+
+  const handleAdd = () => {
+    const endpoint = createMockEndpoint();
+    onChange([...endpoints, endpoint]);
+    setExpandedId(endpoint.id);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(endpoints.filter(endpoint => endpoint.id !== id));
+    if (expandedId === id) setExpandedId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
+        <Server size={14} className="text-indigo-400" />
+        Mock Endpoints
+        <span className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => onChange(DEFAULT_MOCK_ENDPOINTS)}
+            title="Reset to the built-in endpoints"
+            className="p-1.5 rounded-lg text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+          >
+            <RotateCcw size={12} />
+          </button>
+          <button
+            onClick={handleAdd}
+            title="Add endpoint"
+            className="p-1.5 rounded-lg text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+          >
+            <Plus size={12} />
+          </button>
+        </span>
+      </label>
+
+      {endpoints.length === 0 && (
+        <p className="text-[11px] text-gray-400 font-medium">No mock endpoints. Sandboxed requests will be refused.</p>
+      )}
+
+      <datalist id="mock-endpoint-connections">
+        {connectionNames.map(name => <option key={name} value={name} />)}
+      </datalist>
+
+      <div className="space-y-2">
+        {endpoints.map(endpoint => {
+          const expanded = expandedId === endpoint.id;
+          return (
+            <div key={endpoint.id} className={`rounded-2xl border transition-all ${expanded ? 'border-indigo-100 bg-indigo-50/30' : 'border-gray-100 bg-gray-50'}`}>
+              <div className="flex items-center gap-2 px-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={endpoint.enabled}
+                  onChange={(e) => update(endpoint.id, { enabled: e.target.checked })}
+                  title={endpoint.enabled ? 'Disable endpoint' : 'Enable endpoint'}
+                  className="accent-indigo-600"
+                />
+                <button
+                  onClick={() => setExpandedId(expanded ? null : endpoint.id)}
+                  className={`flex-1 flex items-center gap-2 text-left min-w-0 ${endpoint.enabled ? '' : 'opacity-40'}`}
+                >
+                  {expanded ? <ChevronDown size={12} className="text-gray-400 shrink-0" /> : <ChevronRight size={12} className="text-gray-400 shrink-0" />}
+                  <span className="text-[11px] font-bold text-gray-700 shrink-0">{endpoint.service || 'Unnamed'}</span>
+                  <span className="text-[10px] font-mono text-gray-400 truncate">{endpoint.method} {endpoint.route}</span>
+                  {endpoint.connection && (
+                    <span className="flex items-center gap-0.5 text-[9px] font-bold text-emerald-600 shrink-0" title={`Requires the "${endpoint.connection}" connection`}>
+                      <KeyRound size={10} /> {endpoint.connection}
+                    </span>
+                  )}
+                </button>
+                <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded-md shrink-0 flex items-center gap-1 ${statusStyle(endpoint)}`}>
+                  {endpoint.failure !== 'none' && <Zap size={8} />}
+                  {endpoint.failure === 'none' ? endpoint.status : FAILURE_MODES.find(mode => mode.id === endpoint.failure)?.label}
+                </span>
+                <button
+                  onClick={() => handleRemove(endpoint.id)}
+                  title="Remove endpoint"
+                  className="p-1 rounded-lg text-gray-300 hover:text-red-500 transition-colors"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+
+              {expanded && (
+                <div className="px-3 pb-3 grid grid-cols-6 gap-2">
+                  <div className="col-span-3 space-y-1">
+                    <span className={LABEL_CLASS}>Service</span>
+                    <input value={endpoint.service} onChange={(e) => update(endpoint.id, { service: e.target.value })} className={FIELD_CLASS} />
+                  </div>
+                  <div className="col-span-3 space-y-1">
+                    <span className={LABEL_CLASS}>Method</span>
+                    <select value={endpoint.method} onChange={(e) => update(endpoint.id, { method: e.target.value })} className={FIELD_CLASS}>
+                      {METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+                    </select>
+                  </div>
+                  <div className="col-span-6 space-y-1">
+                    <span className={LABEL_CLASS}>Route (URL contains)</span>
+                    <input value={endpoint.route} onChange={(e) => update(endpoint.id, { route: e.target.value })} className={`${FIELD_CLASS} font-mono`} />
+                  </div>
+                  <div className="col-span-6 space-y-1">
+                    <span className={LABEL_CLASS}>Required connection</span>
+                    <input
+                      value={endpoint.connection || ''}
+                      onChange={(e) => update(endpoint.id, { connection: e.target.value.trim() || undefined })}
+                      list="mock-endpoint-connections"
+                      placeholder="Any (no credential check)"
+                      className={`${FIELD_CLASS} font-mono`}
+                    />
+                  </div>
+                  <div className="col-span-2 space-y-1">
+                    <span className={LABEL_CLASS}>Status</span>
+                    <input
+                      type="number"
+                      min={100}
+                      max={599}
+                      value={endpoint.status}
+                      onChange={(e) => update(endpoint.id, { status: Number(e.target.value) || 200 })}
+                      className={FIELD_CLASS}
+                    />
+                  </div>
+                  <div className="col-span-2 space-y-1">
+                    <span className={LABEL_CLASS}>Latency (ms)</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={endpoint.latencyMs}
+                      onChange={(e) => update(endpoint.id, { latencyMs: Math.max(0, Number(e.target.value) || 0) })}
+                      className={FIELD_CLASS}
+                    />
+                  </div>
+                  <div className="col-span-2 space-y-1">
+                    <span className={LABEL_CLASS}>Failure rate</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={5}
+                      disabled={endpoint.failure === 'none'}
+                      value={Math.round(endpoint.failureRate * 100)}
+                      onChange={(e) => update(endpoint.id, { failureRate: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })}
+                      className={`${FIELD_CLASS} disabled:opacity-40`}
+                    />
+                  </div>
+                  <div className="col-span-6 space-y-1">
+                    <span className={LABEL_CLASS}>Inject failure</span>
+                    <div className="grid grid-cols-4 gap-1 p-1 bg-white rounded-xl border border-gray-100">
+                      {FAILURE_MODES.map(mode => (
+                        <button
+                          key={mode.id}
+                          onClick={() => update(endpoint.id, { failure: mode.id as MockFailureMode })}
+                          className={`py-1.5 rounded-lg text-[9px] font-black uppercase tracking-wider transition-all ${
+                            endpoint.failure === mode.id ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-gray-600'
+                          }`}
+                        >
+                          {mode.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="col-span-6 space-y-1">
+                    <span className={LABEL_CLASS}>Response body</span>
+                    <textarea
+                      value={endpoint.body}
+                      onChange={(e) => update(endpoint.id, { body: e.target.value })}
+                      spellCheck={false}
+                      className="w-full h-28 bg-[#0f1117] text-green-400 font-mono text-[10px] p-3 rounded-xl border border-gray-800 focus:border-indigo-500/50 outline-none custom-scrollbar"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
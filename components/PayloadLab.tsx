@@ -0,0 +1,238 @@
+
+import React, { useState } from 'react';
+import { AutomationResult, PayloadVariant, PayloadVariantKind, TestCaseResult } from '../types';
+import { VARIANT_KINDS, generateVariants, inferSchema, inferTriggerPayload, variantBase } from '../services/payloadSchema';
+import {
+  Braces,
+  Shuffle,
+  Play,
+  Loader2,
+  ListPlus,
+  Database,
+  Eye,
+  CheckCircle2,
+  XCircle,
+  CircleDashed,
+  Workflow,
+  Square
+} from 'lucide-react';
+
+interface PayloadLabProps {
+  inputData: string;
+  automation: AutomationResult | null;
+  results: Record<string, TestCaseResult>;
+  running: boolean;
+  onLoadPayload: (payload: string) => void;
+  onRun: (variants: PayloadVariant[]) => void;
+  // Stops a running batch after the variant in flight
+  onStop: () => void;
+  // Called whenever the variant list is replaced, so results from the old list are dropped
+  onReset: () => void;
+  onAddToSuite?: (variants: PayloadVariant[]) => void;
+  onShowTrace: (result: TestCaseResult) => void;
+}
+
+const KIND_STYLES: Record<PayloadVariantKind, string> = {
+  missing: 'bg-gray-100 text-gray-600',
+  null: 'bg-slate-100 text-slate-600',
+  wrong_type: 'bg-amber-50 text-amber-600',
+  huge_array: 'bg-purple-50 text-purple-600',
+  unicode: 'bg-sky-50 text-sky-600',
+  boundary: 'bg-rose-50 text-rose-600'
+};
+
+const ACTION_BUTTON = 'flex items-center justify-center gap-2 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+
+const firstFailure = (result: TestCaseResult) =>
+  result.error || result.response?.stepResults.find(step => step.status === 'failure')?.reasoning || result.response?.summary || '';
+
+/**
+ * Infers a JSON Schema from the mock payload or from the fields the blueprint's steps read,
+ * then derives one-change edge-case payloads from it and runs them through the simulator.
+ * The schema stays editable, so a field can be tightened or added before generating.
+ */
+export const PayloadLab: React.FC<PayloadLabProps> = ({
+  inputData,
+  automation,
+  results,
+  running,
+  onLoadPayload,
+  onRun,
+  onStop,
+  onReset,
+  onAddToSuite,
+  onShowTrace
+}) => {
+  const [schemaText, setSchemaText] = useState('');
+  const [base, setBase] = useState<unknown>(undefined);
+  const [source, setSource] = useState<string | null>(null);
+  const [kinds, setKinds] = useState<PayloadVariantKind[]>(VARIANT_KINDS.map(kind => kind.id));
+  const [variants, setVariants] = useState<PayloadVariant[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const showSchema = (schema: object, sample: unknown, label: string) => {
+    setSchemaText(JSON.stringify(schema, null, 2));
+    setBase(sample);
+    setSource(label);
+    setVariants([]);
+    setError(null);
+    onReset();
+  };
+
+  const handleInferFromPayload = () => {
+    try {
+      const payload = JSON.parse(inputData);
+      showSchema(inferSchema(payload), payload, 'mock payload');
+    } catch (e: any) {
+      setError(`Mock Payload is not valid JSON: ${e.message}`);
+    }
+  };
+
+  const handleInferFromTrigger = () => {
+    if (!automation) return;
+    const { schema, sample, fields } = inferTriggerPayload(automation);
+    if (fields === 0) {
+      setError("The blueprint's steps do not read any trigger fields through structured operations.");
+      return;
+    }
+    showSchema(schema, sample, `${fields} field${fields === 1 ? '' : 's'} read by the blueprint`);
+  };
+
+  const handleGenerate = () => {
+    try {
+      const schema = JSON.parse(schemaText);
+      setVariants(generateVariants(schema, variantBase(schema, base), kinds));
+      setError(null);
+      onReset();
+    } catch (e: any) {
+      setError(`Schema is not valid JSON: ${e.message}`);
+    }
+  };
+
+  const toggleKind = (kind: PayloadVariantKind) =>
+    setKinds(prev => prev.includes(kind) ? prev.filter(id => id !== kind) : [...prev, kind]);
+
+  const finished = variants.filter(variant => results[variant.id]);
+  const failing = finished.filter(variant => results[variant.id].response?.overallStatus !== 'success').length;
+  const currentId = running ? variants.find(variant => !results[variant.id])?.id : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={handleInferFromPayload} className={`${ACTION_BUTTON} bg-gray-50 text-gray-600 hover:bg-gray-100 border border-gray-100`}>
+          <Database size={12} /> From Payload
+        </button>
+        <button
+          onClick={handleInferFromTrigger}
+          disabled={!automation}
+          title={automation ? undefined : 'Select a source blueprint first'}
+          className={`${ACTION_BUTTON} bg-gray-50 text-gray-600 hover:bg-gray-100 border border-gray-100`}
+        >
+          <Workflow size={12} /> From Trigger
+        </button>
+      </div>
+
+      {error && <p className="text-[11px] font-medium text-red-600">{error}</p>}
+
+      {source && (
+        <div className="space-y-3">
+          <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
+            <Braces size={14} className="text-indigo-400" />
+            Inferred Schema
+            <span className="ml-auto text-[8px] font-bold bg-indigo-50 text-indigo-600 px-2 py-0.5 rounded-md normal-case tracking-normal">
+              from {source}
+            </span>
+          </label>
+          <textarea
+            value={schemaText}
+            onChange={(e) => setSchemaText(e.target.value)}
+            spellCheck={false}
+            className="w-full h-40 bg-[#0f1117] text-sky-300 font-mono text-[10px] p-4 rounded-2xl border border-gray-800 focus:border-indigo-500/50 outline-none custom-scrollbar"
+          />
+
+          <div className="flex flex-wrap gap-1.5">
+            {VARIANT_KINDS.map(kind => (
+              <button
+                key={kind.id}
+                onClick={() => toggleKind(kind.id)}
+                className={`px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-wider transition-all ${
+                  kinds.includes(kind.id) ? KIND_STYLES[kind.id] : 'bg-white text-gray-300 border border-gray-100'
+                }`}
+              >
+                {kind.label}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={handleGenerate}
+            disabled={kinds.length === 0}
+            className={`${ACTION_BUTTON} w-full bg-indigo-50 text-indigo-600 hover:bg-indigo-100`}
+          >
+            <Shuffle size={12} /> Generate Edge Cases
+          </button>
+        </div>
+      )}
+
+      {variants.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+            {variants.length} variant{variants.length === 1 ? '' : 's'}
+            {finished.length > 0 && (
+              <span className={failing > 0 ? 'text-red-600' : 'text-green-600'}>
+                · {failing}/{finished.length} failed
+              </span>
+            )}
+          </div>
+
+          <div className="max-h-72 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+            {variants.map(variant => {
+              const result = results[variant.id];
+              const succeeded = result?.response?.overallStatus === 'success';
+              return (
+                <div key={variant.id} className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-gray-50 border border-gray-100">
+                  {result
+                    ? succeeded ? <CheckCircle2 size={12} className="text-green-500 shrink-0" /> : <XCircle size={12} className="text-red-500 shrink-0" />
+                    : variant.id === currentId ? <Loader2 size={12} className="animate-spin text-indigo-400 shrink-0" /> : <CircleDashed size={12} className="text-gray-300 shrink-0" />}
+                  <span className={`text-[8px] font-black uppercase px-1.5 py-0.5 rounded-md shrink-0 ${KIND_STYLES[variant.kind]}`}>
+                    {VARIANT_KINDS.find(kind => kind.id === variant.kind)?.label}
+                  </span>
+                  <span
+                    className="flex-1 text-[10px] font-mono text-gray-600 truncate"
+                    title={result && !succeeded ? firstFailure(result) : variant.label}
+                  >
+                    {variant.label}
+                  </span>
+                  <button onClick={() => onLoadPayload(variant.payload)} title="Load payload into the editor" className="p-1 rounded-lg text-gray-300 hover:text-indigo-600 transition-colors">
+                    <Database size={12} />
+                  </button>
+                  {result?.response && (
+                    <button onClick={() => onShowTrace(result)} title="Show this variant's trace" className="p-1 rounded-lg text-gray-300 hover:text-indigo-600 transition-colors">
+                      <Eye size={12} />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className={`grid gap-2 ${onAddToSuite || running ? 'grid-cols-2' : 'grid-cols-1'}`}>
+            <button onClick={() => onRun(variants)} disabled={running} className={`${ACTION_BUTTON} bg-gray-900 text-white hover:bg-gray-800`}>
+              {running ? <Loader2 className="animate-spin" size={12} /> : <Play size={12} fill="currentColor" />}
+              {running ? `Running ${finished.length + 1} of ${variants.length}...` : 'Run All'}
+            </button>
+            {running ? (
+              <button onClick={onStop} className={`${ACTION_BUTTON} border border-gray-200 text-gray-500 hover:bg-red-50 hover:text-red-600 hover:border-red-100`}>
+                <Square size={12} fill="currentColor" /> Stop
+              </button>
+            ) : onAddToSuite && (
+              <button onClick={() => onAddToSuite(variants)} className={`${ACTION_BUTTON} bg-gray-50 text-gray-600 hover:bg-gray-100 border border-gray-100`}>
+                <ListPlus size={12} /> Add to Suite
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
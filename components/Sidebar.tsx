@@ -8,7 +8,10 @@ import {
   Mic2, 
   Layers,
   Radio,
-  FlaskConical
+  FlaskConical,
+  Library,
+  Gauge,
+  Settings
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -20,10 +23,13 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, onNavigate }) => {
   const navItems = [
     { id: AppView.GENERATOR, label: 'Blueprint Gen', icon: Workflow, color: 'text-blue-600' },
     { id: AppView.LOGIC_SANDBOX, label: 'Logic Sandbox', icon: FlaskConical, color: 'text-pink-600' },
+    { id: AppView.LIBRARY, label: 'Blueprint Library', icon: Library, color: 'text-teal-600' },
     { id: AppView.LIVE_CONSULTANT, label: 'Live Architect', icon: Radio, color: 'text-indigo-600' },
     { id: AppView.CHATBOT, label: 'Advisor AI', icon: MessageCircle, color: 'text-purple-600' },
     { id: AppView.IMAGE_ANALYSIS, label: 'Vision Extract', icon: Eye, color: 'text-green-600' },
     { id: AppView.TTS, label: 'Voice Lab', icon: Mic2, color: 'text-orange-600' },
+    { id: AppView.USAGE, label: 'Usage & Cost', icon: Gauge, color: 'text-amber-600' },
+    { id: AppView.SETTINGS, label: 'Settings', icon: Settings, color: 'text-gray-700' },
   ];
 
   return (
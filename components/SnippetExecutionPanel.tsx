@@ -0,0 +1,79 @@
+
+import React from 'react';
+import { SandboxLogEntry, SnippetExecution } from '../types';
+import { Terminal, Globe, Timer, XCircle, KeyRound } from 'lucide-react';
+
+interface SnippetExecutionPanelProps {
+  execution: SnippetExecution;
+}
+
+const LOG_STYLES: Record<SandboxLogEntry['level'], string> = {
+  log: 'text-white/70',
+  info: 'text-sky-300',
+  debug: 'text-white/40',
+  warn: 'text-amber-300',
+  error: 'text-red-300'
+};
+
+const statusStyle = (status: number | null) =>
+  status === null ? 'text-red-300' : status >= 400 ? 'text-amber-300' : 'text-emerald-300';
+
+/**
+ * What happened when a snippet ran in the sandbox worker: console output, mocked requests
+ * and the error that ended the run, if any. The return value is shown as the step output.
+ */
+export const SnippetExecutionPanel: React.FC<SnippetExecutionPanelProps> = ({ execution }) => (
+  <div className="bg-gray-900 p-3 rounded-xl border border-white/5 space-y-3">
+    <div className="flex items-center justify-between text-[8px] font-black text-white/30 uppercase tracking-widest">
+      <span className="flex items-center gap-1"><Terminal size={10} /> Sandbox Console</span>
+      <span className={`flex items-center gap-1 ${execution.timedOut ? 'text-red-300' : ''}`}>
+        <Timer size={10} /> {execution.timedOut ? 'Timed out' : `${execution.durationMs}ms`}
+      </span>
+    </div>
+
+    {execution.logs.length === 0 ? (
+      <p className="text-[10px] text-white/30 font-mono">No console output.</p>
+    ) : (
+      <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-0.5">
+        {execution.logs.map((entry, idx) => (
+          <pre key={idx} className={`text-[10px] font-mono whitespace-pre-wrap break-words ${LOG_STYLES[entry.level]}`}>
+            {entry.level !== 'log' && <span className="opacity-60">[{entry.level}] </span>}
+            {entry.text}
+          </pre>
+        ))}
+      </div>
+    )}
+
+    {execution.requests.length > 0 && (
+      <div className="space-y-1 border-t border-white/5 pt-2">
+        <div className="text-[8px] font-black text-white/30 uppercase tracking-widest flex items-center gap-1">
+          <Globe size={10} /> Mocked Requests
+        </div>
+        {execution.requests.map((request, idx) => (
+          <div key={idx} className="space-y-0.5">
+            <div className="flex items-center gap-2 text-[10px] font-mono">
+              <span className="text-white/50 w-12 shrink-0">{request.method}</span>
+              <span className="text-white/70 truncate flex-1">{request.url}</span>
+              {request.connection && (
+                <span className={`flex items-center gap-1 shrink-0 ${request.connectionError ? 'text-red-300/70' : 'text-emerald-300/70'}`}>
+                  <KeyRound size={10} /> {request.connection}
+                </span>
+              )}
+              {request.service && <span className="text-white/30 shrink-0">{request.service}</span>}
+              {request.injected && <span className="text-red-300/70 shrink-0">injected</span>}
+              <span className={statusStyle(request.status)}>{request.status ?? (request.service ? 'timeout' : 'blocked')}</span>
+            </div>
+            {request.connectionError && <p className="pl-14 text-[10px] font-mono text-red-300/80 break-words">{request.connectionError}</p>}
+          </div>
+        ))}
+      </div>
+    )}
+
+    {execution.error && (
+      <div className="flex items-start gap-2 border-t border-white/5 pt-2 text-[10px] font-mono text-red-300">
+        <XCircle size={12} className="shrink-0 mt-0.5" />
+        <span className="break-words">{execution.error}</span>
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,127 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Platform, SnippetDiagnostic, SnippetLanguage } from '../types';
+import { SNIPPET_LANGUAGES, detectLanguage, formatSnippet } from '../services/snippetLanguage';
+import { lintSnippet } from '../services/snippetLint';
+import { CodeEditor } from './CodeEditor';
+import { Terminal, Wand2, Loader2, XCircle, AlertTriangle, Info, CheckCircle2 } from 'lucide-react';
+
+interface SnippetWorkspaceProps {
+  code: string;
+  platform?: Platform;
+  onChange: (code: string) => void;
+}
+
+const LINT_DELAY_MS = 400;
+
+const SEVERITY_ICONS: Record<SnippetDiagnostic['severity'], React.ReactNode> = {
+  error: <XCircle size={12} className="text-red-400 shrink-0 mt-0.5" />,
+  warning: <AlertTriangle size={12} className="text-amber-400 shrink-0 mt-0.5" />,
+  info: <Info size={12} className="text-sky-400 shrink-0 mt-0.5" />
+};
+
+const SOURCE_LABELS: Record<SnippetDiagnostic['source'], string> = {
+  syntax: 'Syntax',
+  undefined: 'Undefined',
+  credential: 'Credential',
+  checker: 'Checker'
+};
+
+/**
+ * Editable code panel for a blueprint's snippet: detects the language (overridable), highlights
+ * and formats it, and re-checks it shortly after each edit.
+ */
+export const SnippetWorkspace: React.FC<SnippetWorkspaceProps> = ({ code, platform, onChange }) => {
+  const [languageOverride, setLanguageOverride] = useState<SnippetLanguage | null>(null);
+  const [diagnostics, setDiagnostics] = useState<SnippetDiagnostic[]>([]);
+  const [checking, setChecking] = useState(false);
+  const detected = useMemo(() => detectLanguage(code), [code]);
+  const language = languageOverride || detected;
+
+  useEffect(() => {
+    let cancelled = false;
+    setChecking(true);
+    const timer = setTimeout(() => {
+      lintSnippet(code, language, platform)
+        .then(found => {
+          if (!cancelled) setDiagnostics(found);
+        })
+        .catch(err => {
+          if (!cancelled) setDiagnostics([{ line: 1, column: 1, severity: 'info', source: 'checker', message: `The snippet could not be checked: ${err.message || 'unknown error'}` }]);
+        })
+        .finally(() => {
+          if (!cancelled) setChecking(false);
+        });
+    }, LINT_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code, language, platform]);
+
+  const counts = useMemo(() => ({
+    error: diagnostics.filter(d => d.severity === 'error').length,
+    warning: diagnostics.filter(d => d.severity === 'warning').length,
+    info: diagnostics.filter(d => d.severity === 'info').length
+  }), [diagnostics]);
+
+  const handleFormat = () => {
+    const formatted = formatSnippet(code, language);
+    if (formatted !== code) onChange(formatted);
+  };
+
+  return (
+    <div className="bg-[#0f1117] rounded-3xl overflow-hidden shadow-2xl border border-gray-800/50">
+      <div className="flex items-center gap-3 px-5 py-3 border-b border-white/5 bg-white/5">
+        <Terminal size={12} className="text-indigo-400" />
+        <span className="text-[10px] font-black text-white/40 uppercase tracking-[0.2em] flex-1">Implementation Code</span>
+        <select
+          value={languageOverride || ''}
+          onChange={(e) => setLanguageOverride((e.target.value || null) as SnippetLanguage | null)}
+          className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[10px] font-bold text-white/70 outline-none focus:border-indigo-400"
+        >
+          <option value="">Auto ({SNIPPET_LANGUAGES.find(option => option.id === detected)?.label})</option>
+          {SNIPPET_LANGUAGES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </select>
+        <button
+          onClick={handleFormat}
+          disabled={language === 'text'}
+          className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest text-indigo-300 hover:bg-white/10 disabled:opacity-30 transition-all"
+        >
+          <Wand2 size={12} />
+          Format
+        </button>
+      </div>
+
+      <CodeEditor value={code} language={language} onChange={onChange} diagnostics={diagnostics} />
+
+      <div className="border-t border-white/5 bg-white/[0.02]">
+        <div className="flex items-center gap-4 px-5 py-2.5 text-[10px] font-black uppercase tracking-widest">
+          {checking ? (
+            <span className="flex items-center gap-1.5 text-white/40"><Loader2 size={12} className="animate-spin" /> Checking</span>
+          ) : diagnostics.length === 0 ? (
+            <span className="flex items-center gap-1.5 text-emerald-400"><CheckCircle2 size={12} /> No problems found</span>
+          ) : (
+            <>
+              <span className="text-red-400">{counts.error} {counts.error === 1 ? 'error' : 'errors'}</span>
+              <span className="text-amber-400">{counts.warning} {counts.warning === 1 ? 'warning' : 'warnings'}</span>
+              <span className="text-sky-400">{counts.info} info</span>
+            </>
+          )}
+        </div>
+        {diagnostics.length > 0 && (
+          <ul className="max-h-48 overflow-y-auto custom-scrollbar px-5 pb-4 space-y-1.5">
+            {diagnostics.map((diagnostic, idx) => (
+              <li key={idx} className="flex items-start gap-2 text-[11px] text-white/70">
+                {SEVERITY_ICONS[diagnostic.severity]}
+                <span className="font-mono text-white/30 shrink-0">{diagnostic.line}:{diagnostic.column}</span>
+                <span className="text-[9px] font-black uppercase tracking-widest text-white/40 shrink-0 mt-0.5">{SOURCE_LABELS[diagnostic.source]}</span>
+                <span className="break-words">{diagnostic.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
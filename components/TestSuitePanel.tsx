@@ -0,0 +1,270 @@
+
+import React, { useState } from 'react';
+import { AutomationStep, TestAssertion, TestCase, TestCaseResult, TestSuite } from '../types';
+import { describeAssertion } from '../services/testSuites';
+import {
+  ListChecks,
+  Plus,
+  Play,
+  Loader2,
+  Upload,
+  Download,
+  Trash2,
+  ChevronDown,
+  ChevronRight,
+  CheckCircle2,
+  XCircle,
+  CircleDashed,
+  Eye,
+  Database
+} from 'lucide-react';
+
+interface TestSuitePanelProps {
+  suite: TestSuite;
+  steps: AutomationStep[];
+  results: Record<string, TestCaseResult>;
+  running: boolean;
+  onChange: (suite: TestSuite) => void;
+  onAddCase: () => void;
+  onRun: () => void;
+  onLoadPayload: (payload: string) => void;
+  onShowTrace: (result: TestCaseResult) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const ASSERTION_KINDS: { id: TestAssertion['kind']; label: string }[] = [
+  { id: 'overall_status', label: 'Overall status' },
+  { id: 'step_status', label: 'Step status' },
+  { id: 'output_contains', label: 'Output contains' }
+];
+
+const FIELD_CLASS = 'bg-white border border-gray-100 rounded-lg px-2 py-1.5 text-[10px] font-bold text-gray-700 focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all';
+const ICON_BUTTON = 'p-1 rounded-lg text-gray-300 hover:text-indigo-600 transition-colors';
+
+const defaultAssertion = (kind: TestAssertion['kind'], steps: AutomationStep[]): TestAssertion => {
+  if (kind === 'overall_status') return { kind, status: 'success' };
+  if (kind === 'step_status') return { kind, stepId: steps[0]?.id ?? 1, status: 'success' };
+  return { kind, text: '' };
+};
+
+const CaseStatus: React.FC<{ result?: TestCaseResult; running: boolean }> = ({ result, running }) => {
+  if (result) {
+    return result.passed
+      ? <CheckCircle2 size={14} className="text-green-500 shrink-0" />
+      : <XCircle size={14} className="text-red-500 shrink-0" />;
+  }
+  return running ? <Loader2 size={14} className="animate-spin text-indigo-400 shrink-0" /> : <CircleDashed size={14} className="text-gray-300 shrink-0" />;
+};
+
+/**
+ * Named payloads with expected outcomes for one blueprint, run together against the selected
+ * engine. Failed assertions are listed under their case with what the trace actually showed.
+ */
+export const TestSuitePanel: React.FC<TestSuitePanelProps> = ({
+  suite,
+  steps,
+  results,
+  running,
+  onChange,
+  onAddCase,
+  onRun,
+  onLoadPayload,
+  onShowTrace,
+  onExport,
+  onImport
+}) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const updateCase = (id: string, patch: Partial<TestCase>) =>
+    onChange({ ...suite, cases: suite.cases.map(testCase => testCase.id === id ? { ...testCase, ...patch } : testCase), updatedAt: Date.now() });
+
+  const removeCase = (id: string) =>
+    onChange({ ...suite, cases: suite.cases.filter(testCase => testCase.id !== id), updatedAt: Date.now() });
+
+  const updateAssertion = (testCase: TestCase, index: number, assertion: TestAssertion) =>
+    updateCase(testCase.id, { assertions: testCase.assertions.map((current, idx) => idx === index ? assertion : current) });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  const finished = suite.cases.filter(testCase => results[testCase.id]);
+  const passed = finished.filter(testCase => results[testCase.id].passed).length;
+  const currentId = running ? suite.cases.find(testCase => !results[testCase.id])?.id : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
+          <ListChecks size={14} className="text-indigo-400" />
+          {suite.cases.length} case{suite.cases.length === 1 ? '' : 's'}
+          {finished.length > 0 && (
+            <span className={passed === finished.length ? 'text-green-600' : 'text-red-600'}>
+              · {passed}/{finished.length} passed
+            </span>
+          )}
+        </span>
+        <span className="ml-auto flex items-center gap-1">
+          <label title="Import suite" className="p-1.5 rounded-lg text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors cursor-pointer">
+            <Upload size={12} />
+            <input type="file" className="hidden" accept="application/json,.json" onChange={handleImport} />
+          </label>
+          <button
+            onClick={onExport}
+            disabled={suite.cases.length === 0}
+            title="Export suite"
+            className="p-1.5 rounded-lg text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-40 transition-colors"
+          >
+            <Download size={12} />
+          </button>
+          <button
+            onClick={onAddCase}
+            title="Add a case from the current mock payload"
+            className="p-1.5 rounded-lg text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+          >
+            <Plus size={12} />
+          </button>
+        </span>
+      </div>
+
+      {suite.cases.length === 0 && (
+        <p className="text-[11px] text-gray-400 font-medium">No cases yet. Add the current mock payload as the first case.</p>
+      )}
+
+      <div className="space-y-2">
+        {suite.cases.map(testCase => {
+          const expanded = expandedId === testCase.id;
+          const result = results[testCase.id];
+          const failures = result ? result.assertions.filter(assertion => !assertion.passed) : [];
+          return (
+            <div key={testCase.id} className={`rounded-2xl border transition-all ${expanded ? 'border-indigo-100 bg-indigo-50/30' : 'border-gray-100 bg-gray-50'}`}>
+              <div className="flex items-center gap-2 px-3 py-2">
+                <CaseStatus result={result} running={testCase.id === currentId} />
+                <button
+                  onClick={() => setExpandedId(expanded ? null : testCase.id)}
+                  className="flex-1 flex items-center gap-2 text-left min-w-0"
+                >
+                  {expanded ? <ChevronDown size={12} className="text-gray-400 shrink-0" /> : <ChevronRight size={12} className="text-gray-400 shrink-0" />}
+                  <span className="text-[11px] font-bold text-gray-700 truncate">{testCase.name || 'Unnamed case'}</span>
+                  <span className="text-[9px] font-bold text-gray-400 shrink-0">
+                    {testCase.assertions.length} assertion{testCase.assertions.length === 1 ? '' : 's'}
+                  </span>
+                </button>
+                <button onClick={() => onLoadPayload(testCase.payload)} title="Load payload into the editor" className={ICON_BUTTON}>
+                  <Database size={12} />
+                </button>
+                {result?.response && (
+                  <button onClick={() => onShowTrace(result)} title="Show this case's trace" className={ICON_BUTTON}>
+                    <Eye size={12} />
+                  </button>
+                )}
+                <button onClick={() => removeCase(testCase.id)} title="Remove case" className="p-1 rounded-lg text-gray-300 hover:text-red-500 transition-colors">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+
+              {result && (result.error || failures.length > 0) && (
+                <div className="px-3 pb-2 space-y-0.5">
+                  {result.error && <p className="text-[10px] font-mono text-red-600">{result.error}</p>}
+                  {failures.map((failure, idx) => (
+                    <p key={idx} className="text-[10px] font-mono text-red-600">
+                      ✗ {describeAssertion(failure.assertion)}; got {failure.actual}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {expanded && (
+                <div className="px-3 pb-3 space-y-3">
+                  <input
+                    value={testCase.name}
+                    onChange={(e) => updateCase(testCase.id, { name: e.target.value })}
+                    placeholder="Case name"
+                    className={`${FIELD_CLASS} w-full`}
+                  />
+                  <textarea
+                    value={testCase.payload}
+                    onChange={(e) => updateCase(testCase.id, { payload: e.target.value })}
+                    spellCheck={false}
+                    className="w-full h-28 bg-[#0d0e12] text-green-400 font-mono text-[10px] p-3 rounded-xl border border-gray-800 focus:border-indigo-500/50 outline-none custom-scrollbar"
+                  />
+
+                  <div className="space-y-2">
+                    <span className="text-[8px] font-black text-gray-400 uppercase tracking-widest">Expected outcomes</span>
+                    {testCase.assertions.map((assertion, idx) => (
+                      <div key={idx} className="flex items-center gap-1.5">
+                        <select
+                          value={assertion.kind}
+                          onChange={(e) => updateAssertion(testCase, idx, defaultAssertion(e.target.value as TestAssertion['kind'], steps))}
+                          className={FIELD_CLASS}
+                        >
+                          {ASSERTION_KINDS.map(kind => <option key={kind.id} value={kind.id}>{kind.label}</option>)}
+                        </select>
+
+                        {assertion.kind !== 'overall_status' && (
+                          <select
+                            value={assertion.stepId ?? ''}
+                            onChange={(e) => updateAssertion(testCase, idx, { ...assertion, stepId: e.target.value === '' ? undefined : Number(e.target.value) } as TestAssertion)}
+                            className={`${FIELD_CLASS} min-w-0 flex-1`}
+                          >
+                            {assertion.kind === 'output_contains' && <option value="">Any step</option>}
+                            {steps.map(step => <option key={step.id} value={step.id}>Step {step.id}: {step.title}</option>)}
+                          </select>
+                        )}
+
+                        {assertion.kind === 'output_contains' ? (
+                          <input
+                            value={assertion.text}
+                            onChange={(e) => updateAssertion(testCase, idx, { ...assertion, text: e.target.value })}
+                            placeholder="Expected text"
+                            className={`${FIELD_CLASS} min-w-0 flex-1`}
+                          />
+                        ) : (
+                          <select
+                            value={assertion.status}
+                            onChange={(e) => updateAssertion(testCase, idx, { ...assertion, status: e.target.value } as TestAssertion)}
+                            className={FIELD_CLASS}
+                          >
+                            <option value="success">success</option>
+                            <option value="failure">failure</option>
+                            {assertion.kind === 'step_status' && <option value="skipped">skipped</option>}
+                          </select>
+                        )}
+
+                        <button
+                          onClick={() => updateCase(testCase.id, { assertions: testCase.assertions.filter((_, i) => i !== idx) })}
+                          title="Remove assertion"
+                          className="p-1 rounded-lg text-gray-300 hover:text-red-500 transition-colors shrink-0"
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => updateCase(testCase.id, { assertions: [...testCase.assertions, defaultAssertion('step_status', steps)] })}
+                      className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-indigo-500 hover:text-indigo-700 transition-colors"
+                    >
+                      <Plus size={10} /> Add assertion
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={onRun}
+        disabled={running || suite.cases.length === 0}
+        className="w-full py-3 rounded-2xl font-black uppercase tracking-[0.2em] text-[10px] flex items-center justify-center gap-2 transition-all bg-gray-900 text-white hover:bg-gray-800 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed"
+      >
+        {running ? <Loader2 className="animate-spin" size={14} /> : <Play size={14} fill="currentColor" />}
+        {running ? `Running ${finished.length + 1} of ${suite.cases.length}...` : 'Run Suite'}
+      </button>
+    </div>
+  );
+};
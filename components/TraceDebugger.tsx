@@ -0,0 +1,279 @@
+
+import React, { useEffect, useState } from 'react';
+import { Json } from '../types';
+import {
+  ContextChange,
+  DebugSession,
+  continueDebugSession,
+  diffContexts,
+  isFinished,
+  rewindDebugSession,
+  stepDebugSession,
+  watchPath
+} from '../services/traceDebugger';
+import { SnippetExecutionPanel } from './SnippetExecutionPanel';
+import {
+  StepBack,
+  StepForward,
+  FastForward,
+  RotateCcw,
+  X,
+  Loader2,
+  ArrowRight,
+  CheckCircle2,
+  XCircle,
+  ArrowRightCircle,
+  Eye
+} from 'lucide-react';
+
+interface TraceDebuggerProps {
+  session: DebugSession;
+  onChange: (session: DebugSession) => void;
+  onRestart: () => void;
+  onClose: () => void;
+}
+
+const CHANGE_STYLES: Record<ContextChange['kind'], string> = {
+  added: 'text-emerald-300',
+  removed: 'text-red-300',
+  changed: 'text-amber-300'
+};
+
+const TOOL_BUTTON = 'flex items-center gap-1.5 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30 disabled:cursor-not-allowed';
+
+const format = (value: unknown) => value === undefined ? 'undefined' : JSON.stringify(value, null, 2);
+
+const inline = (value: unknown) => {
+  const text = value === undefined ? 'undefined' : JSON.stringify(value);
+  return text.length > 60 ? `${text.substring(0, 60)}…` : text;
+};
+
+/**
+ * Steps through a local-engine run one step at a time. Every executed step keeps the data
+ * context it received and produced, so moving back is free; editing an input rewinds the run
+ * to that step and resumes from the edited data.
+ */
+export const TraceDebugger: React.FC<TraceDebuggerProps> = ({ session, onChange, onRestart, onClose }) => {
+  const [cursor, setCursor] = useState(session.frames.length);
+  const [breakpoints, setBreakpoints] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [inputText, setInputText] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [watch, setWatch] = useState('');
+
+  const { automation, frames } = session;
+  const frame = frames[cursor];
+  const finished = isFinished(session);
+  const input = frame ? frame.before : session.state.data;
+  const pausedStep = frame ? automation.steps.find(step => step.id === frame.stepId) : automation.steps[session.state.index];
+
+  // A restarted or rewound session may have fewer frames than the cursor points past
+  useEffect(() => {
+    setCursor(prev => Math.min(prev, session.frames.length));
+  }, [session]);
+
+  useEffect(() => {
+    setInputText(format(input));
+    setInputError(null);
+  }, [cursor, session]);
+
+  const advance = async (run: (current: DebugSession) => Promise<DebugSession>) => {
+    setBusy(true);
+    try {
+      const next = await run(session);
+      onChange(next);
+      setCursor(next.frames.length);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleForward = () => {
+    if (cursor < frames.length) setCursor(cursor + 1);
+    else advance(stepDebugSession);
+  };
+
+  const handleApplyInput = () => {
+    let data: Json;
+    try {
+      data = JSON.parse(inputText);
+    } catch (e: any) {
+      setInputError(`Not valid JSON: ${e.message}`);
+      return;
+    }
+    onChange(rewindDebugSession(session, cursor, data));
+  };
+
+  const toggleBreakpoint = (stepId: number) =>
+    setBreakpoints(prev => {
+      const next = new Set(prev);
+      if (next.has(stepId)) next.delete(stepId);
+      else next.add(stepId);
+      return next;
+    });
+
+  const changes = frame ? diffContexts(frame.before, frame.after) : [];
+  const watched = watch.trim() ? watchPath(session, watch.trim()) : [];
+  // The first point where the watched field is gone after having been present
+  const lostAt = watched.findIndex((entry, idx) => idx > 0 && entry.value === undefined && watched[idx - 1].value !== undefined);
+  const edited = inputText !== format(input);
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center gap-2 flex-wrap">
+        <button onClick={onRestart} disabled={busy} title="Restart with the current mock payload" className={`${TOOL_BUTTON} bg-gray-50 text-gray-600 hover:bg-gray-100`}>
+          <RotateCcw size={12} /> Restart
+        </button>
+        <button onClick={() => setCursor(cursor - 1)} disabled={busy || cursor === 0} className={`${TOOL_BUTTON} bg-gray-50 text-gray-600 hover:bg-gray-100`}>
+          <StepBack size={12} /> Back
+        </button>
+        <button onClick={handleForward} disabled={busy || (cursor === frames.length && finished)} className={`${TOOL_BUTTON} bg-indigo-50 text-indigo-600 hover:bg-indigo-100`}>
+          <StepForward size={12} /> Step
+        </button>
+        <button
+          onClick={() => advance(current => continueDebugSession(current, breakpoints))}
+          disabled={busy || finished}
+          title="Run to the next breakpoint"
+          className={`${TOOL_BUTTON} bg-indigo-600 text-white hover:bg-indigo-700`}
+        >
+          {busy ? <Loader2 size={12} className="animate-spin" /> : <FastForward size={12} />} Continue
+        </button>
+        <button onClick={onClose} title="Close debugger" className="ml-auto p-2 rounded-xl text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-5">
+        <div className="lg:col-span-4 space-y-1">
+          {automation.steps.map(step => {
+            const frameIndex = frames.findIndex(f => f.stepId === step.id);
+            const executed = frameIndex !== -1 ? frames[frameIndex] : undefined;
+            const current = frame ? frame.stepId === step.id : !finished && automation.steps[session.state.index]?.id === step.id;
+            return (
+              <div
+                key={step.id}
+                className={`flex items-center gap-2 px-2 py-1.5 rounded-xl transition-all ${current ? 'bg-indigo-50 border border-indigo-100' : 'border border-transparent hover:bg-gray-50'}`}
+              >
+                <button
+                  onClick={() => toggleBreakpoint(step.id)}
+                  title={breakpoints.has(step.id) ? 'Remove breakpoint' : 'Pause before this step'}
+                  className="w-3 h-3 rounded-full shrink-0 flex items-center justify-center"
+                >
+                  <span className={`w-2.5 h-2.5 rounded-full ${breakpoints.has(step.id) ? 'bg-red-500' : 'bg-gray-200 hover:bg-red-200'}`} />
+                </button>
+                {current ? <ArrowRight size={12} className="text-indigo-500 shrink-0" />
+                  : executed?.result.status === 'success' ? <CheckCircle2 size={12} className="text-green-500 shrink-0" />
+                  : executed?.result.status === 'failure' ? <XCircle size={12} className="text-red-500 shrink-0" />
+                  : executed ? <ArrowRightCircle size={12} className="text-gray-400 shrink-0" />
+                  : <span className="w-3 shrink-0" />}
+                <button
+                  onClick={() => executed && setCursor(frameIndex)}
+                  disabled={!executed}
+                  className="flex-1 text-left text-[11px] font-bold text-gray-700 truncate disabled:text-gray-400"
+                >
+                  {step.id}. {step.title}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="lg:col-span-8 space-y-4">
+          <div>
+            <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">
+              {frame ? `Step ${cursor + 1} of ${frames.length} executed` : finished ? 'Run finished' : 'Paused before'}
+            </p>
+            <h4 className="font-bold text-gray-900 text-sm">
+              {pausedStep ? `${pausedStep.id}. ${pausedStep.title}` : 'Final data context'}
+            </h4>
+            {frame && (
+              <p className={`text-[11px] font-medium leading-relaxed mt-1 ${frame.result.status === 'failure' ? 'text-red-600' : 'text-gray-600'}`}>
+                <span className="font-black uppercase text-[9px] mr-1">{frame.result.status}</span>
+                {frame.result.reasoning}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">
+              {frame || finished ? 'Input context' : 'Next step input'}
+            </label>
+            <textarea
+              value={inputText}
+              onChange={(e) => setInputText(e.target.value)}
+              readOnly={finished && !frame}
+              spellCheck={false}
+              className="w-full h-40 bg-[#0f1117] text-green-400 font-mono text-[10px] p-4 rounded-2xl border border-gray-800 focus:border-indigo-500/50 outline-none custom-scrollbar"
+            />
+            {inputError && <p className="text-[11px] font-medium text-red-600">{inputError}</p>}
+            {edited && (
+              <button onClick={handleApplyInput} className={`${TOOL_BUTTON} bg-amber-50 text-amber-700 hover:bg-amber-100`}>
+                <RotateCcw size={12} /> {frame ? 'Apply and resume from this step' : 'Apply edit'}
+              </button>
+            )}
+          </div>
+
+          {frame && (
+            <>
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Output context</label>
+                <pre className="w-full max-h-40 overflow-auto bg-[#0f1117] text-green-400/80 font-mono text-[10px] p-4 rounded-2xl border border-gray-800 custom-scrollbar">
+                  {format(frame.after)}
+                </pre>
+              </div>
+
+              <div className="bg-gray-900 p-3 rounded-xl border border-white/5 space-y-1">
+                <div className="text-[8px] font-black text-white/30 uppercase tracking-widest">Changes</div>
+                {changes.length === 0 ? (
+                  <p className="text-[10px] text-white/30 font-mono">Data context unchanged.</p>
+                ) : changes.map(change => (
+                  <p key={`${change.kind}-${change.path}`} className={`text-[10px] font-mono break-words ${CHANGE_STYLES[change.kind]}`}>
+                    {change.kind === 'added' ? '+' : change.kind === 'removed' ? '−' : '~'} {change.path}
+                    {change.kind === 'changed' ? `: ${inline(change.before)} → ${inline(change.after)}` : `: ${inline(change.kind === 'added' ? change.after : change.before)}`}
+                  </p>
+                ))}
+              </div>
+
+              {frame.result.output && frame.result.engine !== 'local' && (
+                <div className="bg-gray-900 p-3 rounded-xl border border-white/5">
+                  <div className="text-[8px] font-black text-white/30 uppercase tracking-widest mb-1">Step Output</div>
+                  <pre className="text-[10px] text-green-400/80 font-mono overflow-x-auto whitespace-pre-wrap">{frame.result.output}</pre>
+                </div>
+              )}
+              {frame.result.execution && <SnippetExecutionPanel execution={frame.result.execution} />}
+            </>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
+              <Eye size={12} className="text-indigo-400" /> Watch field
+            </label>
+            <input
+              value={watch}
+              onChange={(e) => setWatch(e.target.value)}
+              placeholder="e.g. customer.email or $trigger.amount"
+              className="w-full bg-gray-50 border border-gray-100 rounded-xl px-3 py-2 text-[11px] font-mono text-gray-700 focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all"
+            />
+            {watched.length > 0 && (
+              <div className="space-y-0.5">
+                {watched.map((entry, idx) => (
+                  <button
+                    key={idx}
+                    onClick={() => setCursor(idx)}
+                    className={`w-full flex items-center gap-2 px-2 py-1 rounded-lg text-left text-[10px] font-mono ${
+                      idx === lostAt ? 'bg-red-50 text-red-700' : idx === cursor ? 'bg-indigo-50 text-indigo-700' : 'text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="w-24 shrink-0 text-gray-400">{entry.stepId === null ? 'after run' : `into step ${entry.stepId}`}</span>
+                    <span className={`truncate ${entry.value === undefined ? 'text-red-500' : ''}`}>{inline(entry.value)}</span>
+                    {idx === lostAt && <span className="ml-auto shrink-0 font-black uppercase text-[8px]">dropped by step {watched[idx - 1].stepId}</span>}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
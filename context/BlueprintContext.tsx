@@ -0,0 +1,54 @@
+
+import React, { createContext, useContext, useState, useCallback } from 'react';
+import { AutomationResult, BlueprintEntry } from '../types';
+
+interface BlueprintContextValue {
+  blueprints: BlueprintEntry[];
+  activeBlueprint: BlueprintEntry | null;
+  addBlueprint: (description: string, result: AutomationResult, libraryId?: string) => BlueprintEntry;
+  updateBlueprint: (id: string, changes: Partial<Pick<BlueprintEntry, 'result' | 'libraryId' | 'description'>>) => void;
+  selectBlueprint: (id: string | null) => void;
+}
+
+const BlueprintContext = createContext<BlueprintContextValue | null>(null);
+
+// Session-scoped registry of generated blueprints shared between the Generator and the Sandbox
+export const BlueprintProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [blueprints, setBlueprints] = useState<BlueprintEntry[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const addBlueprint = useCallback((description: string, result: AutomationResult, libraryId?: string) => {
+    const now = Date.now();
+    const entry: BlueprintEntry = {
+      id: `bp-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      libraryId,
+      description,
+      result,
+      createdAt: now,
+      updatedAt: now
+    };
+    setBlueprints(prev => [entry, ...prev]);
+    setActiveId(entry.id);
+    return entry;
+  }, []);
+
+  const updateBlueprint = useCallback((id: string, changes: Partial<Pick<BlueprintEntry, 'result' | 'libraryId' | 'description'>>) => {
+    setBlueprints(prev => prev.map(bp => bp.id === id ? { ...bp, ...changes, updatedAt: Date.now() } : bp));
+  }, []);
+
+  const activeBlueprint = blueprints.find(bp => bp.id === activeId) || null;
+
+  return (
+    <BlueprintContext.Provider value={{ blueprints, activeBlueprint, addBlueprint, updateBlueprint, selectBlueprint: setActiveId }}>
+      {children}
+    </BlueprintContext.Provider>
+  );
+};
+
+export const useBlueprints = (): BlueprintContextValue => {
+  const ctx = useContext(BlueprintContext);
+  if (!ctx) {
+    throw new Error("useBlueprints must be used within a BlueprintProvider.");
+  }
+  return ctx;
+};
@@ -0,0 +1,52 @@
+
+import { useState, useCallback } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+const MAX_UNDO_DEPTH = 100;
+
+export const useHistory = <T,>(initial: T) => {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((next: T) => {
+    setHistory(prev => ({
+      past: [...prev.past, prev.present].slice(-MAX_UNDO_DEPTH),
+      present: next,
+      future: []
+    }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => prev.past.length === 0 ? prev : {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present, ...prev.future]
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => prev.future.length === 0 ? prev : {
+      past: [...prev.past, prev.present],
+      present: prev.future[0],
+      future: prev.future.slice(1)
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
@@ -0,0 +1,13 @@
+
+import { useEffect, useState } from 'react';
+import { WriteStatus } from '../services/localDb';
+
+// The current failure of a background write, updating while the component is mounted
+export const useWriteFailure = (status: WriteStatus) => {
+  const [failure, setFailure] = useState<string | null>(status.failure);
+  useEffect(() => {
+    setFailure(status.failure());
+    return status.subscribe(setFailure);
+  }, [status]);
+  return failure;
+};
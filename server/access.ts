@@ -0,0 +1,73 @@
+
+import type { IncomingMessage } from "http";
+import { createHash, timingSafeEqual } from "crypto";
+import { PROXY_TOKEN_PARAM } from "../services/providers/proxyProtocol";
+
+// Port of the Vite dev server, whose pages reach the proxy through its /api forwarding
+const DEV_SERVER_PORT = 3000;
+
+export interface AccessDenial {
+  status: number;
+  error: string;
+}
+
+/**
+ * Decides whether a proxy call or live relay upgrade may go ahead; null means it may.
+ * Returns the status and reason to refuse it with otherwise.
+ */
+export type AccessPolicy = (req: IncomingMessage) => AccessDenial | null;
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+// Hashing first gives both sides the same length, which timingSafeEqual requires
+const sameToken = (given: string, expected: string) => timingSafeEqual(digest(given), digest(expected));
+
+// The dev server forwards /api over its own loopback connection and names the real client in
+// X-Forwarded-For, so every hop has to be local, not just the socket
+const clientAddresses = (req: IncomingMessage) => [
+  req.socket.remoteAddress || '',
+  ...String(req.headers['x-forwarded-for'] || '').split(',').map(address => address.trim()).filter(Boolean)
+];
+
+const isLoopback = (address: string) => /^(127\.|::1$|::ffff:127\.)/.test(address);
+
+const requestToken = (req: IncomingMessage): string | null => {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length).trim();
+  // Browsers cannot set headers on a WebSocket, so the live relay takes the token from its URL
+  return new URL(req.url || '/', 'http://localhost').searchParams.get(PROXY_TOKEN_PARAM);
+};
+
+/**
+ * Origins default to the proxy itself and the dev server on localhost; a deployment lists
+ * its own in PROXY_ALLOWED_ORIGINS. Requests without an Origin header come from outside a
+ * browser, so they cannot be cross-site and only need the token, when PROXY_ACCESS_TOKEN is set.
+ * Without a token only clients on this machine are served.
+ */
+export const createAccessPolicy = (port: number): AccessPolicy => {
+  const configured = (process.env.PROXY_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+  const origins = new Set(configured.length
+    ? configured
+    : [port, DEV_SERVER_PORT].flatMap(p => [`http://localhost:${p}`, `http://127.0.0.1:${p}`]));
+  const token = process.env.PROXY_ACCESS_TOKEN || '';
+
+  return (req) => {
+    const origin = req.headers.origin;
+    if (origin !== undefined && !origins.has(origin)) {
+      return { status: 403, error: `Origin ${origin} is not allowed. Add it to PROXY_ALLOWED_ORIGINS.` };
+    }
+    if (!token && !clientAddresses(req).every(isLoopback)) {
+      return { status: 403, error: "The proxy only serves this machine. Set PROXY_ACCESS_TOKEN to let other clients in." };
+    }
+    if (token) {
+      const given = requestToken(req);
+      if (!given || !sameToken(given, token)) {
+        return { status: 401, error: "Missing or wrong proxy access token. Enter it under Settings → AI Provider." };
+      }
+    }
+    return null;
+  };
+};
@@ -0,0 +1,198 @@
+
+import { GoogleGenAI, Modality, GenerateContentResponse, Content } from "@google/genai";
+import { GroundingSource, TokenUsage } from "../types";
+import { AiProvider, JsonRequest, JsonResult, ProviderFailure, ProviderMessage } from "../services/providers/provider";
+import { GEMINI_MODELS } from "../services/providers/geminiModels";
+
+const getAiClient = () => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new ProviderFailure('configuration', "API Configuration Error: GEMINI_API_KEY is not set on the proxy server.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const toContents = (messages: ProviderMessage[]): Content[] =>
+  messages.map(msg => ({ role: msg.role, parts: [{ text: msg.text }] }));
+
+const extractSources = (response: GenerateContentResponse): GroundingSource[] =>
+  response.candidates?.[0]?.groundingMetadata?.groundingChunks
+    ?.filter(chunk => chunk.web)
+    .map(chunk => ({
+      title: chunk.web?.title || "Reference Source",
+      uri: chunk.web?.uri || ""
+    })) || [];
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// A blocked prompt or answer otherwise surfaces as an empty response with no explanation
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new ProviderFailure('blocked', `The request was blocked by Gemini's safety filters (${blockReason}).`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw new ProviderFailure('blocked', `The response was stopped by Gemini's safety filters (${finishReason}).`);
+  }
+};
+
+// Gemini repeats cumulative usage on streamed chunks, so the last one seen is the total
+const toTokenUsage = (response: GenerateContentResponse | null): TokenUsage | null => {
+  const metadata = response?.usageMetadata;
+  if (!metadata) return null;
+  const inputTokens = metadata.promptTokenCount || 0;
+  const outputTokens = metadata.candidatesTokenCount || 0;
+  const thinkingTokens = metadata.thoughtsTokenCount || 0;
+  return {
+    inputTokens,
+    outputTokens,
+    thinkingTokens,
+    totalTokens: metadata.totalTokenCount || inputTokens + outputTokens + thinkingTokens
+  };
+};
+
+const streamText = async (
+  stream: AsyncGenerator<GenerateContentResponse>,
+  onText?: (text: string) => void,
+  onUsage?: (usage: TokenUsage) => void
+) => {
+  let text = '';
+  let metered: GenerateContentResponse | null = null;
+  for await (const chunk of stream) {
+    if (chunk.usageMetadata) metered = chunk;
+    assertNotBlocked(chunk);
+    if (!chunk.text) continue;
+    text += chunk.text;
+    onText?.(text);
+  }
+  const usage = toTokenUsage(metered);
+  if (usage) onUsage?.(usage);
+  return text;
+};
+
+/**
+ * The Gemini SDK calls behind the proxy. Runs only on the server, where the API key lives.
+ */
+export const geminiSdk: AiProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  capabilities: { search: true, thinking: true, speech: true, live: true },
+
+  modelFor: (role) => GEMINI_MODELS[role],
+
+  generateText: async ({ role, systemInstruction, messages, signal, onText, onUsage }) => {
+    const ai = getAiClient();
+    const stream = await ai.models.generateContentStream({
+      model: GEMINI_MODELS[role],
+      contents: toContents(messages),
+      config: { systemInstruction, abortSignal: signal }
+    });
+    return streamText(stream, onText, onUsage);
+  },
+
+  generateJson: async <T>(request: JsonRequest): Promise<JsonResult<T>> => {
+    const { role, systemInstruction, messages, schema, thinkingBudget, search, signal, onText, onThought, onGrounding, onUsage } = request;
+    const ai = getAiClient();
+    const stream = await ai.models.generateContentStream({
+      model: GEMINI_MODELS[role],
+      contents: toContents(messages),
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseJsonSchema: schema,
+        thinkingConfig: thinkingBudget ? { thinkingBudget, includeThoughts: !!onThought } : undefined,
+        tools: search ? [{ googleSearch: {} }] : undefined,
+        abortSignal: signal
+      }
+    });
+
+    let text = '';
+    let grounded: GenerateContentResponse | null = null;
+    let metered: GenerateContentResponse | null = null;
+    for await (const chunk of stream) {
+      if (chunk.usageMetadata) metered = chunk;
+      assertNotBlocked(chunk);
+      const parts = chunk.candidates?.[0]?.content?.parts || [];
+      const thought = parts.filter(part => part.thought && part.text).map(part => part.text).join('');
+      if (thought) onThought?.(thought);
+      if (chunk.candidates?.[0]?.groundingMetadata) {
+        grounded = chunk;
+        onGrounding?.();
+      }
+      if (chunk.text) {
+        text += chunk.text;
+        onText?.(text);
+      }
+    }
+
+    const usage = toTokenUsage(metered);
+    if (usage) onUsage?.(usage);
+
+    if (!text) throw new ProviderFailure('empty_response', "The AI returned an empty response.");
+    return { data: JSON.parse(text.trim()) as T, sources: grounded ? extractSources(grounded) : [] };
+  },
+
+  analyzeImage: async ({ prompt, image, signal, onText, onUsage }) => {
+    const ai = getAiClient();
+    const stream = await ai.models.generateContentStream({
+      model: GEMINI_MODELS.vision,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: image.mimeType, data: image.data } },
+          { text: prompt }
+        ]
+      },
+      config: { abortSignal: signal }
+    });
+    return streamText(stream, onText, onUsage);
+  },
+
+  synthesizeSpeech: async ({ text, voice, onUsage }) => {
+    const ai = getAiClient();
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODELS.speech,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: voice },
+          },
+        },
+      },
+    });
+    const usage = toTokenUsage(response);
+    if (usage) onUsage?.(usage);
+    assertNotBlocked(response);
+    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  },
+
+  connectLive: async ({ systemInstruction, voice, callbacks }) => {
+    const ai = getAiClient();
+    const session = await ai.live.connect({
+      model: GEMINI_MODELS.live,
+      callbacks: {
+        onopen: callbacks.onopen,
+        onmessage: (message) => {
+          const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+          if (base64Audio) callbacks.onaudio(base64Audio);
+          if (message.serverContent?.interrupted) callbacks.oninterrupted();
+        },
+        onerror: callbacks.onerror,
+        onclose: callbacks.onclose
+      },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+        },
+        systemInstruction,
+      },
+    });
+    return {
+      sendAudio: (data, mimeType) => session.sendRealtimeInput({ media: { data, mimeType } }),
+      close: () => session.close()
+    };
+  }
+};
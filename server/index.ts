@@ -0,0 +1,101 @@
+
+import { createServer, ServerResponse } from "http";
+import { createReadStream, existsSync, statSync } from "fs";
+import path from "path";
+import { PROXY_BASE } from "../services/providers/proxyProtocol";
+import { SANDBOX_WORKER_CSP, SANDBOX_WORKER_FILE } from "../services/sandboxProtocol";
+import { handleProxyRequest, isProxyOperation, sendJson } from "./routes";
+import { attachLiveRelay } from "./liveRelay";
+import { createAccessPolicy } from "./access";
+
+// Same files Vite reads, so one .env.local configures both the app and the proxy
+['.env', '.env.local'].forEach(file => {
+  if (existsSync(file)) process.loadEnvFile(file);
+});
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+// Without an access token anyone who can reach the proxy can spend the API key, so it stays on loopback
+const HOST = process.env.PROXY_ACCESS_TOKEN ? undefined : '127.0.0.1';
+const DIST_DIR = path.resolve('dist');
+const authorize = createAccessPolicy(PORT);
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon'
+};
+
+// Serves the production build so a deployment is a single process; unknown paths fall back to the SPA shell
+const serveStatic = (pathname: string, res: ServerResponse) => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    sendJson(res, 400, { error: "Malformed URL." });
+    return;
+  }
+  let file = path.join(DIST_DIR, path.normalize(decoded));
+  if (!file.startsWith(DIST_DIR + path.sep)) {
+    sendJson(res, 403, { error: "Forbidden." });
+    return;
+  }
+  if (!existsSync(file) || statSync(file).isDirectory()) file = path.join(DIST_DIR, 'index.html');
+  if (!existsSync(file)) {
+    sendJson(res, 404, { error: "No production build found. Run `npm run build`, or use `npm run dev` during development." });
+    return;
+  }
+  const type = MIME_TYPES[path.extname(file)] || 'application/octet-stream';
+  res.writeHead(200, SANDBOX_WORKER_FILE.test(file)
+    ? { 'Content-Type': type, 'Content-Security-Policy': SANDBOX_WORKER_CSP }
+    : { 'Content-Type': type });
+  createReadStream(file).pipe(res);
+};
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+  if (pathname === '/api/health') {
+    sendJson(res, 200, { ok: true, configured: !!process.env.GEMINI_API_KEY });
+    return;
+  }
+
+  if (pathname.startsWith(`${PROXY_BASE}/`)) {
+    const operation = pathname.substring(PROXY_BASE.length + 1);
+    if (req.method !== 'POST' || !isProxyOperation(operation)) {
+      sendJson(res, 404, { error: `Unknown endpoint ${req.method} ${pathname}.` });
+      return;
+    }
+    const denial = authorize(req);
+    if (denial) {
+      sendJson(res, denial.status, { error: denial.error });
+      return;
+    }
+    // A cross-site form or no-cors fetch cannot send this type without a preflight
+    if (req.headers['content-type']?.split(';')[0].trim().toLowerCase() !== 'application/json') {
+      sendJson(res, 415, { error: "Proxy requests must be sent as application/json." });
+      return;
+    }
+    handleProxyRequest(req, res, operation);
+    return;
+  }
+
+  if (pathname.startsWith('/api/')) {
+    sendJson(res, 404, { error: `Unknown endpoint ${req.method} ${pathname}.` });
+    return;
+  }
+
+  serveStatic(pathname, res);
+});
+
+attachLiveRelay(server, authorize);
+
+server.listen(PORT, HOST, () => {
+  console.log(`Automation Architect proxy listening on http://localhost:${PORT}${HOST ? ' (this machine only)' : ''}`);
+  if (!process.env.GEMINI_API_KEY) {
+    console.warn("GEMINI_API_KEY is not set; Gemini requests will fail until it is added to .env.local.");
+  }
+});
@@ -0,0 +1,71 @@
+
+import { STATUS_CODES, type Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { LiveSession } from "../services/providers/provider";
+import { LIVE_PATH, LiveClientMessage, LiveServerMessage } from "../services/providers/proxyProtocol";
+import { geminiSdk } from "./geminiSdk";
+import { AccessPolicy } from "./access";
+
+const relay = (client: WebSocket) => {
+  let sessionPromise: Promise<LiveSession> | null = null;
+
+  const send = (message: LiveServerMessage) => {
+    if (client.readyState === WebSocket.OPEN) client.send(JSON.stringify(message));
+  };
+
+  client.on('message', (raw: Buffer) => {
+    let message: LiveClientMessage;
+    try {
+      message = JSON.parse(raw.toString('utf8'));
+    } catch {
+      return;
+    }
+
+    if (message.type === 'setup' && !sessionPromise) {
+      sessionPromise = geminiSdk.connectLive({
+        systemInstruction: String(message.systemInstruction || ''),
+        voice: String(message.voice || ''),
+        callbacks: {
+          onopen: () => send({ type: 'open' }),
+          onaudio: (data) => send({ type: 'audio', data }),
+          oninterrupted: () => send({ type: 'interrupted' }),
+          onerror: (e) => send({ type: 'error', message: e?.message || "Live session error." }),
+          onclose: () => client.close()
+        }
+      });
+      sessionPromise.catch((err: any) => {
+        send({ type: 'error', message: err.message || "Could not open a live session." });
+        client.close(1011);
+      });
+    } else if (message.type === 'audio') {
+      // Audio captured while the upstream session is still connecting waits for it
+      sessionPromise?.then(session => session.sendAudio(message.data, message.mimeType)).catch(() => {});
+    }
+  });
+
+  client.on('close', () => {
+    sessionPromise?.then(session => session.close()).catch(() => {});
+  });
+};
+
+/**
+ * Relays Live Architect audio between the browser and Gemini's live API, so the key never
+ * leaves the server. The first client message configures the session. Upgrades go through
+ * the same access policy as the HTTP endpoints.
+ */
+export const attachLiveRelay = (server: Server, authorize: AccessPolicy) => {
+  const wss = new WebSocketServer({ noServer: true });
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== LIVE_PATH) {
+      socket.destroy();
+      return;
+    }
+    const denial = authorize(req);
+    if (denial) {
+      socket.end(`HTTP/1.1 ${denial.status} ${STATUS_CODES[denial.status]}\r\nConnection: close\r\n\r\n`);
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, relay);
+  });
+};
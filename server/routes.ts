@@ -0,0 +1,158 @@
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { ModelRole } from "../types";
+import { ProviderFailure, ProviderHttpError } from "../services/providers/provider";
+import { GEMINI_MODELS } from "../services/providers/geminiModels";
+import { ProxyEvent, ProxyOperation } from "../services/providers/proxyProtocol";
+import { geminiSdk } from "./geminiSdk";
+
+// Vision uploads are capped at 10MB in the browser; base64 adds about a third
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+type Send = (event: ProxyEvent) => void;
+type Handler = (body: any, signal: AbortSignal, send: Send) => Promise<unknown>;
+
+export const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+const readJson = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      if (size > MAX_BODY_BYTES) return;
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop collecting but leave the socket open; the caller answers 413 and closes the connection
+        chunks.length = 0;
+        reject(new ProviderHttpError("Request body is too large.", 413));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new ProviderHttpError("Request body is not valid JSON.", 400));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// The client picks a role, never a model, so the proxy cannot be pointed at arbitrary models
+const requireRole = (body: any): ModelRole => {
+  if (typeof body?.role !== 'string' || !Object.hasOwn(GEMINI_MODELS, body.role)) {
+    throw new ProviderHttpError(`Unknown model role "${body?.role}".`, 400);
+  }
+  if (!Array.isArray(body.messages)) {
+    throw new ProviderHttpError("Request is missing its messages.", 400);
+  }
+  return body.role;
+};
+
+const handlers: Record<ProxyOperation, Handler> = {
+  text: (body, signal, send) => geminiSdk.generateText({
+    role: requireRole(body),
+    operation: body.operation,
+    systemInstruction: body.systemInstruction,
+    messages: body.messages,
+    signal,
+    onText: text => send({ type: 'text', text }),
+    onUsage: usage => send({ type: 'usage', usage })
+  }),
+
+  json: (body, signal, send) => geminiSdk.generateJson({
+    role: requireRole(body),
+    operation: body.operation,
+    systemInstruction: body.systemInstruction,
+    messages: body.messages,
+    schemaName: body.schemaName,
+    schema: body.schema,
+    thinkingBudget: body.thinkingBudget,
+    search: body.search,
+    signal,
+    onText: text => send({ type: 'text', text }),
+    onThought: body.thoughts ? text => send({ type: 'thought', text }) : undefined,
+    onGrounding: () => send({ type: 'grounding' }),
+    onUsage: usage => send({ type: 'usage', usage })
+  }),
+
+  vision: (body, signal, send) => {
+    if (!body?.image?.data || !body.image.mimeType) {
+      throw new ProviderHttpError("Request is missing its image.", 400);
+    }
+    return geminiSdk.analyzeImage({
+      prompt: String(body.prompt || ''),
+      image: { data: body.image.data, mimeType: body.image.mimeType },
+      signal,
+      onText: text => send({ type: 'text', text }),
+      onUsage: usage => send({ type: 'usage', usage })
+    });
+  },
+
+  speech: (body, signal, send) => geminiSdk.synthesizeSpeech({
+    text: String(body?.text || ''),
+    voice: String(body?.voice || ''),
+    onUsage: usage => send({ type: 'usage', usage })
+  })
+};
+
+export const isProxyOperation = (value: string): value is ProxyOperation => Object.hasOwn(handlers, value);
+
+// SDK errors carry the upstream HTTP status; keep it so the browser's retry policy still works
+const statusOf = (err: any): number => {
+  const status = Number(err?.status);
+  return status >= 400 && status < 600 ? status : 500;
+};
+
+// Gemini puts the requested back-off in a RetryInfo detail inside the error body, e.g. "retryDelay": "21s"
+const retryAfterOf = (err: any): number | undefined => {
+  if (err instanceof ProviderHttpError) return err.retryAfterMs;
+  const match = String(err?.message || '').match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+/**
+ * Runs one provider call and streams its progress back as newline-delimited JSON. Failures
+ * after the stream has started travel as an `error` event carrying the upstream status.
+ */
+export const handleProxyRequest = async (req: IncomingMessage, res: ServerResponse, operation: ProxyOperation) => {
+  let body: any;
+  try {
+    body = await readJson(req);
+  } catch (err: any) {
+    // The rest of an oversized body is not worth reading, so the connection ends with the response
+    if (statusOf(err) === 413) res.setHeader('Connection', 'close');
+    sendJson(res, statusOf(err), { error: err.message });
+    return;
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  const send: Send = (event) => {
+    if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  try {
+    const result = await handlers[operation](body, controller.signal, send);
+    send({ type: 'result', result });
+  } catch (err: any) {
+    if (controller.signal.aborted) return;
+    console.error(`[proxy] ${operation} failed:`, err.message);
+    send({
+      type: 'error',
+      message: err.message || "The Gemini request failed.",
+      status: statusOf(err),
+      kind: err instanceof ProviderFailure ? err.kind : undefined,
+      retryAfterMs: retryAfterOf(err)
+    });
+  }
+  res.end();
+};
@@ -0,0 +1,136 @@
+
+import { ApiError, ApiErrorCode, ApiErrorDetails } from "../types";
+import { ProviderFailure, ProviderFailureKind, ProviderHttpError } from "./providers/provider";
+
+const RETRYABLE_CODES: ApiErrorCode[] = ['rate_limited', 'server_error', 'timeout', 'network', 'invalid_response'];
+
+/**
+ * The typed failure every AI service function throws, so views can react to the cause
+ * (quota, safety block, bad JSON, missing key, network) instead of a bare message.
+ */
+export class AiServiceError extends Error implements ApiError {
+  code: ApiErrorCode;
+  details: ApiErrorDetails;
+
+  constructor(code: ApiErrorCode, message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = 'AiServiceError';
+    this.code = code;
+    this.details = details;
+  }
+
+  get retryable() {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+const FAILURE_CODES: Record<ProviderFailureKind, ApiErrorCode> = {
+  network: 'network',
+  blocked: 'safety_blocked',
+  configuration: 'configuration',
+  unsupported: 'unsupported',
+  empty_response: 'invalid_response'
+};
+
+const codeForStatus = (status: number, message: string, retryAfterMs?: number): ApiErrorCode => {
+  if (status === 429) {
+    // Gemini reports both per-minute throttling and exhausted plans as 429; only throttling says when to come back
+    return retryAfterMs === undefined && /quota|billing|plan/i.test(message) ? 'quota_exceeded' : 'rate_limited';
+  }
+  if (status === 401 || status === 403 || /api[ _]key/i.test(message)) return 'auth_failed';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server_error';
+  if (status >= 400) return 'bad_request';
+  return 'unknown';
+};
+
+/**
+ * Maps anything a provider, the proxy or the browser can throw onto the error taxonomy.
+ */
+export const classifyError = (error: any): AiServiceError => {
+  if (error instanceof AiServiceError) return error;
+  const message: string = error?.message || "An unexpected error occurred in the AI service.";
+
+  if (error?.name === 'AbortError') return new AiServiceError('cancelled', "Request cancelled.");
+  if (error instanceof ProviderFailure) return new AiServiceError(FAILURE_CODES[error.kind], message);
+  if (error instanceof ProviderHttpError) {
+    return new AiServiceError(codeForStatus(error.status, message, error.retryAfterMs), message, {
+      status: error.status,
+      retryAfterMs: error.retryAfterMs
+    });
+  }
+  // JSON.parse on a truncated or malformed model answer
+  if (error instanceof SyntaxError) {
+    return new AiServiceError('invalid_response', `The AI returned malformed JSON: ${message}`);
+  }
+  // fetch rejects with a TypeError when the network or CORS fails
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return new AiServiceError('network', message);
+  }
+  const status = Number(error?.status || error?.code);
+  if (status >= 400 && status < 600) return new AiServiceError(codeForStatus(status, message), message, { status });
+  return new AiServiceError('unknown', message);
+};
+
+/**
+ * Turns a caught error into the plain `ApiError` views keep in state. Errors that did not
+ * come from the AI layer (bad user input, storage) keep their message under `fallbackCode`.
+ */
+export const toApiError = (error: any, fallbackMessage: string, fallbackCode: ApiErrorCode = 'unknown'): ApiError => {
+  if (error instanceof AiServiceError) return { message: error.message, code: error.code, details: error.details };
+  return { message: error?.message || fallbackMessage, code: fallbackCode };
+};
+
+export type RecoveryAction = 'retry' | 'settings' | 'none';
+
+export interface ErrorDescription {
+  title: string;
+  hint: string;
+  action: RecoveryAction;
+}
+
+const seconds = (ms: number) => Math.max(1, Math.ceil(ms / 1000));
+
+/**
+ * What to tell the user for each failure, and the one action most likely to recover.
+ */
+export const describeError = (error: ApiError): ErrorDescription => {
+  switch (error.code) {
+    case 'rate_limited':
+      return {
+        title: 'Rate Limited',
+        hint: error.details?.retryAfterMs
+          ? `The provider asked us to wait ${seconds(error.details.retryAfterMs)}s before trying again.`
+          : 'Too many requests in a short time. Wait a moment, then try again.',
+        action: 'retry'
+      };
+    case 'quota_exceeded':
+      return { title: 'Quota Exhausted', hint: 'Your plan has no quota left. Check billing, or switch to another provider in Settings.', action: 'settings' };
+    case 'safety_blocked':
+      return { title: 'Blocked by Safety Filters', hint: 'Rephrase the request without the flagged content and try again.', action: 'none' };
+    case 'invalid_response':
+      return { title: 'Unreadable AI Response', hint: 'The model answered in an unexpected format. Trying again usually fixes this.', action: 'retry' };
+    case 'schema_mismatch':
+      return { title: 'AI Response Failed Validation', hint: 'The model could not fix the problems below on its own. Try again, or reword the request.', action: 'retry' };
+    case 'configuration':
+      return { title: 'AI Provider Not Configured', hint: 'Set GEMINI_API_KEY in .env.local and restart the proxy, or choose another provider in Settings.', action: 'settings' };
+    case 'auth_failed':
+      return { title: 'API Key Rejected', hint: 'The provider refused the credentials. Check the key, or pick another provider in Settings.', action: 'settings' };
+    case 'unsupported':
+      return { title: 'Not Available With This Provider', hint: 'Switch to a provider that supports this feature in Settings.', action: 'settings' };
+    case 'network':
+      return { title: 'Connection Failed', hint: 'Check that the proxy (`npm run server`) or model server is running and that you are online.', action: 'retry' };
+    case 'timeout':
+      return { title: 'Request Timed Out', hint: 'The provider took too long to answer. Try again, or shorten the input.', action: 'retry' };
+    case 'server_error':
+      return { title: 'AI Service Error', hint: 'The provider had a temporary problem. Try again in a moment.', action: 'retry' };
+    case 'bad_request':
+      return { title: 'Request Rejected', hint: 'The provider refused the request as invalid. Simplify or shorten the input.', action: 'none' };
+    case 'invalid_input':
+      return { title: 'Invalid Input', hint: 'Fix the input and run it again.', action: 'none' };
+    case 'cancelled':
+      return { title: 'Cancelled', hint: 'The request was stopped before it finished.', action: 'none' };
+    default:
+      return { title: 'Something Went Wrong', hint: 'An unexpected error occurred. Try again.', action: 'retry' };
+  }
+};
@@ -0,0 +1,131 @@
+
+import { AutomationResult, AutomationStep, BlueprintDiff, SnippetDiffLine, StepDiff } from "../types";
+import { removeStep } from "./blueprintEditing";
+
+const STEP_FIELDS: (keyof AutomationStep)[] = ['title', 'description', 'type', 'operation', 'next', 'branches', 'parallel', 'join', 'loop', 'onError'];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Longest-common-subsequence line diff; snippets are small enough that O(n*m) is fine
+const diffLines = (before: string, after: string): SnippetDiffLine[] => {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+  const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const lines: SnippetDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      lines.push({ kind: 'removed', text: a[i++] });
+    } else {
+      lines.push({ kind: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ kind: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ kind: 'added', text: b[j++] });
+  return lines;
+};
+
+/**
+ * Compares two blueprint revisions. Steps are matched by id, so a renamed step shows as
+ * "changed" while a step whose id disappears shows as "removed".
+ */
+export const diffBlueprints = (before: AutomationResult, after: AutomationResult): BlueprintDiff => {
+  const beforeById = new Map(before.steps.map(step => [step.id, step]));
+  const afterIds = new Set(after.steps.map(step => step.id));
+  const steps: StepDiff[] = [];
+
+  after.steps.forEach(step => {
+    const previous = beforeById.get(step.id);
+    if (!previous) {
+      steps.push({ kind: 'added', stepId: step.id, after: step, changedFields: [] });
+      return;
+    }
+    const changedFields = STEP_FIELDS.filter(field => !sameValue(previous[field], step[field]));
+    steps.push({
+      kind: changedFields.length > 0 ? 'changed' : 'unchanged',
+      stepId: step.id,
+      before: previous,
+      after: step,
+      changedFields
+    });
+  });
+
+  before.steps.forEach((step, idx) => {
+    if (afterIds.has(step.id)) return;
+    // Keep removed steps near their original position so the diff reads top to bottom
+    const insertAt = Math.min(idx, steps.length);
+    steps.splice(insertAt, 0, { kind: 'removed', stepId: step.id, before: step, changedFields: [] });
+  });
+
+  const snippet = diffLines(before.codeSnippet || '', after.codeSnippet || '');
+
+  return {
+    platformChanged: before.platform !== after.platform,
+    explanationChanged: before.explanation !== after.explanation,
+    snippetChanged: snippet.some(line => line.kind !== 'unchanged'),
+    steps,
+    snippet
+  };
+};
+
+/**
+ * Builds a blueprint from a proposed revision, keeping only the step changes whose ids are in
+ * `accepted`. Rejected additions are dropped along with any edges pointing at them, rejected
+ * edits fall back to the original step, and rejected removals are restored in place.
+ */
+export const applyDiffSelection = (
+  before: AutomationResult,
+  after: AutomationResult,
+  diff: BlueprintDiff,
+  accepted: Set<number>,
+  acceptSnippet: boolean
+): AutomationResult => {
+  let steps: AutomationStep[] = [];
+  const rejectedAdditions: number[] = [];
+
+  diff.steps.forEach(change => {
+    const keep = accepted.has(change.stepId);
+    if (change.kind === 'added') {
+      if (keep) steps.push(change.after!);
+      else rejectedAdditions.push(change.stepId);
+    } else if (change.kind === 'removed') {
+      if (!keep) steps.push(change.before!);
+    } else if (change.kind === 'changed') {
+      steps.push(keep ? change.after! : change.before!);
+    } else {
+      steps.push(change.after!);
+    }
+  });
+
+  rejectedAdditions.forEach(id => { steps = removeStep(steps, id); });
+
+  const takeSnippet = acceptSnippet && diff.snippetChanged;
+  const anyAccepted = takeSnippet || diff.steps.some(change => change.kind !== 'unchanged' && accepted.has(change.stepId));
+  return {
+    ...before,
+    platform: anyAccepted ? after.platform : before.platform,
+    explanation: anyAccepted ? after.explanation : before.explanation,
+    codeSnippet: takeSnippet ? after.codeSnippet : before.codeSnippet,
+    sources: after.sources,
+    // Either side's steps may be kept, so keep every connection either side declares
+    connections: before.connections || after.connections
+      ? [
+          ...(before.connections || []).filter(connection => !after.connections?.some(other => other.name === connection.name)),
+          ...(after.connections || [])
+        ]
+      : undefined,
+    steps
+  };
+};
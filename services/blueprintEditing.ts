@@ -0,0 +1,59 @@
+
+import { AutomationStep } from "../types";
+
+export const nextStepId = (steps: AutomationStep[]) =>
+  steps.reduce((max, step) => Math.max(max, step.id), 0) + 1;
+
+export const addStep = (steps: AutomationStep[], afterIndex: number, type: AutomationStep['type'] = 'action'): AutomationStep[] => {
+  const step: AutomationStep = { id: nextStepId(steps), title: 'New Step', description: '', type };
+  const copy = [...steps];
+  copy.splice(afterIndex + 1, 0, step);
+  return copy;
+};
+
+export const updateStep = (steps: AutomationStep[], id: number, changes: Partial<Omit<AutomationStep, 'id'>>): AutomationStep[] =>
+  steps.map(step => step.id === id ? { ...step, ...changes } : step);
+
+export const moveStep = (steps: AutomationStep[], from: number, to: number): AutomationStep[] => {
+  if (from === to || from < 0 || to < 0 || from >= steps.length || to >= steps.length) return steps;
+  const copy = [...steps];
+  const [moved] = copy.splice(from, 1);
+  copy.splice(to, 0, moved);
+  return copy;
+};
+
+/**
+ * Removes a step and scrubs every graph reference to it so no edge is left dangling.
+ */
+export const removeStep = (steps: AutomationStep[], id: number): AutomationStep[] =>
+  steps
+    .filter(step => step.id !== id)
+    .map(step => {
+      const cleaned: AutomationStep = { ...step };
+      if (cleaned.next) cleaned.next = cleaned.next.filter(to => to !== id);
+      if (cleaned.branches) cleaned.branches = cleaned.branches.map(branch => ({ ...branch, next: branch.next.filter(to => to !== id) }));
+      if (cleaned.loop) cleaned.loop = { ...cleaned.loop, body: cleaned.loop.body.filter(to => to !== id) };
+      if (cleaned.onError === id) delete cleaned.onError;
+      if (cleaned.operation) {
+        cleaned.operation = {
+          ...cleaned.operation,
+          skipWhenTrue: cleaned.operation.skipWhenTrue?.filter(to => to !== id),
+          skipWhenFalse: cleaned.operation.skipWhenFalse?.filter(to => to !== id)
+        };
+      }
+      return cleaned;
+    });
+
+/**
+ * Adds or removes an explicit `next` edge. The first toggle on a step that still relies on the
+ * implicit list-order successor materializes that successor so the existing path is kept.
+ */
+export const toggleConnection = (steps: AutomationStep[], fromId: number, toId: number): AutomationStep[] => {
+  const idx = steps.findIndex(step => step.id === fromId);
+  if (idx === -1 || fromId === toId) return steps;
+  const step = steps[idx];
+  const implicit = step.next === undefined && !step.branches?.length && idx < steps.length - 1 ? [steps[idx + 1].id] : [];
+  const current = step.next ?? implicit;
+  const next = current.includes(toId) ? current.filter(id => id !== toId) : [...current, toId];
+  return updateStep(steps, fromId, { next });
+};
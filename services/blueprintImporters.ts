@@ -0,0 +1,285 @@
+
+import { AutomationResult, AutomationStep, Platform, StepType } from "../types";
+import { validateStepGraph } from "./stepGraph";
+
+export type BlueprintFormat = 'blueprint' | 'n8n' | 'make' | 'zapier' | 'text';
+
+export interface ImportedBlueprint {
+  format: BlueprintFormat;
+  automation: AutomationResult;
+}
+
+const STEP_TYPES: StepType[] = ['trigger', 'action', 'logic'];
+
+const N8N_LOGIC_NODES = ['if', 'switch', 'filter', 'merge', 'splitinbatches', 'wait', 'noop', 'set', 'code', 'function', 'functionitem', 'itemlists', 'comparedatasets', 'datetime'];
+const N8N_IGNORED_NODES = ['stickynote'];
+const MAKE_LOGIC_MODULES = ['builtin:BasicRouter', 'builtin:BasicFeeder', 'builtin:BasicAggregator', 'builtin:BasicRepeater', 'util:SetVariable', 'util:SetVariables', 'util:GetVariable', 'util:TextAggregator', 'util:FunctionSleep', 'json:ParseJSON', 'json:CreateJSON'];
+const ZAPIER_LOGIC_APIS = ['FilterAPI', 'BranchingAPI', 'PathsAPI', 'FormatterAPI', 'DelayAPI', 'LoopingAPI', 'CodeAPI'];
+
+const humanize = (value: string) => value
+  .replace(/([a-z])([A-Z])/g, '$1 $2')
+  .replace(/[_\-.:]+/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim()
+  .replace(/^\w/, c => c.toUpperCase());
+
+// V8 reports most JSON syntax errors by character offset; translate that into line/column for the user
+const describeJsonError = (input: string, error: Error): string => {
+  const match = /position (\d+)/.exec(error.message);
+  if (!match) return `JSON syntax error: ${error.message}`;
+  const offset = Number(match[1]);
+  const before = input.slice(0, offset).split('\n');
+  const line = before.length;
+  const column = before[before.length - 1].length + 1;
+  const context = input.split('\n')[line - 1]?.trim() || '';
+  return `JSON syntax error at line ${line}, column ${column}${context ? `: "${context.substring(0, 60)}"` : ''}`;
+};
+
+const renumber = (steps: Omit<AutomationStep, 'id'>[]): AutomationStep[] =>
+  steps.map((step, idx) => ({ ...step, id: idx + 1 }));
+
+const parseNativeBlueprint = (doc: any): AutomationResult => {
+  const seenIds = new Set<number>();
+  const steps: AutomationStep[] = doc.steps.map((step: any, idx: number) => {
+    const where = `steps[${idx}]`;
+    if (!step || typeof step !== 'object') {
+      throw new Error(`${where} must be an object.`);
+    }
+    if (typeof step.title !== 'string' || !step.title.trim()) {
+      throw new Error(`${where} is missing a "title".`);
+    }
+    if (!STEP_TYPES.includes(step.type)) {
+      throw new Error(`${where} ("${step.title}") has unknown type "${step.type}". Expected one of: ${STEP_TYPES.join(', ')}.`);
+    }
+    const id = Number.isInteger(step.id) ? step.id : idx + 1;
+    if (seenIds.has(id)) {
+      throw new Error(`${where} ("${step.title}") reuses step id ${id}.`);
+    }
+    seenIds.add(id);
+    return { ...step, id, description: step.description || '' };
+  });
+
+  const graphIssues = validateStepGraph(steps).filter(issue => issue.message.includes('missing step'));
+  if (graphIssues.length > 0) {
+    throw new Error(`${graphIssues[0].path} ${graphIssues[0].message}.`);
+  }
+
+  return {
+    platform: doc.platform || 'zapier',
+    explanation: doc.explanation || '',
+    codeSnippet: doc.codeSnippet,
+    connections: Array.isArray(doc.connections) ? doc.connections : undefined,
+    steps
+  };
+};
+
+const classifyN8nNode = (type: string): StepType => {
+  const shortName = type.split('.').pop()!.toLowerCase();
+  if (shortName.endsWith('trigger') || shortName === 'webhook' || shortName === 'cron' || shortName === 'interval') {
+    return 'trigger';
+  }
+  return N8N_LOGIC_NODES.includes(shortName) ? 'logic' : 'action';
+};
+
+const parseN8nWorkflow = (doc: any): AutomationResult => {
+  const nodes: any[] = doc.nodes.filter((node: any) => {
+    const shortName = String(node?.type || '').split('.').pop()!.toLowerCase();
+    return !N8N_IGNORED_NODES.includes(shortName);
+  });
+
+  nodes.forEach((node, idx) => {
+    if (!node.name) throw new Error(`n8n nodes[${idx}] is missing a "name".`);
+    if (!node.type) throw new Error(`n8n node "${node.name}" is missing a "type".`);
+  });
+
+  const byName = new Map<string, any>(nodes.map(node => [node.name, node]));
+  const connections = doc.connections || {};
+  const incoming = new Set<string>();
+
+  Object.entries<any>(connections).forEach(([source, outputs]) => {
+    if (!byName.has(source)) {
+      throw new Error(`n8n connections reference unknown source node "${source}".`);
+    }
+    Object.values<any>(outputs || {}).forEach((branches: any[]) => {
+      (branches || []).forEach(branch => (branch || []).forEach((edge: any) => {
+        if (!byName.has(edge?.node)) {
+          throw new Error(`n8n connection from "${source}" points to unknown node "${edge?.node}".`);
+        }
+        incoming.add(edge.node);
+      }));
+    });
+  });
+
+  // Walk the graph breadth-first from the entry nodes so steps follow execution order
+  const ordered: any[] = [];
+  const visited = new Set<string>();
+  const queue = nodes.filter(node => !incoming.has(node.name));
+  if (queue.length === 0 && nodes.length > 0) queue.push(nodes[0]);
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (visited.has(node.name)) continue;
+    visited.add(node.name);
+    ordered.push(node);
+    Object.values<any>(connections[node.name] || {}).forEach((branches: any[]) => {
+      (branches || []).forEach(branch => (branch || []).forEach((edge: any) => queue.push(byName.get(edge.node))));
+    });
+  }
+  nodes.forEach(node => !visited.has(node.name) && ordered.push(node));
+
+  return {
+    platform: 'n8n',
+    explanation: doc.name ? `Imported from n8n workflow "${doc.name}".` : 'Imported from n8n workflow.',
+    steps: renumber(ordered.map(node => ({
+      title: node.name,
+      description: `${humanize(String(node.type).split('.').pop()!)} node${node.notes ? ` — ${node.notes}` : ''}`,
+      type: classifyN8nNode(String(node.type))
+    })))
+  };
+};
+
+const parseMakeScenario = (doc: any): AutomationResult => {
+  const flow = doc.flow;
+  const collected: Omit<AutomationStep, 'id'>[] = [];
+
+  const walk = (modules: any[], path: string) => {
+    if (!Array.isArray(modules)) {
+      throw new Error(`Make ${path} must be an array of modules.`);
+    }
+    modules.forEach((mod, idx) => {
+      const where = `${path}[${idx}]`;
+      if (!mod || typeof mod.module !== 'string') {
+        throw new Error(`Make ${where} is missing a "module" identifier.`);
+      }
+      const [app, action = ''] = mod.module.split(':');
+      const isFirst = collected.length === 0;
+      collected.push({
+        title: mod.metadata?.designer?.name || `${humanize(app)}: ${humanize(action)}`,
+        description: mod.filter?.name
+          ? `${mod.module} (filtered by "${mod.filter.name}")`
+          : mod.module,
+        type: isFirst ? 'trigger' : MAKE_LOGIC_MODULES.includes(mod.module) ? 'logic' : 'action'
+      });
+      (mod.routes || []).forEach((route: any, routeIdx: number) => walk(route?.flow, `${where}.routes[${routeIdx}].flow`));
+    });
+  };
+
+  walk(flow, 'flow');
+
+  return {
+    platform: 'make',
+    explanation: doc.name ? `Imported from Make scenario "${doc.name}".` : 'Imported from Make scenario.',
+    steps: renumber(collected)
+  };
+};
+
+const classifyZapierNode = (node: any, isRoot: boolean): StepType => {
+  if (isRoot || node.type_of === 'read') return 'trigger';
+  if (node.type_of === 'filter' || ZAPIER_LOGIC_APIS.includes(node.selected_api)) return 'logic';
+  return 'action';
+};
+
+const parseZapierExport = (doc: any): AutomationResult => {
+  const zap = doc.zaps[0];
+  if (!zap) throw new Error("Zapier export contains no zaps.");
+  if (!zap.nodes || typeof zap.nodes !== 'object') {
+    throw new Error(`Zapier zap "${zap.title || zap.id}" has no "nodes" map.`);
+  }
+
+  const nodes: any[] = Object.values(zap.nodes);
+  const children = new Map<string, any[]>();
+  nodes.forEach(node => {
+    const parent = node.parent_id == null ? 'root' : String(node.parent_id);
+    children.set(parent, [...(children.get(parent) || []), node]);
+  });
+
+  const ordered: any[] = [];
+  const walk = (parent: string) => (children.get(parent) || []).forEach(node => {
+    ordered.push(node);
+    walk(String(node.id));
+  });
+  walk('root');
+  if (ordered.length !== nodes.length) {
+    const orphan = nodes.find(node => !ordered.includes(node));
+    throw new Error(`Zapier node ${orphan?.id} has parent_id ${orphan?.parent_id}, which is not in the zap.`);
+  }
+
+  return {
+    platform: 'zapier',
+    explanation: zap.title ? `Imported from Zap "${zap.title}".` : 'Imported from Zapier export.',
+    steps: renumber(ordered.map((node, idx) => ({
+      title: node.title || `${humanize(String(node.selected_api || 'App').replace(/(CLI)?API$|V\d+API$/, ''))}: ${humanize(String(node.action || 'step'))}`,
+      description: `${node.selected_api || 'Unknown app'} → ${node.action || 'unknown action'}`,
+      type: classifyZapierNode(node, idx === 0)
+    })))
+  };
+};
+
+const LOGIC_HINTS = /^(if|else|otherwise|only|unless|filter|branch|route|switch|loop|for each|wait|delay|format|transform|map|check|compare)\b/i;
+
+const parseStepList = (input: string, platform: Platform): AutomationResult => {
+  const lines = input
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:step\s*\d+\s*[:.)-]|\d+\s*[.)]|[-*•])\s*/i, '').trim())
+    .filter(Boolean);
+
+  if (lines.length === 0) {
+    throw new Error("Logic Definition is empty.");
+  }
+
+  return {
+    platform,
+    explanation: 'Imported from a free-text step list.',
+    steps: renumber(lines.map((line, idx) => {
+      const split = /^(.{3,60}?)\s*(?::|\s-\s|\s—\s)\s*(.+)$/.exec(line);
+      const title = split ? split[1] : line.length > 60 ? `${line.substring(0, 57)}...` : line;
+      const description = split ? split[2] : line;
+      // The first line of a step list is always the entry point
+      const type: StepType = idx === 0 ? 'trigger' : LOGIC_HINTS.test(line) ? 'logic' : 'action';
+      return { title, description, type };
+    }))
+  };
+};
+
+/**
+ * Detects the format of pasted Logic Definition content and normalizes it into an AutomationResult.
+ * Throws an Error whose message names the offending field, node or line.
+ */
+export const importBlueprint = (input: string, fallbackPlatform: Platform = 'zapier'): ImportedBlueprint => {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    throw new Error("Logic Definition is empty. Paste a blueprint, an n8n/Make/Zapier export, or a step list.");
+  }
+
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return { format: 'text', automation: parseStepList(trimmed, fallbackPlatform) };
+  }
+
+  let doc: any;
+  try {
+    doc = JSON.parse(trimmed);
+  } catch (e: any) {
+    throw new Error(describeJsonError(trimmed, e));
+  }
+
+  // Make exports arrive either as the raw blueprint or wrapped in { blueprint: {...} }
+  const makeDoc = doc?.blueprint?.flow ? doc.blueprint : doc;
+
+  let result: ImportedBlueprint;
+  if (Array.isArray(doc?.steps)) {
+    result = { format: 'blueprint', automation: parseNativeBlueprint(doc) };
+  } else if (Array.isArray(doc?.nodes) && doc.connections !== undefined) {
+    result = { format: 'n8n', automation: parseN8nWorkflow(doc) };
+  } else if (makeDoc && makeDoc.flow !== undefined) {
+    result = { format: 'make', automation: parseMakeScenario(makeDoc) };
+  } else if (Array.isArray(doc?.zaps)) {
+    result = { format: 'zapier', automation: parseZapierExport(doc) };
+  } else {
+    throw new Error('Unrecognized JSON: expected an AutomationResult ("steps"), an n8n workflow ("nodes" + "connections"), a Make blueprint ("flow") or a Zapier export ("zaps").');
+  }
+
+  if (result.automation.steps.length === 0) {
+    throw new Error(`The ${result.format} import produced no steps.`);
+  }
+  return result;
+};
@@ -0,0 +1,72 @@
+
+import { AutomationResult, BlueprintVersion, SavedBlueprint } from "../types";
+import { openDb, promisify, transactionDone, BLUEPRINT_STORE, VERSION_STORE } from "./localDb";
+
+export interface SaveBlueprintInput {
+  id?: string;
+  name: string;
+  description: string;
+  tags: string[];
+  result: AutomationResult;
+}
+
+export const listBlueprints = async (): Promise<SavedBlueprint[]> => {
+  const db = await openDb();
+  const all = await promisify<SavedBlueprint[]>(db.transaction(BLUEPRINT_STORE).objectStore(BLUEPRINT_STORE).getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const listVersions = async (blueprintId: string): Promise<BlueprintVersion[]> => {
+  const db = await openDb();
+  const index = db.transaction(VERSION_STORE).objectStore(VERSION_STORE).index('blueprintId');
+  const versions = await promisify<BlueprintVersion[]>(index.getAll(blueprintId));
+  return versions.sort((a, b) => b.version - a.version);
+};
+
+/**
+ * Creates the library record on first save; every save (including the first) appends a new version.
+ */
+export const saveBlueprint = async (input: SaveBlueprintInput): Promise<SavedBlueprint> => {
+  const db = await openDb();
+  const tx = db.transaction([BLUEPRINT_STORE, VERSION_STORE], 'readwrite');
+  const blueprints = tx.objectStore(BLUEPRINT_STORE);
+  const now = Date.now();
+
+  const existing = input.id
+    ? await promisify<SavedBlueprint | undefined>(blueprints.get(input.id))
+    : undefined;
+
+  const record: SavedBlueprint = {
+    id: existing?.id || `lib-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    name: input.name.trim() || 'Untitled Blueprint',
+    platform: input.result.platform,
+    description: input.description,
+    tags: Array.from(new Set(input.tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    latestVersion: (existing?.latestVersion || 0) + 1
+  };
+
+  const version: BlueprintVersion = {
+    id: `${record.id}-v${record.latestVersion}`,
+    blueprintId: record.id,
+    version: record.latestVersion,
+    result: input.result,
+    createdAt: now
+  };
+
+  blueprints.put(record);
+  tx.objectStore(VERSION_STORE).put(version);
+  await transactionDone(tx);
+  return record;
+};
+
+export const deleteBlueprint = async (blueprintId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([BLUEPRINT_STORE, VERSION_STORE], 'readwrite');
+  tx.objectStore(BLUEPRINT_STORE).delete(blueprintId);
+  const versions = tx.objectStore(VERSION_STORE);
+  const keys = await promisify(versions.index('blueprintId').getAllKeys(blueprintId));
+  keys.forEach(key => versions.delete(key));
+  await transactionDone(tx);
+};
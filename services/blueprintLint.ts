@@ -0,0 +1,252 @@
+
+import { AutomationResult, AutomationStep, BlueprintFinding } from "../types";
+import { validateStepGraph } from "./stepGraph";
+
+const SEVERITY_ORDER: Record<BlueprintFinding['severity'], number> = { error: 0, warning: 1, info: 2 };
+
+// Services generated blueprints commonly call, matched in step titles and descriptions
+const KNOWN_SERVICES = [
+  'Slack', 'Gmail', 'Google Sheets', 'Google Drive', 'Google Calendar', 'Airtable', 'Shopify', 'Stripe',
+  'HubSpot', 'Salesforce', 'Notion', 'Trello', 'Asana', 'Jira', 'GitHub', 'GitLab', 'Twilio', 'SendGrid',
+  'Mailchimp', 'Discord', 'Microsoft Teams', 'Outlook', 'Dropbox', 'Typeform', 'Zendesk', 'Intercom',
+  'QuickBooks', 'Xero', 'PostgreSQL', 'MySQL', 'MongoDB', 'Supabase', 'Firebase', 'OpenAI', 'Pinecone',
+  'Telegram', 'WhatsApp', 'Calendly', 'Zoom', 'PayPal', 'WooCommerce', 'Monday.com', 'ClickUp', 'Pipedrive'
+];
+
+// Title prefixes that name a platform utility rather than an external service
+const BUILT_IN_PREFIXES = /^(trigger|filter|formatter|code|delay|paths?|router|iterator|aggregator|schedule|webhooks?|http|set|merge|if|switch|loop|wait|function|python|javascript|error handler|storage|digest|looping|utilities|llm|chain|agent|tool|prompt)\b/i;
+
+// Alternate spellings descriptions use for the same service
+const SERVICE_ALIASES: Record<string, string[]> = {
+  'Google Sheets': ['sheet', 'spreadsheet'],
+  'PostgreSQL': ['postgres'],
+  'Microsoft Teams': ['teams'],
+  'Gmail': ['email', 'e-mail'],
+  'OpenAI': ['gpt', 'chatgpt']
+};
+
+const SECRET_PATTERNS: { label: string; pattern: RegExp }[] = [
+  { label: 'Stripe secret key', pattern: /\b[sr]k_(?:live|test)_[0-9a-zA-Z]{10,}/ },
+  { label: 'Slack token', pattern: /\bxox[abprs]-[0-9A-Za-z-]{10,}/ },
+  { label: 'AWS access key', pattern: /\bAKIA[0-9A-Z]{16}\b/ },
+  { label: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{30,}/ },
+  { label: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { label: 'OpenAI key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/ },
+  { label: 'private key', pattern: /-----BEGIN (?:RSA |EC )?PRIVATE KEY-----/ }
+];
+
+// `apiKey = "…"`, `"Authorization": "Bearer …"` and similar with a long literal value
+const CREDENTIAL_ASSIGNMENT = /([\w$-]*(?:api[-_]?key|apikey|token|secret|password|passwd|authorization|bearer)[\w$-]*)['"]?\s*[:=]\s*(['"`])(?:Bearer\s+)?([^'"`\s]{16,})\2/gi;
+
+const PLACEHOLDER_VALUE = /^(?:<.*>|\{\{.*\}\}|\$\{.*\}|your[-_]?\w*|x{4,}|\*{4,}|changeme|replace[-_]?me|process\.env.*)$/i;
+
+const EXTERNAL_CALL = /\b(?:fetch|axios(?:\.(?:get|post|put|patch|delete|request))?|requests\.(?:get|post|put|patch|delete|request)|http\.request|urllib\.request\.urlopen|\$http\.(?:get|post|put|patch|delete)|this\.helpers\.httpRequest)\s*\(/;
+
+const HANDLES_ERRORS = /\btry\s*[{:]|\.catch\s*\(|\bexcept\b|raise_for_status|validateStatus/;
+
+const CONNECTION_CALL = /\bconnection\(\s*['"`]([^'"`]+)['"`]\s*\)/g;
+
+const mask = (secret: string) => `${secret.substring(0, 6)}…${secret.length > 10 ? secret.slice(-2) : ''}`;
+
+const lineOf = (code: string, index: number) => code.slice(0, index).split('\n').length;
+
+const stepServices = (step: AutomationStep): string[] => {
+  const text = `${step.title} ${step.description}`.toLowerCase();
+  const known = KNOWN_SERVICES.filter(service => text.includes(service.toLowerCase()));
+  const prefix = step.title.includes(':') ? step.title.split(':')[0].trim() : '';
+  const named = prefix && !BUILT_IN_PREFIXES.test(prefix) && !known.some(service => service.toLowerCase() === prefix.toLowerCase()) ? [prefix] : [];
+  return [...known, ...named];
+};
+
+const mentions = (description: string, service: string) => {
+  const text = description.toLowerCase();
+  // "Email by Zapier" and the like count as mentioned when the request names "email"
+  const name = service.replace(/\s+by\s+\S+$/i, '');
+  return [name, ...(SERVICE_ALIASES[service] || [])].some(alias => text.includes(alias.toLowerCase()));
+};
+
+const stepLabel = (step: AutomationStep) => `step ${step.id} "${step.title}"`;
+
+const lintStructure = (steps: AutomationStep[], findings: BlueprintFinding[]) => {
+  const triggers = steps.filter(step => step.type === 'trigger');
+  if (triggers.length === 0) {
+    findings.push({
+      rule: 'trigger_count',
+      severity: 'error',
+      message: 'The blueprint has no trigger step, so nothing starts it.',
+      fix: 'Add a trigger step at the start of the workflow that matches the event described in the request.'
+    });
+  } else if (triggers.length > 1) {
+    findings.push({
+      rule: 'trigger_count',
+      severity: 'error',
+      message: `The blueprint has ${triggers.length} trigger steps (${triggers.map(step => step.id).join(', ')}); a workflow starts from exactly one.`,
+      stepId: triggers[1].id,
+      fix: `Keep a single trigger step. Merge or convert the extra triggers (${triggers.slice(1).map(stepLabel).join(', ')}) into actions or separate branches.`
+    });
+  }
+
+  const firstTrigger = steps.findIndex(step => step.type === 'trigger');
+  if (firstTrigger > 0) {
+    steps.slice(0, firstTrigger).forEach(step => findings.push({
+      rule: 'action_before_trigger',
+      severity: 'error',
+      message: `${stepLabel(step)} comes before the trigger and would never run.`,
+      stepId: step.id,
+      fix: `Move ${stepLabel(step)} after the trigger step, keeping the step references consistent.`
+    }));
+  }
+
+  const seen = new Map<number, number>();
+  steps.forEach(step => seen.set(step.id, (seen.get(step.id) || 0) + 1));
+  seen.forEach((count, id) => {
+    if (count > 1) findings.push({
+      rule: 'duplicate_id',
+      severity: 'error',
+      message: `${count} steps share id ${id}, so references to it are ambiguous.`,
+      stepId: id,
+      fix: `Give every step a unique id; renumber the duplicates of id ${id} and update any next, branches, loop or onError references to them.`
+    });
+  });
+
+  validateStepGraph(steps).forEach(issue => {
+    const stepId = Number((issue.path.match(/id=(\d+)/) || [])[1]);
+    findings.push({
+      rule: 'broken_reference',
+      severity: 'error',
+      message: `Step ${stepId}: ${issue.message}.`,
+      stepId,
+      fix: `Fix step ${stepId}: ${issue.message}.`
+    });
+  });
+};
+
+const lintConnections = (automation: AutomationResult, findings: BlueprintFinding[]) => {
+  const declared = new Set((automation.connections || []).map(connection => connection.name));
+  const undeclared = (name: string) => `Connection "${name}" is used but not declared in the blueprint's connections, so exports cannot ask for it.`;
+  automation.steps.filter(step => step.connection && !declared.has(step.connection)).forEach(step => findings.push({
+    rule: 'broken_reference',
+    severity: 'error',
+    message: `${stepLabel(step)}: ${undeclared(step.connection!)}`,
+    stepId: step.id,
+    fix: `Declare the connection "${step.connection}" used by ${stepLabel(step)} in "connections" with its service and scopes.`
+  }));
+
+  const code = automation.codeSnippet || '';
+  const reported = new Set<string>();
+  for (const match of code.matchAll(CONNECTION_CALL)) {
+    if (declared.has(match[1]) || reported.has(match[1])) continue;
+    reported.add(match[1]);
+    const line = lineOf(code, match.index || 0);
+    findings.push({
+      rule: 'broken_reference',
+      severity: 'error',
+      message: `Line ${line}: ${undeclared(match[1])}`,
+      line,
+      fix: `The code snippet reads connection("${match[1]}") on line ${line}. Declare "${match[1]}" in "connections" with its service and scopes, or switch to a connection that is declared.`
+    });
+  }
+};
+
+const lintLogic = (steps: AutomationStep[], findings: BlueprintFinding[]) => {
+  steps.filter(step => step.type === 'logic').forEach(step => {
+    const op = step.operation;
+    let problem: string | null = null;
+    let severity: BlueprintFinding['severity'] = 'warning';
+    if (op?.kind === 'filter' && !(op.conditions || []).length) problem = 'is a filter with no conditions, so it always passes';
+    else if (op?.kind === 'branch' && !(op.skipWhenTrue || []).length && !(op.skipWhenFalse || []).length && !step.branches?.length) {
+      problem = 'evaluates a branch but neither outcome skips or routes any step';
+    } else if ((op?.kind === 'map' || op?.kind === 'transform') && !(op.mappings || []).length) problem = 'has no field mappings';
+    else if (!op && !step.branches?.length && !step.loop && !(step.next && step.next.length > 1)) {
+      problem = 'has no conditions, branches or loop, so it cannot change the flow';
+      severity = 'info';
+    }
+    if (problem) findings.push({
+      rule: 'logic_without_effect',
+      severity,
+      message: `Logic ${stepLabel(step)} ${problem}.`,
+      stepId: step.id,
+      fix: `Make logic ${stepLabel(step)} take effect: give it the conditions, branches or mappings it describes, or remove it if it is not needed.`
+    });
+  });
+};
+
+const lintServices = (steps: AutomationStep[], description: string, findings: BlueprintFinding[]) => {
+  steps.forEach(step => {
+    stepServices(step)
+      .filter(service => !mentions(description, service))
+      .forEach(service => findings.push({
+        rule: 'undeclared_service',
+        severity: 'warning',
+        message: `${stepLabel(step)} uses ${service}, which the request never mentions.`,
+        stepId: step.id,
+        fix: `${stepLabel(step)} uses ${service}, which the original request does not mention. Replace it with a service the request names, or remove the step if it is not needed.`
+      }));
+  });
+};
+
+const lintSecrets = (code: string, findings: BlueprintFinding[]) => {
+  const reported = new Set<number>();
+  const report = (index: number, what: string) => {
+    const line = lineOf(code, index);
+    if (reported.has(line)) return;
+    reported.add(line);
+    findings.push({
+      rule: 'hardcoded_secret',
+      severity: 'error',
+      message: `Line ${line} hard-codes ${what}. Anyone with the export can use it.`,
+      line,
+      fix: `The code snippet hard-codes ${what} on line ${line}. Read it through a vault connection instead, e.g. connection("<name>").<field>, declare that connection in "connections", and do not include any secret values.`
+    });
+  };
+
+  SECRET_PATTERNS.forEach(({ label, pattern }) => {
+    const match = new RegExp(pattern.source, 'g').exec(code);
+    if (match) report(match.index, `a ${label} (${mask(match[0])})`);
+  });
+  for (const match of code.matchAll(CREDENTIAL_ASSIGNMENT)) {
+    if (!PLACEHOLDER_VALUE.test(match[3])) report(match.index || 0, `a value for "${match[1]}" (${mask(match[3])})`);
+  }
+};
+
+const lintErrorHandling = (automation: AutomationResult, findings: BlueprintFinding[]) => {
+  // A handler that fails has nowhere left to go, so it is not asked for a handler of its own
+  const handlers = new Set(automation.steps.flatMap(step => step.onError === undefined ? [] : [step.onError]));
+  automation.steps
+    .filter(step => step.type === 'action' && step.onError === undefined && !handlers.has(step.id) && stepServices(step).length > 0)
+    .forEach(step => findings.push({
+      rule: 'unhandled_external_call',
+      severity: 'warning',
+      message: `${stepLabel(step)} calls ${stepServices(step).join(', ')} with no error handler.`,
+      stepId: step.id,
+      fix: `Add error handling for ${stepLabel(step)}: an error-handler step (onError) that retries or alerts when the ${stepServices(step)[0]} call fails.`
+    }));
+
+  const code = automation.codeSnippet || '';
+  const call = code.match(EXTERNAL_CALL);
+  if (call && !HANDLES_ERRORS.test(code)) {
+    const line = lineOf(code, call.index || 0);
+    findings.push({
+      rule: 'unhandled_external_call',
+      severity: 'warning',
+      message: `The code snippet makes an HTTP call on line ${line} without catching failures.`,
+      line,
+      fix: `Wrap the HTTP calls in the code snippet in error handling that checks the response status and reports failures clearly.`
+    });
+  }
+};
+
+/**
+ * Rule-based checks for structural mistakes in a blueprint, most severe first. `description`
+ * is the original request; without it the service check is skipped.
+ */
+export const lintBlueprint = (automation: AutomationResult, description?: string): BlueprintFinding[] => {
+  const findings: BlueprintFinding[] = [];
+  lintStructure(automation.steps, findings);
+  lintConnections(automation, findings);
+  lintLogic(automation.steps, findings);
+  if (description?.trim()) lintServices(automation.steps, description, findings);
+  if (automation.codeSnippet) lintSecrets(automation.codeSnippet, findings);
+  lintErrorHandling(automation, findings);
+  return findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+};
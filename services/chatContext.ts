@@ -0,0 +1,42 @@
+
+import { ChatMessage } from "../types";
+
+// Roughly 4 characters per token for English prose; close enough to budget a context window
+const CHARS_PER_TOKEN = 4;
+
+export const CONTEXT_TOKEN_BUDGET = 6000;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export interface ChatContextWindow {
+  kept: ChatMessage[];
+  overflow: ChatMessage[];
+  tokens: number;
+}
+
+/**
+ * Keeps the newest messages that fit both the message cap and the token budget. The window
+ * always opens on a user turn so the model never sees a reply without its question.
+ */
+export const selectContextWindow = (
+  messages: ChatMessage[],
+  maxMessages: number,
+  tokenBudget = CONTEXT_TOKEN_BUDGET
+): ChatContextWindow => {
+  let start = messages.length;
+  let tokens = 0;
+
+  while (start > 0 && messages.length - start < maxMessages) {
+    const cost = estimateTokens(messages[start - 1].content);
+    if (tokens + cost > tokenBudget) break;
+    tokens += cost;
+    start--;
+  }
+
+  while (start < messages.length && messages[start].role !== 'user') {
+    tokens -= estimateTokens(messages[start].content);
+    start++;
+  }
+
+  return { kept: messages.slice(start), overflow: messages.slice(0, start), tokens };
+};
@@ -0,0 +1,36 @@
+
+import { ChatSession } from "../types";
+import { openDb, promisify, transactionDone, CHAT_SESSION_STORE } from "./localDb";
+
+export const createChatSession = (name = 'New Conversation'): ChatSession => {
+  const now = Date.now();
+  return {
+    id: `chat-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    messages: [],
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const listChatSessions = async (): Promise<ChatSession[]> => {
+  const db = await openDb();
+  const all = await promisify<ChatSession[]>(db.transaction(CHAT_SESSION_STORE).objectStore(CHAT_SESSION_STORE).getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveChatSession = async (session: ChatSession): Promise<ChatSession> => {
+  const db = await openDb();
+  const tx = db.transaction(CHAT_SESSION_STORE, 'readwrite');
+  const record = { ...session, name: session.name.trim() || 'Untitled Conversation', updatedAt: Date.now() };
+  tx.objectStore(CHAT_SESSION_STORE).put(record);
+  await transactionDone(tx);
+  return record;
+};
+
+export const deleteChatSession = async (sessionId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(CHAT_SESSION_STORE, 'readwrite');
+  tx.objectStore(CHAT_SESSION_STORE).delete(sessionId);
+  await transactionDone(tx);
+};
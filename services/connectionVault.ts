@@ -0,0 +1,164 @@
+
+import { BlueprintConnection, VaultConnection } from "../types";
+import { decode, encode } from "./audio";
+
+const VAULT_KEY = 'automation-architect:connection-vault';
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 310000;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export type ConnectionSecrets = Record<string, string>;
+
+interface StoredVault {
+  version: 1;
+  salt: string;
+  iv: string;
+  // AES-GCM encryption of every connection's secrets, keyed by connection id
+  ciphertext: string;
+  connections: VaultConnection[];
+}
+
+export interface UnlockedVault {
+  key: CryptoKey;
+  salt: string;
+  connections: VaultConnection[];
+  secrets: Record<string, ConnectionSecrets>;
+}
+
+export const CONNECTION_PRESETS: { service: string; fields: string[]; scopes: string[] }[] = [
+  { service: 'Slack', fields: ['token'], scopes: ['chat:write', 'channels:read'] },
+  { service: 'Airtable', fields: ['token'], scopes: ['data.records:read', 'data.records:write'] },
+  { service: 'Shopify', fields: ['accessToken', 'shopDomain'], scopes: ['read_orders', 'read_products'] },
+  { service: 'Stripe', fields: ['secretKey'], scopes: [] },
+  { service: 'HubSpot', fields: ['accessToken'], scopes: ['crm.objects.contacts.read', 'crm.objects.contacts.write'] },
+  { service: 'Google Sheets', fields: ['accessToken'], scopes: ['https://www.googleapis.com/auth/spreadsheets'] },
+  { service: 'Custom API', fields: ['apiKey'], scopes: [] }
+];
+
+const CONNECTION_NAME = /^[a-z0-9][a-z0-9_-]{0,47}$/;
+
+const readStored = (): StoredVault | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VAULT_KEY) || 'null') as StoredVault | null;
+    return stored && stored.version === 1 ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const hasVault = () => readStored() !== null;
+
+/**
+ * Connection names, services and scopes, readable without the passphrase.
+ */
+export const loadConnections = (): VaultConnection[] => readStored()?.connections || [];
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypts the secrets under a fresh IV and stores them with the readable connection list.
+ */
+export const saveVault = async (vault: UnlockedVault) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(vault.secrets));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, vault.key, plaintext);
+  const stored: StoredVault = {
+    version: 1,
+    salt: vault.salt,
+    iv: encode(iv),
+    ciphertext: encode(new Uint8Array(ciphertext)),
+    connections: vault.connections
+  };
+  localStorage.setItem(VAULT_KEY, JSON.stringify(stored));
+};
+
+export const createVault = async (passphrase: string): Promise<UnlockedVault> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const vault: UnlockedVault = { key: await deriveKey(passphrase, salt), salt: encode(salt), connections: [], secrets: {} };
+  await saveVault(vault);
+  return vault;
+};
+
+export const unlockVault = async (passphrase: string): Promise<UnlockedVault> => {
+  const stored = readStored();
+  if (!stored) throw new Error("No connection vault has been created yet.");
+  const key = await deriveKey(passphrase, decode(stored.salt));
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: decode(stored.iv) }, key, decode(stored.ciphertext));
+  } catch {
+    // AES-GCM authenticates the ciphertext, so a wrong key fails here rather than yielding garbage
+    throw new Error("Wrong passphrase: the vault could not be decrypted.");
+  }
+  return { key, salt: stored.salt, connections: stored.connections, secrets: JSON.parse(new TextDecoder().decode(plaintext)) };
+};
+
+// Nothing can be recovered without the passphrase, so forgetting it means starting over
+export const deleteVault = () => {
+  localStorage.removeItem(VAULT_KEY);
+};
+
+export const createConnection = (service: string): VaultConnection => {
+  const preset = CONNECTION_PRESETS.find(option => option.service === service) || CONNECTION_PRESETS[CONNECTION_PRESETS.length - 1];
+  const now = Date.now();
+  return {
+    id: `conn-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    name: service.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''),
+    service,
+    scopes: [...preset.scopes],
+    secretFields: [...preset.fields],
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const validateConnectionName = (name: string, connections: VaultConnection[], id?: string): string | null => {
+  if (!CONNECTION_NAME.test(name)) return 'Names use lowercase letters, digits, "-" and "_" (up to 48 characters).';
+  if (connections.some(connection => connection.name === name && connection.id !== id)) return `A connection named "${name}" already exists.`;
+  return null;
+};
+
+/**
+ * Adds or replaces a connection and its secrets. Empty secret values are dropped, and the
+ * connection's field list follows the values that remain.
+ */
+export const putConnection = (vault: UnlockedVault, connection: VaultConnection, secrets: ConnectionSecrets): UnlockedVault => {
+  const kept = Object.fromEntries(Object.entries(secrets).filter(([, value]) => value !== ''));
+  const updated = { ...connection, secretFields: Object.keys(kept), updatedAt: Date.now() };
+  const exists = vault.connections.some(existing => existing.id === connection.id);
+  return {
+    ...vault,
+    connections: exists ? vault.connections.map(existing => existing.id === connection.id ? updated : existing) : [...vault.connections, updated],
+    secrets: { ...vault.secrets, [connection.id]: kept }
+  };
+};
+
+export const removeConnection = (vault: UnlockedVault, id: string): UnlockedVault => {
+  const { [id]: _removed, ...secrets } = vault.secrets;
+  return { ...vault, connections: vault.connections.filter(connection => connection.id !== id), secrets };
+};
+
+export const toBlueprintConnection = ({ name, service, scopes }: VaultConnection): BlueprintConnection => ({ name, service, scopes });
+
+/**
+ * Prompt section that makes generated blueprints refer to credentials by connection name.
+ */
+export const connectionsPrompt = (connections: VaultConnection[]) => `
+      Never put secret values, API keys or placeholder secrets in the blueprint or the code snippet. Steps that call an authenticated API set "connection" to the name of the connection they use, and every name used is listed in "connections" with its service and scopes. In JavaScript or TypeScript snippets read credentials only as connection("<name>").<field> (for example connection("slack-sales").token); in Python use connection("<name>")["<field>"].${connections.length === 0
+    ? ' Invent short lowercase connection names such as "slack-main" for the services involved.'
+    : `
+      The user's vault has these connections; use them where the service matches and invent a new name only for services not covered:
+${connections.map(connection => `      - "${connection.name}": ${connection.service}${connection.scopes.length ? `, scopes ${connection.scopes.join(', ')}` : ''}; fields ${connection.secretFields.join(', ') || '(none)'}`).join('\n')}`}`;
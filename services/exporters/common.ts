@@ -0,0 +1,45 @@
+
+import { ExportArtifact } from "../../types";
+
+export const slugify = (value: string, fallback = 'automation') =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 48) || fallback;
+
+// Platforms reject duplicate node/module names, so suffix repeats the way their editors do
+export const uniqueNames = (names: string[]): string[] => {
+  const bases = names.map(name => name.trim() || 'Step');
+  // Suffixes skip every title in the list, e.g. two "Step"s next to a "Step 1" become "Step" and "Step 2"
+  const reserved = new Set(bases);
+  const taken = new Set<string>();
+  const suffixes = new Map<string, number>();
+  return bases.map(base => {
+    let unique = base;
+    let count = suffixes.get(base) || 0;
+    while (taken.has(unique) || (unique !== base && reserved.has(unique))) {
+      count += 1;
+      unique = `${base} ${count}`;
+    }
+    suffixes.set(base, count);
+    taken.add(unique);
+    return unique;
+  });
+};
+
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+        const r = (Math.random() * 16) | 0;
+        return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+      });
+
+export const downloadArtifact = (artifact: ExportArtifact) => {
+  const blob = new Blob([artifact.content], { type: artifact.mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = artifact.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,42 @@
+
+import { AutomationResult, AutomationStep, BlueprintConnection } from "../../types";
+
+interface PlatformCredential {
+  // n8n credential type, used with the HTTP Request node's predefined credential option
+  n8n: string;
+  // Make connection type, as it appears in a blueprint's __IMTCONN__ restore data
+  make: string;
+  // Pipedream app slug for an app prop
+  pipedream: string;
+}
+
+const PLATFORM_CREDENTIALS: Record<string, PlatformCredential> = {
+  slack: { n8n: 'slackApi', make: 'slack2', pipedream: 'slack' },
+  airtable: { n8n: 'airtableTokenApi', make: 'airtable3', pipedream: 'airtable_oauth' },
+  shopify: { n8n: 'shopifyAccessTokenApi', make: 'shopify', pipedream: 'shopify' },
+  stripe: { n8n: 'stripeApi', make: 'stripe', pipedream: 'stripe' },
+  hubspot: { n8n: 'hubspotAppToken', make: 'hubspot3', pipedream: 'hubspot' },
+  'google sheets': { n8n: 'googleSheetsOAuth2Api', make: 'google', pipedream: 'google_sheets' },
+  gmail: { n8n: 'gmailOAuth2', make: 'google-email', pipedream: 'gmail' },
+  notion: { n8n: 'notionApi', make: 'notion', pipedream: 'notion' },
+  github: { n8n: 'githubApi', make: 'github', pipedream: 'github' }
+};
+
+// n8n's generic header auth stands in for services without a dedicated credential type
+export const GENERIC_N8N_CREDENTIAL = 'httpHeaderAuth';
+
+export const platformCredential = (connection: BlueprintConnection): PlatformCredential | undefined =>
+  PLATFORM_CREDENTIALS[connection.service.trim().toLowerCase()];
+
+/**
+ * The connection a step uses, falling back to just its name when the blueprint does not
+ * declare it, so the export still refers to it.
+ */
+export const stepConnection = (automation: AutomationResult, step: AutomationStep): BlueprintConnection | undefined =>
+  step.connection
+    ? automation.connections?.find(connection => connection.name === step.connection) || { name: step.connection, service: '' }
+    : undefined;
+
+// Pipedream prop names must be identifiers
+export const connectionPropName = (connection: BlueprintConnection) =>
+  connection.name.replace(/[^A-Za-z0-9_]+/g, '_').replace(/^(\d)/, '_$1');
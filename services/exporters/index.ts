@@ -0,0 +1,46 @@
+
+import { AutomationResult, ExportArtifact, ExportFormat, Platform } from "../../types";
+import { exportN8nWorkflow } from "./n8nExporter";
+import { exportMakeBlueprint } from "./makeExporter";
+import { exportPipedreamComponent } from "./pipedreamExporter";
+
+export interface ExportOption {
+  format: ExportFormat;
+  label: string;
+  description: string;
+  platform: Platform;
+  build: (automation: AutomationResult, name: string) => ExportArtifact;
+}
+
+export const EXPORT_OPTIONS: ExportOption[] = [
+  {
+    format: 'n8n',
+    label: 'n8n Workflow',
+    description: 'Importable workflow JSON',
+    platform: 'n8n',
+    build: exportN8nWorkflow
+  },
+  {
+    format: 'make',
+    label: 'Make Scenario',
+    description: 'Blueprint JSON with modules and routes',
+    platform: 'make',
+    build: exportMakeBlueprint
+  },
+  {
+    format: 'pipedream-js',
+    label: 'Pipedream (JavaScript)',
+    description: 'defineComponent action, .mjs',
+    platform: 'pipedream',
+    build: (automation, name) => exportPipedreamComponent(automation, name, 'javascript')
+  },
+  {
+    format: 'pipedream-ts',
+    label: 'Pipedream (TypeScript)',
+    description: 'defineComponent action, .ts',
+    platform: 'pipedream',
+    build: (automation, name) => exportPipedreamComponent(automation, name, 'typescript')
+  }
+];
+
+export { downloadArtifact } from "./common";
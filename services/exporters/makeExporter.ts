@@ -0,0 +1,324 @@
+
+import { AutomationResult, AutomationStep, BlueprintConnection, ConditionOperator, ExportArtifact, StepCondition, ValidationIssue } from "../../types";
+import { JsonSchema, validateSchema } from "../schemaValidator";
+import { FlowNode, toFlowTree } from "../stepGraph";
+import { slugify, uniqueNames } from "./common";
+import { platformCredential, stepConnection } from "./credentials";
+
+interface MakeFilter {
+  name: string;
+  conditions: { a: string; o: string; b?: string }[][];
+}
+
+interface MakeModule {
+  id: number;
+  module: string;
+  version: number;
+  parameters: Record<string, unknown>;
+  mapper: Record<string, unknown>;
+  metadata: {
+    designer: { x: number; y: number; name?: string };
+    // What Make shows for a connection it has to ask the importer to pick
+    restore?: { parameters: Record<string, { label: string; data: { scoped: 'true'; connection: string } }> };
+  };
+  filter?: MakeFilter;
+  routes?: { flow: MakeModule[] }[];
+  // Error handler route: the handler's modules, ended by a directive such as builtin:Ignore
+  onerror?: MakeModule[];
+}
+
+export interface MakeBlueprint {
+  name: string;
+  flow: MakeModule[];
+  metadata: {
+    instant: boolean;
+    version: number;
+    scenario: Record<string, boolean | number>;
+    designer: { orphans: unknown[] };
+  };
+}
+
+const MODULE_SPACING_X = 300;
+const ROUTE_SPACING_Y = 300;
+// The webhook is always built first, so filters can map trigger fields as {{1.field}}
+const TRIGGER_MODULE_ID = 1;
+
+// Make's filter operator for each condition, then for its negation
+const FILTER_OPERATORS: Record<ConditionOperator, [string, string]> = {
+  equals: ['text:equal', 'text:notequal'],
+  not_equals: ['text:notequal', 'text:equal'],
+  gt: ['number:greater', 'number:lessorequal'],
+  gte: ['number:greaterorequal', 'number:less'],
+  lt: ['number:less', 'number:greaterorequal'],
+  lte: ['number:lessorequal', 'number:greater'],
+  contains: ['text:contain', 'text:notcontain'],
+  not_contains: ['text:notcontain', 'text:contain'],
+  exists: ['exist', 'notexist'],
+  not_exists: ['notexist', 'exist'],
+  matches: ['text:pattern', 'text:notpattern']
+};
+
+const moduleSchema: JsonSchema = {
+  type: 'object',
+  required: ['id', 'module', 'version', 'parameters', 'mapper', 'metadata'],
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    module: { type: 'string', pattern: '^[a-z0-9-]+:[A-Za-z0-9]+$' },
+    version: { type: 'integer', minimum: 1 },
+    parameters: { type: 'object' },
+    mapper: { type: 'object' },
+    metadata: {
+      type: 'object',
+      required: ['designer'],
+      properties: {
+        designer: {
+          type: 'object',
+          required: ['x', 'y'],
+          properties: { x: { type: 'number' }, y: { type: 'number' }, name: { type: 'string' } }
+        }
+      }
+    },
+    filter: {
+      type: 'object',
+      required: ['name', 'conditions'],
+      properties: { name: { type: 'string' }, conditions: { type: 'array', items: { type: 'array' } } }
+    },
+    routes: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['flow'],
+        // Route flows are validated recursively in validateMakeBlueprint
+        properties: { flow: { type: 'array' } }
+      }
+    },
+    onerror: { type: 'array', minItems: 1 }
+  }
+};
+
+export const makeBlueprintSchema: JsonSchema = {
+  type: 'object',
+  required: ['name', 'flow', 'metadata'],
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    flow: { type: 'array', minItems: 1, items: moduleSchema },
+    metadata: {
+      type: 'object',
+      required: ['version', 'scenario'],
+      properties: {
+        instant: { type: 'boolean' },
+        version: { type: 'integer' },
+        scenario: { type: 'object' },
+        designer: { type: 'object' }
+      }
+    }
+  }
+};
+
+// Make stores the chosen connection's numeric id in __IMTCONN__; null leaves it for the importer to pick
+const connectionParameters = (connection: BlueprintConnection) => ({
+  parameters: { __IMTCONN__: null },
+  restore: {
+    parameters: {
+      __IMTCONN__: {
+        label: connection.name,
+        data: { scoped: 'true' as const, connection: platformCredential(connection)?.make || slugify(connection.service, 'http') }
+      }
+    }
+  }
+});
+
+// Make maps array items 1-based, e.g. items[0].sku becomes {{1.items[1].sku}}
+const mapTriggerField = (path: string) =>
+  `{{${TRIGGER_MODULE_ID}.${path.replace(/^\$trigger\.?/, '').replace(/\[(\d+)\]/g, (_, idx) => `[${Number(idx) + 1}]`)}}}`;
+
+const filterCondition = (condition: StepCondition, negate: boolean) => {
+  const [operator, negated] = FILTER_OPERATORS[condition.operator];
+  const numeric = typeof condition.value === 'number' && (condition.operator === 'equals' || condition.operator === 'not_equals');
+  const o = numeric ? (negate ? negated : operator).replace('text:', 'number:') : negate ? negated : operator;
+  return condition.operator === 'exists' || condition.operator === 'not_exists'
+    ? { a: mapTriggerField(condition.field), o }
+    : { a: mapTriggerField(condition.field), o, b: String(condition.value ?? '') };
+};
+
+/**
+ * The step's structured conditions as a Make filter, or their negation for the routes a
+ * branch takes when they fail. Make ORs the outer groups and ANDs within each one.
+ */
+const stepFilter = (step: AutomationStep, negate: boolean, label?: string): MakeFilter | undefined => {
+  const conditions = step.operation?.conditions || [];
+  if (conditions.length === 0) return undefined;
+  const items = conditions.map(condition => filterCondition(condition, negate));
+  const name = label ? `${step.title}: ${label}` : step.description ? `${step.title}: ${step.description}` : step.title;
+  return {
+    name: name.substring(0, 120),
+    conditions: (step.operation?.match === 'any') !== negate ? items.map(item => [item]) : [items]
+  };
+};
+
+/**
+ * Builds a Make scenario from the step graph: the trigger is a custom webhook, actions are
+ * HTTP modules, and logic steps open a router with one route per branch, filtered on the
+ * step's conditions. Error handlers become the guarded module's error handler route. Actions
+ * with a connection ask for it by name on import.
+ */
+export const toMakeBlueprint = (automation: AutomationResult, name: string): MakeBlueprint => {
+  const names = uniqueNames(automation.steps.map(step => step.title));
+  const nameById = new Map(automation.steps.map((step, idx) => [step.id, names[idx]]));
+  const tree = toFlowTree(automation.steps);
+  const hasTrigger = tree[0]?.step.type === 'trigger';
+  let nextId = hasTrigger ? TRIGGER_MODULE_ID : TRIGGER_MODULE_ID + 1;
+
+  const webhook = (designer: MakeModule['metadata']['designer'], id: number): MakeModule => ({
+    id,
+    module: 'gateway:CustomWebHook',
+    version: 1,
+    parameters: { hook: null, maxResults: 1 },
+    mapper: {},
+    metadata: { designer }
+  });
+
+  const buildModule = (step: AutomationStep, x: number, y: number): MakeModule => {
+    const designer = { x, y, name: nameById.get(step.id) };
+    if (step.type === 'trigger') return webhook(designer, nextId++);
+    const connection = stepConnection(automation, step);
+    const credentials = connection ? connectionParameters(connection) : undefined;
+    return {
+      id: nextId++,
+      module: 'http:ActionSendData',
+      version: 3,
+      parameters: { handleErrors: false, useNewZLibDeCompress: true, ...credentials?.parameters },
+      mapper: { url: '', method: 'post', serializeUrl: false, shareCookies: false, parseResponse: true, followRedirect: true },
+      metadata: credentials ? { designer, restore: credentials.restore } : { designer }
+    };
+  };
+
+  const router = (node: FlowNode, x: number, y: number): MakeModule => ({
+    id: nextId++,
+    module: 'builtin:BasicRouter',
+    version: 1,
+    parameters: {},
+    mapper: {},
+    metadata: { designer: { x, y, name: nameById.get(node.step.id) } },
+    routes: []
+  });
+
+  const withFilter = (flow: MakeModule[], filter?: MakeFilter) => {
+    if (filter && flow.length > 0) flow[0].filter = filter;
+    return flow;
+  };
+
+  const buildFlow = (nodes: FlowNode[], x: number, y: number): MakeModule[] => {
+    const flow: MakeModule[] = [];
+    for (let idx = 0; idx < nodes.length; idx++) {
+      const node = nodes[idx];
+      const { step } = node;
+      const column = x + flow.length * MODULE_SPACING_X;
+
+      if (step.type === 'logic') {
+        const logic = router(node, column, y);
+        const routeX = column + MODULE_SPACING_X;
+        if (node.routes) {
+          // As in the n8n export, the first branch is taken when the conditions hold, the rest when they fail
+          node.routes.forEach((route, routeIdx) => {
+            const branchIdx = route.label === undefined ? -1 : (step.branches || []).findIndex(branch => branch.label === route.label);
+            const filter = branchIdx === -1 ? undefined : stepFilter(step, branchIdx > 0, route.label);
+            logic.routes!.push({ flow: withFilter(buildFlow(route.flow, routeX, y + routeIdx * ROUTE_SPACING_Y), filter) });
+          });
+        } else {
+          // A filter step passes the rest of the flow on only when its conditions hold
+          const filter = step.operation?.kind === 'filter' ? stepFilter(step, false) : undefined;
+          logic.routes!.push({ flow: withFilter(buildFlow(nodes.slice(idx + 1), routeX, y), filter) });
+        }
+        if (logic.routes!.length === 0) logic.routes!.push({ flow: [] });
+        flow.push(logic);
+        return flow;
+      }
+
+      const mod = buildModule(step, column, y);
+      if (node.onError) {
+        mod.onerror = [
+          ...buildFlow(node.onError, column + MODULE_SPACING_X, y + ROUTE_SPACING_Y / 2),
+          // The handler runs instead of the rest of the route, which then ends without an error
+          { id: nextId++, module: 'builtin:Ignore', version: 1, parameters: {}, mapper: {}, metadata: { designer: { x: column, y: y + ROUTE_SPACING_Y / 2 } } }
+        ];
+      }
+      flow.push(mod);
+      if (node.routes) {
+        const fanOut = router(node, column + MODULE_SPACING_X, y);
+        node.routes.forEach((route, routeIdx) => {
+          fanOut.routes!.push({ flow: buildFlow(route.flow, column + 2 * MODULE_SPACING_X, y + routeIdx * ROUTE_SPACING_Y) });
+        });
+        flow.push(fanOut);
+        return flow;
+      }
+    }
+    return flow;
+  };
+
+  const flow = hasTrigger
+    ? buildFlow(tree, 0, 0)
+    : [webhook({ x: 0, y: 0, name: 'Incoming Webhook' }, TRIGGER_MODULE_ID), ...buildFlow(tree, MODULE_SPACING_X, 0)];
+
+  return {
+    name,
+    flow,
+    metadata: {
+      instant: flow[0]?.module === 'gateway:CustomWebHook',
+      version: 1,
+      scenario: {
+        roundtrips: 1,
+        maxErrors: 3,
+        autoCommit: true,
+        autoCommitTriggerLast: true,
+        sequential: false,
+        confidential: false,
+        dataloss: false,
+        dlq: false,
+        freshVariables: false
+      },
+      designer: { orphans: [] }
+    }
+  };
+};
+
+export const validateMakeBlueprint = (blueprint: unknown): ValidationIssue[] => {
+  const issues = validateSchema(blueprint, makeBlueprintSchema);
+  if (issues.length > 0) return issues;
+
+  const seenIds = new Set<number>();
+  const walk = (flow: MakeModule[], path: string, depth: number) => {
+    flow.forEach((mod, idx) => {
+      const where = `${path}[${idx}]`;
+      if (depth > 0) {
+        issues.push(...validateSchema(mod, moduleSchema).map(issue => ({ ...issue, path: `${where}${issue.path === '(root)' ? '' : `.${issue.path}`}` })));
+      }
+      if (seenIds.has(mod.id)) {
+        issues.push({ path: `${where}.id`, message: `duplicate module id ${mod.id}` });
+      }
+      seenIds.add(mod.id);
+      if (mod.module === 'builtin:BasicRouter' && !mod.routes?.length) {
+        issues.push({ path: `${where}.routes`, message: 'router must define at least one route' });
+      }
+      if (mod.routes && mod.module !== 'builtin:BasicRouter') {
+        issues.push({ path: `${where}.routes`, message: 'only routers may define routes' });
+      }
+      mod.routes?.forEach((route, routeIdx) => walk(route.flow, `${where}.routes[${routeIdx}].flow`, depth + 1));
+      if (mod.onerror) walk(mod.onerror, `${where}.onerror`, depth + 1);
+    });
+  };
+  walk((blueprint as MakeBlueprint).flow, 'flow', 0);
+  return issues;
+};
+
+export const exportMakeBlueprint = (automation: AutomationResult, name: string): ExportArtifact => {
+  const blueprint = toMakeBlueprint(automation, name);
+  return {
+    format: 'make',
+    filename: `${slugify(name)}.make.blueprint.json`,
+    mimeType: 'application/json',
+    content: JSON.stringify(blueprint, null, 2),
+    issues: validateMakeBlueprint(blueprint)
+  };
+};
@@ -0,0 +1,298 @@
+
+import { AutomationResult, AutomationStep, BlueprintConnection, ExportArtifact, StepType, ValidationIssue } from "../../types";
+import { JsonSchema, validateSchema } from "../schemaValidator";
+import { collectEdges, layoutStepGraph } from "../stepGraph";
+import { lintBlueprint } from "../blueprintLint";
+import { createId, slugify, uniqueNames } from "./common";
+import { GENERIC_N8N_CREDENTIAL, platformCredential, stepConnection } from "./credentials";
+
+interface N8nNode {
+  id: string;
+  name: string;
+  type: string;
+  typeVersion: number;
+  position: [number, number];
+  parameters: Record<string, unknown>;
+  notes?: string;
+  notesInFlow?: boolean;
+  webhookId?: string;
+  onError?: 'continueErrorOutput';
+  // n8n resolves credentials by id, then by name; a null id makes it match the name on import
+  credentials?: Record<string, { id: string | null; name: string }>;
+}
+
+interface N8nConnection {
+  node: string;
+  type: 'main';
+  index: number;
+}
+
+export interface N8nWorkflow {
+  name: string;
+  nodes: N8nNode[];
+  connections: Record<string, { main: N8nConnection[][] }>;
+  active: boolean;
+  settings: { executionOrder: 'v1' };
+  pinData: Record<string, unknown>;
+  tags: string[];
+}
+
+const NODE_SPACING_X = 240;
+const NODE_SPACING_Y = 180;
+const ORIGIN: [number, number] = [240, 300];
+const SCHEDULE_HINTS = /\b(schedule|cron|every (day|hour|week|month|minute)|daily|hourly|weekly)\b/i;
+
+const connectionSchema: JsonSchema = {
+  type: 'object',
+  required: ['node', 'type', 'index'],
+  properties: {
+    node: { type: 'string', minLength: 1 },
+    type: { type: 'string', enum: ['main'] },
+    index: { type: 'integer', minimum: 0 }
+  }
+};
+
+export const n8nWorkflowSchema: JsonSchema = {
+  type: 'object',
+  required: ['name', 'nodes', 'connections', 'settings'],
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    active: { type: 'boolean' },
+    nodes: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'name', 'type', 'typeVersion', 'position', 'parameters'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          name: { type: 'string', minLength: 1 },
+          type: { type: 'string', pattern: '^(n8n-nodes-base|@n8n/n8n-nodes-langchain)\\.[A-Za-z0-9]+$' },
+          typeVersion: { type: 'number', minimum: 1 },
+          position: { type: 'array', minItems: 2, maxItems: 2, items: { type: 'number' } },
+          parameters: { type: 'object' },
+          notes: { type: 'string' },
+          notesInFlow: { type: 'boolean' },
+          webhookId: { type: 'string' },
+          credentials: {
+            type: 'object',
+            additionalProperties: {
+              type: 'object',
+              required: ['name'],
+              properties: { name: { type: 'string', minLength: 1 } }
+            }
+          },
+          onError: { type: 'string', enum: ['stopWorkflow', 'continueRegularOutput', 'continueErrorOutput'] }
+        }
+      }
+    },
+    connections: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        required: ['main'],
+        properties: {
+          main: { type: 'array', items: { type: 'array', items: connectionSchema } }
+        }
+      }
+    },
+    settings: {
+      type: 'object',
+      properties: { executionOrder: { type: 'string', enum: ['v0', 'v1'] } }
+    },
+    pinData: { type: 'object' },
+    tags: { type: 'array' }
+  }
+};
+
+const buildTriggerNode = (step: AutomationStep, name: string): Omit<N8nNode, 'id' | 'position'> => {
+  const text = `${step.title} ${step.description}`;
+  if (SCHEDULE_HINTS.test(text)) {
+    return {
+      name,
+      type: 'n8n-nodes-base.scheduleTrigger',
+      typeVersion: 1.2,
+      parameters: { rule: { interval: [{ field: 'hours' }] } }
+    };
+  }
+  return {
+    name,
+    type: 'n8n-nodes-base.webhook',
+    typeVersion: 2,
+    webhookId: createId(),
+    parameters: { httpMethod: 'POST', path: slugify(step.title, 'incoming'), responseMode: 'onReceived', options: {} }
+  };
+};
+
+const NODE_BUILDERS: Record<Exclude<StepType, 'trigger'>, (step: AutomationStep, name: string) => Omit<N8nNode, 'id' | 'position'>> = {
+  logic: (_step, name) => ({
+    name,
+    type: 'n8n-nodes-base.if',
+    typeVersion: 2,
+    parameters: {
+      conditions: {
+        options: { caseSensitive: true, leftValue: '', typeValidation: 'strict' },
+        conditions: [],
+        combinator: 'and'
+      },
+      options: {}
+    }
+  }),
+  action: (_step, name) => ({
+    name,
+    type: 'n8n-nodes-base.httpRequest',
+    typeVersion: 4.2,
+    parameters: { method: 'POST', url: '', options: {} }
+  })
+};
+
+// Points an HTTP Request node at the platform credential named after the vault connection
+const withCredentials = (node: Omit<N8nNode, 'id' | 'position'>, connection: BlueprintConnection): Omit<N8nNode, 'id' | 'position'> => {
+  const type = platformCredential(connection)?.n8n;
+  const auth = type
+    ? { authentication: 'predefinedCredentialType', nodeCredentialType: type }
+    : { authentication: 'genericCredentialType', genericAuthType: GENERIC_N8N_CREDENTIAL };
+  return {
+    ...node,
+    parameters: { ...node.parameters, ...auth },
+    credentials: { [type || GENERIC_N8N_CREDENTIAL]: { id: null, name: connection.name } }
+  };
+};
+
+/**
+ * Maps the blueprint's step graph onto n8n: triggers become Webhook/Schedule nodes, logic steps
+ * become IF nodes (first branch on the true output, the rest on false) and actions become HTTP
+ * Request nodes, authenticated with the credential named after the step's connection. Steps
+ * with an `onError` handler route failures through n8n's error output.
+ */
+export const toN8nWorkflow = (automation: AutomationResult, name: string): N8nWorkflow => {
+  const names = uniqueNames(automation.steps.map(step => step.title));
+  const nameById = new Map(automation.steps.map((step, idx) => [step.id, names[idx]]));
+  const layout = new Map(layoutStepGraph(automation.steps).nodes.map(node => [node.step.id, node]));
+
+  const nodes: N8nNode[] = automation.steps.map((step, idx) => {
+    const built = step.type === 'trigger'
+      ? buildTriggerNode(step, names[idx])
+      : NODE_BUILDERS[step.type](step, names[idx]);
+    const connection = step.type === 'action' ? stepConnection(automation, step) : undefined;
+    const base = connection ? withCredentials(built, connection) : built;
+    const place = layout.get(step.id)!;
+    return {
+      id: createId(),
+      ...base,
+      position: [ORIGIN[0] + place.level * NODE_SPACING_X, ORIGIN[1] + place.lane * NODE_SPACING_Y],
+      notes: step.description,
+      notesInFlow: true,
+      ...(step.onError !== undefined ? { onError: 'continueErrorOutput' as const } : {})
+    };
+  });
+
+  const connections: N8nWorkflow['connections'] = {};
+  const connect = (from: string, output: number, to: string) => {
+    const main = connections[from]?.main || [];
+    while (main.length <= output) main.push([]);
+    main[output].push({ node: to, type: 'main', index: 0 });
+    connections[from] = { main };
+  };
+
+  collectEdges(automation.steps).forEach(edge => {
+    const from = automation.steps.find(step => step.id === edge.from)!;
+    const fromName = nameById.get(edge.from)!;
+    const toName = nameById.get(edge.to);
+    if (!toName) return;
+    const regularOutputs = from.type === 'logic' ? 2 : 1;
+    if (edge.kind === 'error') {
+      connect(fromName, regularOutputs, toName);
+    } else if (edge.kind === 'branch') {
+      const branchIdx = from.branches!.findIndex(branch => branch.label === edge.label);
+      connect(fromName, Math.min(Math.max(branchIdx, 0), regularOutputs - 1), toName);
+    } else {
+      connect(fromName, 0, toName);
+    }
+  });
+
+  if (!automation.steps.some(step => step.type === 'trigger')) {
+    const triggerName = uniqueNames([...names, 'Manual Trigger']).pop()!;
+    nodes.unshift({
+      id: createId(),
+      name: triggerName,
+      type: 'n8n-nodes-base.manualTrigger',
+      typeVersion: 1,
+      position: [ORIGIN[0] - NODE_SPACING_X, ORIGIN[1]],
+      parameters: {}
+    });
+    if (automation.steps[0]) connect(triggerName, 0, names[0]);
+  }
+
+  if (automation.codeSnippet) {
+    nodes.push({
+      id: createId(),
+      name: 'Implementation Notes',
+      type: 'n8n-nodes-base.stickyNote',
+      typeVersion: 1,
+      position: [ORIGIN[0], ORIGIN[1] - 460],
+      parameters: {
+        content: `## Implementation reference\n\`\`\`\n${automation.codeSnippet}\n\`\`\``,
+        height: 400,
+        width: Math.max(480, (nodes.length - 1) * NODE_SPACING_X)
+      }
+    });
+  }
+
+  return {
+    name,
+    nodes,
+    connections,
+    active: false,
+    settings: { executionOrder: 'v1' },
+    pinData: {},
+    tags: []
+  };
+};
+
+export const validateN8nWorkflow = (workflow: unknown): ValidationIssue[] => {
+  const issues = validateSchema(workflow, n8nWorkflowSchema);
+  if (issues.length > 0) return issues;
+
+  const doc = workflow as N8nWorkflow;
+  const names = new Set<string>();
+  doc.nodes.forEach((node, idx) => {
+    if (names.has(node.name)) {
+      issues.push({ path: `nodes[${idx}].name`, message: `duplicate node name "${node.name}"` });
+    }
+    names.add(node.name);
+  });
+
+  Object.entries(doc.connections).forEach(([source, outputs]) => {
+    if (!names.has(source)) {
+      issues.push({ path: `connections.${source}`, message: 'source node does not exist' });
+    }
+    outputs.main.forEach((branch, branchIdx) => branch.forEach((edge, edgeIdx) => {
+      if (!names.has(edge.node)) {
+        issues.push({ path: `connections.${source}.main[${branchIdx}][${edgeIdx}].node`, message: `target node "${edge.node}" does not exist` });
+      }
+    }));
+  });
+
+  if (!doc.nodes.some(node => /trigger$|\.webhook$/i.test(node.type))) {
+    issues.push({ path: 'nodes', message: 'workflow has no trigger node' });
+  }
+  return issues;
+};
+
+export const exportN8nWorkflow = (automation: AutomationResult, name: string): ExportArtifact => {
+  const workflow = toN8nWorkflow(automation, name);
+  return {
+    format: 'n8n',
+    filename: `${slugify(name)}.n8n.json`,
+    mimeType: 'application/json',
+    content: JSON.stringify(workflow, null, 2),
+    // The snippet travels in a sticky note, so a hard-coded secret would ship with the file
+    issues: [
+      ...validateN8nWorkflow(workflow),
+      ...lintBlueprint(automation)
+        .filter(finding => finding.rule === 'hardcoded_secret')
+        .map(finding => ({ path: 'codeSnippet', message: finding.message }))
+    ]
+  };
+};
@@ -0,0 +1,256 @@
+
+import { AutomationResult, AutomationStep, BlueprintConnection, ExportArtifact, StepCondition, ValidationIssue } from "../../types";
+import { FlowNode, toFlowTree } from "../stepGraph";
+import { slugify } from "./common";
+import { connectionPropName, platformCredential, stepConnection } from "./credentials";
+
+export type PipedreamLanguage = 'javascript' | 'typescript';
+
+const toMethodName = (step: AutomationStep) => {
+  const words = step.title.replace(/[^a-zA-Z0-9 ]+/g, ' ').trim().split(/\s+/).filter(Boolean).slice(0, 5);
+  const camel = words.map((word, i) => i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()).join('');
+  return `step${step.id}${camel ? `_${camel}` : ''}`;
+};
+
+// Keep step text safe inside /* */ and "" literals in the generated source
+const commentSafe = (text: string) => text.replace(/\*\//g, '* /').replace(/\n+/g, ' ');
+const stringSafe = (text: string) => JSON.stringify(text);
+
+// e.g. $trigger.items[0].sku reads data?.["items"]?.[0]?.["sku"]; run() starts data from the trigger event
+const fieldAccess = (path: string) => path
+  .replace(/^\$trigger\.?/, '')
+  .split(/\.|(?=\[)/)
+  .filter(Boolean)
+  .reduce((expr, segment) => {
+    const index = /^\[(\d+)\]$/.exec(segment);
+    return `${expr}?.[${index ? index[1] : stringSafe(segment)}]`;
+  }, 'data');
+
+const conditionSource = (condition: StepCondition) => {
+  const field = fieldAccess(condition.field);
+  const value = JSON.stringify(condition.value ?? '');
+  switch (condition.operator) {
+    case 'equals': return `${field} === ${value}`;
+    case 'not_equals': return `${field} !== ${value}`;
+    case 'gt': return `Number(${field}) > ${value}`;
+    case 'gte': return `Number(${field}) >= ${value}`;
+    case 'lt': return `Number(${field}) < ${value}`;
+    case 'lte': return `Number(${field}) <= ${value}`;
+    case 'contains': return `String(${field} ?? "").includes(${value})`;
+    case 'not_contains': return `!String(${field} ?? "").includes(${value})`;
+    case 'exists': return `${field} !== undefined && ${field} !== null`;
+    case 'not_exists': return `(${field} === undefined || ${field} === null)`;
+    case 'matches': return `new RegExp(${value}).test(String(${field} ?? ""))`;
+  }
+};
+
+const passesSource = (step: AutomationStep) => {
+  const conditions = step.operation?.conditions || [];
+  if (conditions.length === 0) {
+    return [
+      `      // TODO: replace with the real condition for this step`,
+      `      const passes = data !== null && data !== undefined;`
+    ];
+  }
+  const joiner = step.operation?.match === 'any' ? ' || ' : ' && ';
+  return [`      const passes = ${conditions.map(condition => `(${conditionSource(condition)})`).join(joiner)};`];
+};
+
+const renderMethod = (step: AutomationStep, method: string, language: PipedreamLanguage, connection?: BlueprintConnection) => {
+  const branches = step.type === 'logic' && (step.branches || []).length > 0;
+  const signature = language === 'typescript'
+    ? `async ${method}(data: Record<string, any>, $: any): Promise<${branches ? 'boolean' : 'Record<string, any>'}>`
+    : `async ${method}(data, $)`;
+
+  // A branching step only answers which way to go; run() picks the branch from its result
+  const body = branches
+    ? [
+        ...passesSource(step),
+        `      return passes;`
+      ]
+    : step.type === 'logic'
+    ? [
+        ...passesSource(step),
+        `      if (!passes) {`,
+        `        return $.flow.exit(${stringSafe(`Stopped at "${step.title}"`)});`,
+        `      }`,
+        `      return data;`
+      ]
+    : [
+        ...(connection
+          ? [`      // Credentials come from the ${stringSafe(connection.name)} account connected to this.${connectionPropName(connection)}`,
+             `      const auth = this.${connectionPropName(connection)}.$auth;`,
+             `      // TODO: call the target API here, e.g. await axios($, { url, method: "POST", headers: { Authorization: \`Bearer \${auth.oauth_access_token}\` }, data })`]
+          : [`      // TODO: call the target API here, e.g. await axios($, { url, method: "POST", data })`]),
+        `      $.export(${stringSafe(method)}, data);`,
+        `      return data;`
+      ];
+
+  return [
+    `    /* ${commentSafe(step.title)} — ${commentSafe(step.description)} */`,
+    `    ${signature} {`,
+    ...body,
+    `    },`
+  ].join('\n');
+};
+
+// One app prop per connection; Pipedream asks for an account for each when the component is used
+const renderProps = (connections: BlueprintConnection[]) => connections.length === 0
+  ? [`  props: {},`]
+  : [
+      `  props: {`,
+      ...connections.map(connection =>
+        `    ${connectionPropName(connection)}: { type: "app", app: ${stringSafe(platformCredential(connection)?.pipedream || slugify(connection.service || connection.name).replace(/-/g, '_'))} },`),
+      `  },`
+    ];
+
+// Steps in the order run() calls them: each step, its error handler, then where the flow goes next
+const callOrder = (nodes: FlowNode[]): AutomationStep[] => nodes.flatMap(node => [
+  ...(node.step.type === 'trigger' ? [] : [node.step]),
+  ...callOrder(node.onError || []),
+  ...(node.routes || []).flatMap(route => callOrder(route.flow))
+]);
+
+const renderFlow = (nodes: FlowNode[], indent: string): string[] => nodes.flatMap(node => {
+  const { step } = node;
+  const method = toMethodName(step);
+  const inner = `${indent}  `;
+
+  if (step.type === 'logic' && node.routes) {
+    // The first branch is taken when the step's conditions hold, as in the other exports
+    const [taken, ...others] = node.routes.filter(route => route.label !== undefined);
+    const after = node.routes.filter(route => route.label === undefined);
+    return [
+      `${indent}// ${commentSafe(step.title)}`,
+      `${indent}if (await this.${method}(data, $)) {`,
+      ...(taken ? [`${inner}// ${commentSafe(taken.label!)}`, ...renderFlow(taken.flow, inner)] : []),
+      `${indent}} else {`,
+      ...others.flatMap(route => [`${inner}// ${commentSafe(route.label!)}`, ...renderFlow(route.flow, inner)]),
+      `${indent}}`,
+      ...after.flatMap(route => renderFlow(route.flow, indent))
+    ];
+  }
+
+  const call = step.type === 'trigger' ? [] : [`${indent}data = await this.${method}(data, $);`];
+  const guarded = node.onError
+    ? [
+        `${indent}try {`,
+        ...call.map(line => `  ${line}`),
+        `${indent}} catch (error) {`,
+        // The handler runs instead of the rest of the flow
+        `${inner}data = { ...data, error: error instanceof Error ? error.message : String(error) };`,
+        ...renderFlow(node.onError, inner),
+        `${inner}return data;`,
+        `${indent}}`
+      ]
+    : call;
+  return [...guarded, ...(node.routes || []).flatMap(route => renderFlow(route.flow, indent))];
+});
+
+/**
+ * Emits a single Pipedream action component with one method per non-trigger step. run() walks
+ * the step graph: each step's return value is threaded into the next, branches become if/else
+ * on the logic step's conditions and error handlers a try/catch around the guarded step. The
+ * trigger stays configured in the Pipedream UI and reaches the component as
+ * steps.trigger.event; step connections become app props, so credentials are picked from
+ * connected accounts.
+ */
+export const toPipedreamComponent = (automation: AutomationResult, name: string, language: PipedreamLanguage): string => {
+  const tree = toFlowTree(automation.steps);
+  const actionSteps = callOrder(tree);
+  const trigger = automation.steps.find(step => step.type === 'trigger');
+  const methods = actionSteps.map(toMethodName);
+  const stepConnections = actionSteps.map(step => step.type === 'action' ? stepConnection(automation, step) : undefined);
+  const props = stepConnections.filter((connection, idx): connection is BlueprintConnection =>
+    !!connection && stepConnections.findIndex(other => other?.name === connection.name) === idx);
+  const dataDecl = language === 'typescript' ? 'let data: Record<string, any>' : 'let data';
+
+  const lines = [
+    language === 'typescript'
+      ? `import { defineComponent } from "@pipedream/types";`
+      : null,
+    `import { axios } from "@pipedream/platform";`,
+    ``,
+    `// Trigger: ${commentSafe(trigger ? `${trigger.title} — ${trigger.description}` : 'configure an HTTP / Webhook trigger in Pipedream')}`,
+    `export default defineComponent({`,
+    `  name: ${stringSafe(name)},`,
+    `  key: ${stringSafe(slugify(name))},`,
+    `  version: "0.0.1",`,
+    `  type: "action",`,
+    ...renderProps(props),
+    `  methods: {`,
+    ...actionSteps.map((step, idx) => renderMethod(step, methods[idx], language, stepConnections[idx])),
+    `  },`,
+    `  async run({ steps, $ }${language === 'typescript' ? ': { steps: any; $: any }' : ''}) {`,
+    `    ${dataDecl} = steps.trigger.event;`,
+    ...renderFlow(tree, '    '),
+    `    return data;`,
+    `  },`,
+    `});`,
+    ``
+  ];
+
+  return lines.filter(line => line !== null).join('\n');
+};
+
+const BRACKET_PAIRS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+export const validatePipedreamComponent = (source: string, expectedMethods: string[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  if (!/export default defineComponent\(\{/.test(source)) {
+    issues.push({ path: 'export default', message: 'component must export defineComponent({...})' });
+  }
+  ['name', 'key', 'version', 'type'].forEach(field => {
+    if (!new RegExp(`^\\s{2}${field}: "`, 'm').test(source)) {
+      issues.push({ path: field, message: 'is required on the component' });
+    }
+  });
+  if (!/async run\(\{ steps, \$ \}/.test(source)) {
+    issues.push({ path: 'run', message: 'component must define async run({ steps, $ })' });
+  }
+
+  let lastCall = -1;
+  expectedMethods.forEach(method => {
+    if (!source.includes(`async ${method}(`)) {
+      issues.push({ path: `methods.${method}`, message: 'step method is not defined' });
+    }
+    const call = source.indexOf(`await this.${method}(`);
+    if (call === -1) {
+      issues.push({ path: `run`, message: `step method ${method} is never called` });
+    } else if (call < lastCall) {
+      issues.push({ path: `run`, message: `step method ${method} is called out of order` });
+    }
+    lastCall = Math.max(lastCall, call);
+  });
+
+  // Bracket balance outside of string literals and comments catches most template breakage
+  const stack: string[] = [];
+  const stripped = source
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/"(?:\\.|[^"\\\n])*"/g, '""')
+    .replace(/\/\/.*$/gm, '');
+  for (const char of stripped) {
+    if (char === '(' || char === '[' || char === '{') stack.push(char);
+    if (BRACKET_PAIRS[char] && stack.pop() !== BRACKET_PAIRS[char]) {
+      issues.push({ path: 'source', message: `unbalanced "${char}"` });
+      return issues;
+    }
+  }
+  if (stack.length > 0) {
+    issues.push({ path: 'source', message: `unclosed "${stack[stack.length - 1]}"` });
+  }
+  return issues;
+};
+
+export const exportPipedreamComponent = (automation: AutomationResult, name: string, language: PipedreamLanguage): ExportArtifact => {
+  const source = toPipedreamComponent(automation, name, language);
+  const methods = callOrder(toFlowTree(automation.steps)).map(toMethodName);
+  return {
+    format: language === 'typescript' ? 'pipedream-ts' : 'pipedream-js',
+    filename: `${slugify(name)}.${language === 'typescript' ? 'ts' : 'mjs'}`,
+    mimeType: language === 'typescript' ? 'application/typescript' : 'text/javascript',
+    content: source,
+    issues: validatePipedreamComponent(source, methods)
+  };
+};
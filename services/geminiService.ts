@@ -1,235 +1,383 @@
 
-import { GoogleGenAI, Type, Modality, GenerateContentParameters, LiveServerMessage } from "@google/genai";
-import { Platform, AutomationResult, SimulationResponse } from "../types";
+import { Platform, AutomationResult, SimulationResponse, MockResponse, VaultConnection, ChatMessage, GenerationProgress, ModelRole, TokenUsage, UsageFeature } from "../types";
+import { getProvider } from "./providers";
+import { startUsageTracking } from "./usageTracker";
+import { AiServiceError, classifyError } from "./aiErrors";
+import { createRetryPolicy } from "./retryPolicy";
+import { LiveCallbacks, LiveSession } from "./providers/provider";
+import { JsonSchema } from "./schemaValidator";
+import { checkBlueprint, checkSimulation, generateValidJson } from "./responseValidation";
+import { mockResponsesPrompt } from "./mockHttp";
+import { connectionsPrompt } from "./connectionVault";
 
-const getAiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Configuration Error: Mission-critical key [process.env.API_KEY] is undefined.");
+export { encode, decode, decodeAudioData } from "./audio";
+
+// Waits out a retry delay, ending early as a cancellation when the caller aborts
+const backoff = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const cancelled = () => new AiServiceError('cancelled', "Request cancelled.");
+  if (signal?.aborted) {
+    reject(cancelled());
+    return;
   }
-  return new GoogleGenAI({ apiKey });
-};
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
 
-async function callGemini<T>(
-  operation: () => Promise<T>,
-  retries = 2,
-  delay = 1000
+/**
+ * Runs one feature call under the retry policy and meters it: token usage from every attempt,
+ * latency, retry count and estimated cost are stored locally for the Usage view. Every failure
+ * is rethrown as a typed `AiServiceError`; aborting `signal` also cuts a retry delay short.
+ */
+async function callProvider<T>(
+  feature: UsageFeature,
+  role: ModelRole,
+  operation: (onUsage: (usage: TokenUsage) => void) => Promise<T>,
+  signal?: AbortSignal
 ): Promise<T> {
-  try {
-    return await operation();
-  } catch (error: any) {
-    const status = error.status || error.code;
-    const isRetryable = status === 429 || (status >= 500 && status < 600);
-    
-    if (isRetryable && retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return callGemini(operation, retries - 1, delay * 2);
+  const tracking = startUsageTracking(feature, role);
+  const policy = createRetryPolicy();
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const result = await operation(tracking.onUsage);
+      policy.succeeded();
+      tracking.finish('success', attempt);
+      return result;
+    } catch (err: any) {
+      const error = classifyError(err);
+      if (error.code === 'cancelled') {
+        tracking.finish('cancelled', attempt);
+        throw error;
+      }
+
+      const delay = policy.nextDelay(attempt, error);
+      if (delay !== null) {
+        try {
+          await backoff(delay, signal);
+        } catch (cancelled) {
+          tracking.finish('cancelled', attempt);
+          throw cancelled;
+        }
+        continue;
+      }
+      error.details.attempts = attempt + 1;
+      tracking.finish('error', attempt, error.message);
+      throw error;
     }
-    const userMessage = status === 429 
-      ? "Service is temporarily overloaded. Please wait a moment." 
-      : (error.message || "An unexpected error occurred in the AI service.");
-    throw new Error(userMessage);
   }
 }
 
-export const generateAutomation = async (platform: Platform, description: string): Promise<AutomationResult> => {
-  return callGemini(async () => {
-    const ai = getAiClient();
-    const params: GenerateContentParameters = {
-      model: 'gemini-3-pro-preview',
-      contents: `Build a production-grade automation workflow for ${platform} based on these requirements: ${description}. Use Google Search to verify the latest API endpoints.`,
-      config: {
-        systemInstruction: "You are an Elite Solutions Architect. Output ONLY a valid JSON object matching the provided schema.",
-        responseMimeType: "application/json",
-        thinkingConfig: { thinkingBudget: 8000 },
-        tools: [{ googleSearch: {} }],
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            platform: { type: Type.STRING },
-            explanation: { type: Type.STRING },
-            codeSnippet: { type: Type.STRING },
-            steps: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.INTEGER },
-                  title: { type: Type.STRING },
-                  description: { type: Type.STRING },
-                  type: { type: Type.STRING }
-                },
-                required: ["id", "title", "description", "type"]
-              }
+// Optional machine-readable semantics that let the Logic Sandbox execute a step without the model
+const stepOperationSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    kind: { type: 'string', enum: ['map', 'transform', 'filter', 'branch'] },
+    match: { type: 'string', enum: ['all', 'any'] },
+    mappings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          target: { type: 'string' },
+          source: { type: 'string' },
+          template: { type: 'string' },
+          value: { type: 'string' },
+          transform: { type: 'string', enum: ['uppercase', 'lowercase', 'trim', 'to_number', 'to_string', 'to_boolean', 'round', 'abs', 'length', 'cents_to_units', 'units_to_cents', 'iso_date', 'json'] }
+        },
+        required: ["target"]
+      }
+    },
+    conditions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string' },
+          operator: { type: 'string', enum: ['equals', 'not_equals', 'gt', 'gte', 'lt', 'lte', 'contains', 'not_contains', 'exists', 'not_exists', 'matches'] },
+          value: { type: 'string' }
+        },
+        required: ["field", "operator"]
+      }
+    },
+    skipWhenTrue: { type: 'array', items: { type: 'integer' } },
+    skipWhenFalse: { type: 'array', items: { type: 'integer' } }
+  },
+  required: ["kind"]
+};
+
+const automationSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    platform: { type: 'string' },
+    explanation: { type: 'string' },
+    codeSnippet: { type: 'string' },
+    connections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          service: { type: 'string' },
+          scopes: { type: 'array', items: { type: 'string' } }
+        },
+        required: ["name", "service"]
+      }
+    },
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          type: { type: 'string', enum: ['trigger', 'action', 'logic'] },
+          operation: stepOperationSchema,
+          next: { type: 'array', items: { type: 'integer' } },
+          branches: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                label: { type: 'string' },
+                condition: { type: 'string' },
+                next: { type: 'array', items: { type: 'integer' } }
+              },
+              required: ["label", "next"]
             }
           },
-          required: ["platform", "explanation", "steps"]
-        }
+          parallel: { type: 'boolean' },
+          join: { type: 'boolean' },
+          loop: {
+            type: 'object',
+            properties: {
+              over: { type: 'string' },
+              body: { type: 'array', items: { type: 'integer' } },
+              maxIterations: { type: 'integer' }
+            },
+            required: ["over", "body"]
+          },
+          onError: { type: 'integer' },
+          connection: { type: 'string' }
+        },
+        required: ["id", "title", "description", "type"]
+      }
+    }
+  },
+  required: ["platform", "explanation", "steps"]
+};
+
+const simulationSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    overallStatus: { type: 'string', enum: ['success', 'failure'] },
+    summary: { type: 'string' },
+    stepResults: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          stepId: { type: 'integer' },
+          status: { type: 'string', enum: ['success', 'failure', 'skipped'] },
+          output: { type: 'string' },
+          reasoning: { type: 'string' }
+        },
+        required: ["stepId", "status", "output", "reasoning"]
+      }
+    }
+  },
+  required: ["overallStatus", "summary", "stepResults"]
+};
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+}
+
+export interface GenerateAutomationOptions extends StreamOptions {
+  onProgress?: (progress: GenerationProgress) => void;
+  // Vault connections the blueprint may refer to; only names, services and scopes are sent
+  connections?: VaultConnection[];
+}
+
+// Reads step titles out of the partial JSON so far; the response is only parseable once complete
+const scanPartialSteps = (partial: string) => {
+  const stepsAt = partial.indexOf('"steps"');
+  if (stepsAt === -1) return [];
+  return Array.from(partial.slice(stepsAt).matchAll(/"title"\s*:\s*"((?:[^"\\]|\\.)*)"/g), match => match[1]);
+};
+
+export const generateAutomation = async (
+  platform: Platform,
+  description: string,
+  options: GenerateAutomationOptions = {}
+): Promise<AutomationResult> => {
+  return callProvider('generate', 'reasoning', async (onUsage) => {
+    const progress: GenerationProgress = { phase: 'reasoning', stepTitles: [] };
+    const report = () => options.onProgress?.({ ...progress, stepTitles: [...progress.stepTitles] });
+    report();
+
+    const { data, sources } = await generateValidJson<AutomationResult>(getProvider(), {
+      role: 'reasoning',
+      systemInstruction: "You are an Elite Solutions Architect. Output ONLY a valid JSON object matching the provided schema.",
+      messages: [{
+        role: 'user',
+        text: `Build a production-grade automation workflow for ${platform} based on these requirements: ${description}. Use Google Search to verify the latest API endpoints. For logic and data-shaping steps, include an "operation" (map, transform, filter or branch) using dot paths into the trigger payload. Express control flow as a step graph: set "next" to successor step ids on every step (empty for terminal steps), use "branches" for conditional paths, "parallel" with several "next" ids for fan-out, "join" on the step that waits for parallel paths, "loop" for iteration and "onError" for the handler step of external calls.${connectionsPrompt(options.connections || [])}`
+      }],
+      schemaName: 'automation_blueprint',
+      schema: automationSchema,
+      thinkingBudget: 8000,
+      search: true,
+      signal: options.signal,
+      onUsage,
+      onThought: (thought) => {
+        progress.thought = thought;
+        report();
+      },
+      onGrounding: () => {
+        if (progress.phase === 'reasoning') progress.phase = 'grounding';
+        report();
+      },
+      onText: (text) => {
+        progress.stepTitles = scanPartialSteps(text);
+        progress.phase = progress.stepTitles.length > 0 ? 'steps' : 'drafting';
+        report();
       }
-    };
-
-    const response = await ai.models.generateContent(params);
-    const text = response.text;
-    if (!text) throw new Error("The AI returned an empty response.");
-    
-    const parsed = JSON.parse(text.trim()) as AutomationResult;
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
-      ?.filter(chunk => chunk.web)
-      .map(chunk => ({
-        title: chunk.web?.title || "Reference Source",
-        uri: chunk.web?.uri || ""
-      })) || [];
-
-    return { ...parsed, sources };
+    }, checkBlueprint);
+
+    return { ...data, sources };
+  }, options.signal);
+};
+
+export const refineAutomation = async (automation: AutomationResult, instruction: string): Promise<AutomationResult> => {
+  return callProvider('refine', 'reasoning', async (onUsage) => {
+    const { sources, ...current } = automation;
+    const result = await generateValidJson<AutomationResult>(getProvider(), {
+      role: 'reasoning',
+      systemInstruction: "You are an Elite Solutions Architect refining an existing blueprint. Output ONLY a valid JSON object matching the provided schema.",
+      messages: [{
+        role: 'user',
+        text: `Revise this existing ${automation.platform} automation blueprint according to the instruction.
+      Current Blueprint: ${JSON.stringify(current)}
+      Instruction: ${instruction}
+
+      Keep the ids of steps you leave in place or modify, and give new steps ids greater than every existing id. Only change what the instruction requires, and keep "next", "branches", "loop", "onError" and "connection" references consistent with the revised step list, listing every connection used in "connections". Never introduce secret values; read credentials through connection("<name>") in the snippet. Use Google Search to verify any newly introduced API endpoints.`
+      }],
+      schemaName: 'automation_blueprint',
+      schema: automationSchema,
+      thinkingBudget: 4000,
+      search: true,
+      onUsage
+    }, checkBlueprint);
+
+    return { ...result.data, sources: result.sources.length > 0 ? result.sources : sources };
   });
 };
 
-export const simulateAutomation = async (automation: AutomationResult, inputData: string): Promise<SimulationResponse> => {
-  return callGemini(async () => {
-    const ai = getAiClient();
-    const result = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Simulate the following ${automation.platform} automation:
+/**
+ * `stepInputs` gives the data each step actually receives, keyed by step id, when earlier
+ * steps have already been run elsewhere and `inputData` is only the original trigger payload.
+ */
+export const simulateAutomation = async (
+  automation: AutomationResult,
+  inputData: string,
+  mocks: MockResponse[] = [],
+  stepInputs?: Record<number, unknown>
+): Promise<SimulationResponse> => {
+  return callProvider('simulate', 'fast', async (onUsage) => {
+    const { data } = await generateValidJson<SimulationResponse>(getProvider(), {
+      role: 'fast',
+      systemInstruction: "You are a Logic Simulation Engine. Analyze the input data against the automation steps and provide a step-by-step trace of execution. Return ONLY JSON.",
+      messages: [{
+        role: 'user',
+        text: `Simulate the following ${automation.platform} automation:
       Steps: ${JSON.stringify(automation.steps)}
       Input Data: ${inputData}
       
-      Determine how each step processes this data. Be realistic about API behaviors and logical branches.`,
-      config: {
-        systemInstruction: "You are a Logic Simulation Engine. Analyze the input data against the automation steps and provide a step-by-step trace of execution. Return ONLY JSON.",
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            overallStatus: { type: Type.STRING, enum: ['success', 'failure'] },
-            summary: { type: Type.STRING },
-            stepResults: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  stepId: { type: Type.INTEGER },
-                  status: { type: Type.STRING, enum: ['success', 'failure', 'skipped'] },
-                  output: { type: Type.STRING },
-                  reasoning: { type: Type.STRING }
-                },
-                required: ["stepId", "status", "output", "reasoning"]
-              }
-            }
-          },
-          required: ["overallStatus", "summary", "stepResults"]
-        }
-      }
-    });
-
-    const text = result.text;
-    if (!text) throw new Error("Simulation failed to generate output.");
-    return JSON.parse(text.trim()) as SimulationResponse;
+      Determine how each step processes this data. Be realistic about API behaviors and logical branches.${stepInputs ? `
+      Earlier steps have already run, so each step receives exactly the input listed under its step id instead: ${JSON.stringify(stepInputs)}` : ''}${mockResponsesPrompt(mocks)}`
+      }],
+      schemaName: 'simulation_trace',
+      schema: simulationSchema,
+      onUsage
+    }, checkSimulation(automation.steps));
+    return data;
   });
 };
 
-export const chatWithAssistant = async (message: string): Promise<string> => {
-  return callGemini(async () => {
-    const ai = getAiClient();
-    const result = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: message,
-      config: {
-        systemInstruction: "You are an AI automation expert. Provide concise, actionable advice for Zapier, n8n, and custom scripts."
-      }
+export interface ChatOptions extends StreamOptions {
+  // Receives the full reply accumulated so far, so a retried stream simply starts over
+  onText?: (text: string) => void;
+}
+
+export const chatWithAssistant = async (
+  message: string,
+  history: ChatMessage[] = [],
+  summary?: string,
+  options: ChatOptions = {}
+): Promise<string> => {
+  return callProvider('chat', 'fast', async (onUsage) => {
+    const systemInstruction = "You are an AI automation expert. Provide concise, actionable advice for Zapier, n8n, and custom scripts."
+      + (summary ? `\n\nSummary of the earlier conversation: ${summary}` : "");
+    const text = await getProvider().generateText({
+      role: 'fast',
+      operation: 'chat',
+      systemInstruction,
+      messages: [
+        ...history.map(msg => ({ role: msg.role, text: msg.content })),
+        { role: 'user', text: message }
+      ],
+      signal: options.signal,
+      onText: options.onText,
+      onUsage
     });
-    return result.text || "I'm sorry, I couldn't generate a response.";
-  });
+    return text || "I'm sorry, I couldn't generate a response.";
+  }, options.signal);
 };
 
-export const analyzeImage = async (base64Data: string, prompt: string, mimeType: string = 'image/jpeg'): Promise<string> => {
-  return callGemini(async () => {
-    const ai = getAiClient();
-    const result = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: {
-        parts: [
-          { inlineData: { mimeType, data: base64Data } },
-          { text: prompt }
-        ]
-      }
+export const summarizeConversation = async (messages: ChatMessage[], previousSummary?: string): Promise<string> => {
+  return callProvider('chat_summary', 'fast', async (onUsage) => {
+    const transcript = messages.map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`).join('\n');
+    const result = await getProvider().generateText({
+      role: 'fast',
+      operation: 'chat_summary',
+      systemInstruction: "You condense chat transcripts into a short factual summary of at most 150 words. Return ONLY the summary text.",
+      messages: [{
+        role: 'user',
+        text: `${previousSummary ? `Existing summary: ${previousSummary}\n\n` : ''}New turns:\n${transcript}
+
+      Merge these into a single summary of the conversation so far. Keep platforms, services, requirements and decisions the user stated; drop pleasantries.`
+      }],
+      onUsage
     });
-    return result.text || "I couldn't analyze the image.";
+    const text = result.trim();
+    if (!text) throw new AiServiceError('invalid_response', "Conversation summary came back empty.");
+    return text;
   });
 };
 
-export const generateSpeech = async (text: string, voiceName: string): Promise<string | undefined> => {
-  return callGemini(async () => {
-    const ai = getAiClient();
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName },
-          },
-        },
-      },
-    });
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+export const analyzeImage = async (base64Data: string, prompt: string, mimeType: string = 'image/jpeg'): Promise<string> => {
+  return callProvider('vision', 'vision', async (onUsage) => {
+    const result = await getProvider().analyzeImage({ prompt, image: { data: base64Data, mimeType }, onUsage });
+    return result || "I couldn't analyze the image.";
   });
 };
 
-export function encode(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-export function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-export async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
+export const generateSpeech = async (text: string, voiceName: string): Promise<string | undefined> => {
+  return callProvider('speech', 'speech', (onUsage) => getProvider().synthesizeSpeech({ text, voice: voiceName, onUsage }));
+};
 
-export const connectToLiveArchitect = (callbacks: {
-  onopen: () => void;
-  onmessage: (message: LiveServerMessage) => void;
-  onerror: (e: ErrorEvent) => void;
-  onclose: (e: CloseEvent) => void;
-}) => {
-  const ai = getAiClient();
-  return ai.live.connect({
-    model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-    callbacks,
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-      },
-      systemInstruction: 'You are an Elite Automation Architect. Help the user design complex API automations. Use a professional, tech-savvy voice.',
-    },
+export const connectToLiveArchitect = (callbacks: LiveCallbacks): Promise<LiveSession> => {
+  return getProvider().connectLive({
+    voice: 'Zephyr',
+    systemInstruction: 'You are an Elite Automation Architect. Help the user design complex API automations. Use a professional, tech-savvy voice.',
+    callbacks
+  }).catch((err) => {
+    throw classifyError(err);
   });
 };
@@ -0,0 +1,123 @@
+
+const DB_NAME = 'automation-architect';
+const DB_VERSION = 5;
+
+export const BLUEPRINT_STORE = 'blueprints';
+export const VERSION_STORE = 'blueprintVersions';
+export const CHAT_SESSION_STORE = 'chatSessions';
+export const FIXTURE_STORE = 'aiFixtures';
+export const USAGE_STORE = 'usageRecords';
+export const TEST_SUITE_STORE = 'testSuites';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the shared local database, creating any stores added since the user's last visit.
+ */
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error("Local storage unavailable: this browser does not support IndexedDB."));
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(BLUEPRINT_STORE)) {
+        db.createObjectStore(BLUEPRINT_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(VERSION_STORE)) {
+        const versions = db.createObjectStore(VERSION_STORE, { keyPath: 'id' });
+        versions.createIndex('blueprintId', 'blueprintId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(CHAT_SESSION_STORE)) {
+        db.createObjectStore(CHAT_SESSION_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(FIXTURE_STORE)) {
+        const fixtures = db.createObjectStore(FIXTURE_STORE, { keyPath: 'id' });
+        fixtures.createIndex('operation', 'operation', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(USAGE_STORE)) {
+        const usage = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+        usage.createIndex('startedAt', 'startedAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(TEST_SUITE_STORE)) {
+        db.createObjectStore(TEST_SUITE_STORE, { keyPath: 'blueprintId' });
+      }
+    };
+    // Another tab still holds the previous version open, so the upgrade cannot start
+    let blocked = false;
+    request.onblocked = () => {
+      blocked = true;
+      dbPromise = null;
+      reject(new Error("Local database upgrade is blocked: close other tabs of this app and reload."));
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Callers have already been told to reload, and the next openDb starts afresh
+      if (blocked) {
+        db.close();
+        return;
+      }
+      // Step aside when a newer version of the app opens the database in another tab
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(new Error(`Local database failed to open: ${request.error?.message || 'unknown error'}`));
+    };
+  });
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Local database transaction aborted."));
+  });
+
+export interface WriteStatus {
+  // Message of the latest failed write, or null once a later write succeeds
+  failure: () => string | null;
+  subscribe: (listener: (failure: string | null) => void) => () => void;
+  // Follows a background write without ever rejecting, so it cannot fail the work it records
+  track: (write: Promise<unknown>, fallback: string) => void;
+}
+
+/**
+ * Keeps the outcome of fire-and-forget writes, such as fixture recording and usage metering,
+ * where the view that shows the stored data can report that it has stopped being saved.
+ */
+export const createWriteStatus = (): WriteStatus => {
+  let failure: string | null = null;
+  const listeners = new Set<(failure: string | null) => void>();
+  const settle = (next: string | null) => {
+    if (next === failure) return;
+    failure = next;
+    listeners.forEach(listener => listener(next));
+  };
+  return {
+    failure: () => failure,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    track: (write, fallback) => {
+      write.then(() => settle(null), (err: any) => settle(err?.message || fallback));
+    }
+  };
+};
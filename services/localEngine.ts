@@ -0,0 +1,458 @@
+
+import { simulateAutomation } from "./geminiService";
+import { AiServiceError } from "./aiErrors";
+import { detectLanguage } from "./snippetLanguage";
+import { isRunnableLanguage, runSnippet } from "./snippetSandbox";
+import { checkMockConnection, describeMockResponse, matchMockStep, rollMockResponses } from "./mockHttp";
+import {
+  AutomationResult,
+  AutomationStep,
+  FieldMapping,
+  Json,
+  MockEndpoint,
+  MockResponse,
+  SimulationResponse,
+  SimulationStepResult,
+  StepCondition,
+  TransformFn
+} from "../types";
+
+const TRIGGER_ROOT = '$trigger';
+
+const clone = <T>(value: T): T => value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+// Keys that would let a blueprint path reach Object.prototype instead of the payload
+const RESERVED_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+const tokenizePath = (path: string): (string | number)[] => {
+  const tokens = path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean)
+    .map(part => /^\d+$/.test(part) ? Number(part) : part);
+  const reserved = tokens.find(token => typeof token === 'string' && RESERVED_KEYS.has(token));
+  if (reserved !== undefined) throw new Error(`Path "${path}" uses the reserved key "${reserved}".`);
+  return tokens;
+};
+
+export const isSafePath = (path: string) => {
+  try {
+    tokenizePath(path);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+type JsonContainer = Json[] | { [key: string]: Json };
+
+const isContainer = (value: Json | undefined): value is JsonContainer => value !== null && typeof value === 'object';
+
+// Only own properties are followed, so inherited members never resolve as data
+const childOf = (value: Json | undefined, token: string | number): Json | undefined => {
+  if (typeof value === 'string' || Array.isArray(value)) {
+    if (token === 'length') return value.length;
+    return typeof token === 'number' ? value[token] : undefined;
+  }
+  return isContainer(value) && Object.hasOwn(value, token) ? value[token] : undefined;
+};
+
+export const readPath = (data: Json | undefined, path: string, trigger?: Json): Json | undefined => {
+  const tokens = tokenizePath(path);
+  let current = data;
+  if (tokens[0] === TRIGGER_ROOT) {
+    current = trigger;
+    tokens.shift();
+  }
+  for (const token of tokens) {
+    current = childOf(current, token);
+    if (current === undefined) return undefined;
+  }
+  return current;
+};
+
+// An undefined value leaves the field out, as serializing the data would
+const setChild = (container: JsonContainer, token: string | number, value: Json | undefined) => {
+  if (Array.isArray(container)) {
+    if (typeof token !== 'number') throw new Error(`Cannot set "${token}" on a list; use an index such as [0].`);
+    container[token] = value ?? null;
+  } else if (value === undefined) {
+    delete container[token];
+  } else {
+    container[token] = value;
+  }
+};
+
+export const writePath = (data: Json, path: string, value: Json | undefined): void => {
+  const tokens = tokenizePath(path);
+  let current = data;
+  tokens.forEach((token, idx) => {
+    if (!isContainer(current)) throw new Error(`Cannot write "${path}": its parent is not an object.`);
+    if (idx === tokens.length - 1) {
+      setChild(current, token, value);
+      return;
+    }
+    let child = childOf(current, token);
+    if (!isContainer(child)) {
+      child = typeof tokens[idx + 1] === 'number' ? [] : {};
+      setChild(current, token, child);
+    }
+    current = child;
+  });
+};
+
+const toNumber = (value: Json | undefined): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+};
+
+const TRANSFORMS: Record<TransformFn, (value: Json | undefined) => Json> = {
+  uppercase: value => String(value ?? '').toUpperCase(),
+  lowercase: value => String(value ?? '').toLowerCase(),
+  trim: value => String(value ?? '').trim(),
+  to_number: value => toNumber(value),
+  to_string: value => value === undefined || value === null ? '' : String(value),
+  to_boolean: value => value === 'false' ? false : Boolean(value),
+  round: value => toNumber(value) === null ? null : Math.round(toNumber(value)!),
+  abs: value => toNumber(value) === null ? null : Math.abs(toNumber(value)!),
+  length: value => Array.isArray(value) || typeof value === 'string' ? value.length : value && typeof value === 'object' ? Object.keys(value).length : 0,
+  cents_to_units: value => toNumber(value) === null ? null : toNumber(value)! / 100,
+  units_to_cents: value => toNumber(value) === null ? null : Math.round(toNumber(value)! * 100),
+  iso_date: value => {
+    if (typeof value !== 'number' && typeof value !== 'string') return null;
+    const date = new Date(typeof value === 'number' && value < 1e12 ? value * 1000 : value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  },
+  json: value => JSON.stringify(value)
+};
+
+const renderTemplate = (template: string, data: Json, trigger: Json) =>
+  template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, path) => {
+    const resolved = readPath(data, path, trigger);
+    if (resolved === undefined || resolved === null) return '';
+    return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+  });
+
+const resolveMapping = (mapping: FieldMapping, data: Json, trigger: Json): Json => {
+  let value: Json;
+  if (mapping.template !== undefined) value = renderTemplate(mapping.template, data, trigger);
+  else if (mapping.source !== undefined) value = clone(readPath(data, mapping.source, trigger));
+  else value = mapping.value ?? null;
+
+  if (mapping.transform) {
+    const fn = TRANSFORMS[mapping.transform];
+    if (!fn) throw new Error(`Unknown transform "${mapping.transform}" on field "${mapping.target}".`);
+    value = fn(value);
+  }
+  return value;
+};
+
+const compare = (condition: StepCondition, data: Json, trigger: Json): boolean => {
+  const actual = readPath(data, condition.field, trigger);
+  const expected = condition.value;
+  const actualNum = toNumber(actual);
+  const expectedNum = toNumber(expected);
+  const numeric = actualNum !== null && expectedNum !== null;
+
+  switch (condition.operator) {
+    case 'exists': return actual !== undefined && actual !== null && actual !== '';
+    case 'not_exists': return actual === undefined || actual === null || actual === '';
+    case 'equals': return numeric ? actualNum === expectedNum : String(actual) === String(expected);
+    case 'not_equals': return numeric ? actualNum !== expectedNum : String(actual) !== String(expected);
+    case 'gt': return numeric && actualNum! > expectedNum!;
+    case 'gte': return numeric && actualNum! >= expectedNum!;
+    case 'lt': return numeric && actualNum! < expectedNum!;
+    case 'lte': return numeric && actualNum! <= expectedNum!;
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.some(item => String(item) === String(expected))
+        : String(actual ?? '').toLowerCase().includes(String(expected ?? '').toLowerCase());
+    case 'not_contains':
+      return !compare({ ...condition, operator: 'contains' }, data, trigger);
+    case 'matches':
+      return new RegExp(String(expected ?? '')).test(String(actual ?? ''));
+    default:
+      throw new Error(`Unknown operator "${(condition as StepCondition).operator}" on field "${condition.field}".`);
+  }
+};
+
+const describeCondition = (condition: StepCondition) =>
+  `${condition.field} ${condition.operator}${condition.value !== undefined ? ` ${JSON.stringify(condition.value)}` : ''}`;
+
+export const isLocallyEvaluable = (step: AutomationStep) =>
+  step.type === 'trigger' || !!step.operation;
+
+export interface LocalRunResult {
+  response: SimulationResponse;
+  // Steps with no structured operation, in execution order, with the data they would have received
+  pending: { stepId: number; input: Json }[];
+}
+
+const mockedStepResult = (step: AutomationStep, matched: MockResponse): SimulationStepResult => {
+  const { response: mock, error } = matched.timedOut ? { response: matched, error: undefined } : checkMockConnection(matched, step.connection ? [step.connection] : []);
+  const failed = mock.timedOut || mock.status >= 400;
+  return {
+    stepId: step.id,
+    status: failed ? 'failure' : 'success',
+    output: mock.body,
+    reasoning: `Mocked API call: ${error ? `${error} ` : ''}${describeMockResponse(mock)}`,
+    engine: 'mock'
+  };
+};
+
+export interface LocalRunState {
+  // Index into automation.steps of the next step to execute
+  index: number;
+  trigger: Json;
+  data: Json;
+  // Step id -> why it will be skipped
+  skipped: Record<number, string>;
+  failed: boolean;
+  results: SimulationStepResult[];
+  pending: LocalRunResult['pending'];
+}
+
+export const createRunState = (payload: Json): LocalRunState => ({
+  index: 0,
+  trigger: clone(payload),
+  data: clone(payload),
+  skipped: {},
+  failed: false,
+  results: [],
+  pending: []
+});
+
+export const cloneRunState = (state: LocalRunState): LocalRunState => clone(state);
+
+/**
+ * Why an error handler step should not run: the trace follows the step list rather than the
+ * onError edges, so a handler is only executed once a step it handles has failed, or is still
+ * awaiting an estimate and so might have. Null for ordinary steps and handlers that may run.
+ */
+const unusedHandlerReason = (automation: AutomationResult, state: LocalRunState, step: AutomationStep): string | null => {
+  const handled = automation.steps.filter(source => source.onError === step.id);
+  if (handled.length === 0) return null;
+  const mayHaveFailed = handled.some(source =>
+    state.results.some(result => result.stepId === source.id && result.status === 'failure')
+    || state.pending.some(pending => pending.stepId === source.id)
+  );
+  return mayHaveFailed ? null : `Error handler for step ${handled.map(source => source.id).join(', ')}, which did not fail.`;
+};
+
+/**
+ * Executes the step at `state.index`, advancing the state in place, and returns its result.
+ * `runLocalSimulation` loops over this; the debugger calls it one step at a time.
+ */
+export const runStep = (automation: AutomationResult, state: LocalRunState, mocks: MockResponse[] = []): SimulationStepResult => {
+  const step = automation.steps[state.index++];
+  const base = { stepId: step.id, engine: 'local' as const };
+  const finish = (result: SimulationStepResult) => {
+    state.results.push(result);
+    return result;
+  };
+
+  if (state.failed) {
+    return finish({ ...base, status: 'skipped', output: '', reasoning: 'Not executed because an earlier step failed.' });
+  }
+  if (state.skipped[step.id] !== undefined) {
+    return finish({ ...base, status: 'skipped', output: '', reasoning: state.skipped[step.id] });
+  }
+  const unusedHandler = unusedHandlerReason(automation, state, step);
+  if (unusedHandler) {
+    return finish({ ...base, status: 'skipped', output: '', reasoning: unusedHandler });
+  }
+  if (step.type === 'trigger') {
+    return finish({ ...base, status: 'success', output: JSON.stringify(state.data, null, 2), reasoning: 'Trigger received the mock payload.' });
+  }
+  const mock = step.type === 'action' && !step.operation ? matchMockStep(mocks, step) : undefined;
+  if (mock) {
+    // Calls leave the working data untouched; a failure only halts the run when nothing handles it
+    const result = mockedStepResult(step, mock);
+    if (result.status === 'failure' && step.onError === undefined) state.failed = true;
+    return finish(result);
+  }
+  if (!step.operation) {
+    state.pending.push({ stepId: step.id, input: clone(state.data) });
+    return finish({ ...base, status: 'skipped', output: '', reasoning: 'No structured operation; awaiting model estimate.' });
+  }
+
+  const { data, trigger } = state;
+  const op = step.operation;
+  try {
+    if (op.kind === 'map' || op.kind === 'transform') {
+      const mappings = op.mappings || [];
+      const next = clone(data && typeof data === 'object' ? data : {});
+      mappings.forEach(mapping => {
+        // A bare transform mapping rewrites its own target in place
+        const inPlace = op.kind === 'transform' && mapping.source === undefined && mapping.template === undefined && mapping.value === undefined;
+        writePath(next, mapping.target, resolveMapping(inPlace ? { ...mapping, source: mapping.target } : mapping, data, trigger));
+      });
+      state.data = next;
+      return finish({
+        ...base,
+        status: 'success',
+        output: JSON.stringify(next, null, 2),
+        reasoning: `${op.kind === 'map' ? 'Mapped' : 'Transformed'} ${mappings.length} field(s): ${mappings.map(m => m.target).join(', ') || 'none'}.`
+      });
+    }
+
+    const conditions = op.conditions || [];
+    const outcomes = conditions.map(condition => compare(condition, data, trigger));
+    const passed = conditions.length === 0 || (op.match === 'any' ? outcomes.some(Boolean) : outcomes.every(Boolean));
+    const evaluated = conditions.map((c, i) => `${describeCondition(c)} → ${outcomes[i]}`).join('; ') || 'no conditions';
+
+    if (op.kind === 'filter') {
+      if (!passed) {
+        automation.steps
+          .filter(later => later.id !== step.id && !state.results.some(r => r.stepId === later.id))
+          .forEach(later => { state.skipped[later.id] = `Halted by filter "${step.title}".`; });
+      }
+      return finish({ ...base, status: 'success', output: JSON.stringify({ passed }), reasoning: `Filter ${passed ? 'passed' : 'halted the run'}: ${evaluated}.` });
+    }
+
+    const toSkip = passed ? op.skipWhenTrue || [] : op.skipWhenFalse || [];
+    toSkip.forEach(id => { state.skipped[id] = `Branch "${step.title}" took the ${passed ? 'true' : 'false'} path.`; });
+    return finish({ ...base, status: 'success', output: JSON.stringify({ branch: passed }), reasoning: `Branch evaluated ${passed}: ${evaluated}.` });
+  } catch (err: any) {
+    state.failed = true;
+    return finish({ ...base, status: 'failure', output: '', reasoning: err.message || 'Step evaluation failed.' });
+  }
+};
+
+/**
+ * Executes every step with a structured operation against the payload, and answers action steps
+ * that name a mocked service from `mocks`. Steps without either are reported in `pending` so the
+ * caller can decide how to estimate them.
+ */
+export const runLocalSimulation = (automation: AutomationResult, payload: Json, mocks: MockResponse[] = []): LocalRunResult => {
+  const state = createRunState(payload);
+  while (state.index < automation.steps.length) runStep(automation, state, mocks);
+  const { results, pending } = state;
+
+  const overallStatus = results.some(r => r.status === 'failure') ? 'failure' : 'success';
+  const executed = results.filter(r => r.status !== 'skipped').length;
+  return {
+    response: {
+      overallStatus,
+      stepResults: results,
+      summary: `Local engine executed ${executed} of ${automation.steps.length} step(s) deterministically${pending.length ? `; ${pending.length} step(s) need a model estimate` : ''}.`
+    },
+    pending
+  };
+};
+
+// Matches the step that runs the blueprint's code snippet, e.g. "Code by Zapier: Normalize Order"
+const CODE_STEP_PATTERN = /\b(code|script|function|javascript|typescript|snippet)\b/i;
+
+// Trace id for a snippet no step claims; generated step ids start at 1
+export const SNIPPET_STEP_ID = 0;
+
+export const findCodeStep = (automation: AutomationResult): AutomationStep | undefined =>
+  automation.steps.find(step => step.type !== 'trigger' && !step.operation && CODE_STEP_PATTERN.test(`${step.title} ${step.description}`));
+
+/**
+ * Executes the blueprint's JavaScript or TypeScript snippet in the sandbox worker, as the step
+ * whose title says it runs code, or as a standalone trace entry when no step does. Returns null
+ * when there is nothing runnable or the code step never received data.
+ */
+const runBlueprintSnippet = async (
+  automation: AutomationResult,
+  payload: Json,
+  local: LocalRunResult,
+  mocks: MockResponse[]
+): Promise<SimulationStepResult | null> => {
+  const code = automation.codeSnippet;
+  const language = code ? detectLanguage(code) : 'text';
+  if (!code || !isRunnableLanguage(language) || local.response.overallStatus === 'failure') return null;
+
+  const codeStep = findCodeStep(automation);
+  const received = codeStep && local.pending.find(p => p.stepId === codeStep.id);
+  if (codeStep && !received) return null;
+
+  const execution = await runSnippet(code, language, received ? received.input : payload, mocks);
+  const failed = execution.timedOut || execution.error !== undefined;
+  return {
+    stepId: codeStep ? codeStep.id : SNIPPET_STEP_ID,
+    status: failed ? 'failure' : 'success',
+    output: execution.returnValue ?? '',
+    reasoning: failed
+      ? `Code snippet failed in the sandbox: ${execution.error}`
+      : `Code snippet ran in the sandbox in ${execution.durationMs}ms${execution.returnValue === undefined ? ' and returned nothing' : ''}.`,
+    engine: 'sandbox',
+    execution
+  };
+};
+
+const withStatus = (stepResults: SimulationStepResult[], summary: string): SimulationResponse => ({
+  overallStatus: stepResults.some(r => r.status === 'failure') ? 'failure' : 'success',
+  stepResults,
+  summary
+});
+
+/**
+ * Whether `simulateHybrid` would ask the model about `payload`: some step is left after the
+ * local engine and the runnable code snippet. Mock failures are rolled afresh, so this is an
+ * estimate for confirming batch runs rather than a promise.
+ */
+export const needsModelEstimate = (automation: AutomationResult, payload: Json, endpoints: MockEndpoint[] = []): boolean => {
+  const local = runLocalSimulation(automation, payload, rollMockResponses(endpoints));
+  const code = automation.codeSnippet;
+  const codeStepId = code && isRunnableLanguage(detectLanguage(code)) ? findCodeStep(automation)?.id : undefined;
+  return local.pending.some(p => p.stepId !== codeStepId);
+};
+
+/**
+ * Runs the local engine first, executes the blueprint's code snippet in the sandbox, and only
+ * asks the model about steps neither could evaluate, feeding each one the data it would
+ * actually have received. Mock endpoint failures are rolled once and shared by all three.
+ */
+export const simulateHybrid = async (
+  automation: AutomationResult,
+  inputData: string,
+  endpoints: MockEndpoint[] = []
+): Promise<SimulationResponse> => {
+  let payload: Json;
+  try {
+    payload = JSON.parse(inputData);
+  } catch (e: any) {
+    throw new AiServiceError('invalid_input', `Mock Payload is not valid JSON: ${e.message}`);
+  }
+
+  const mocks = rollMockResponses(endpoints);
+  const local = runLocalSimulation(automation, payload, mocks);
+  const snippetResult = await runBlueprintSnippet(automation, payload, local, mocks);
+  const localResults = local.response.stepResults.map(result => result.stepId === snippetResult?.stepId ? snippetResult : result);
+  if (snippetResult?.stepId === SNIPPET_STEP_ID) localResults.push(snippetResult);
+  const localSummary = snippetResult
+    ? `${local.response.summary} The code snippet ${snippetResult.status === 'success' ? 'ran' : 'failed'} in the sandbox.`
+    : local.response.summary;
+
+  const pending = local.pending.filter(p => p.stepId !== snippetResult?.stepId);
+  if (pending.length === 0) return withStatus(localResults, localSummary);
+
+  const pendingIds = new Set(pending.map(p => p.stepId));
+  let estimate: SimulationResponse;
+  try {
+    estimate = await simulateAutomation(
+      { ...automation, steps: automation.steps.filter(step => pendingIds.has(step.id)) },
+      JSON.stringify(payload, null, 2),
+      mocks,
+      Object.fromEntries(pending.map(p => [p.stepId, p.input]))
+    );
+  } catch (err: any) {
+    // The deterministic trace is still worth showing, but the steps it left over did not run
+    const failed = localResults.map(result => pendingIds.has(result.stepId)
+      ? { ...result, status: 'failure' as const, output: '', reasoning: `Model estimate failed: ${err.message}` }
+      : result);
+    return withStatus(failed, `${localSummary} Model fallback unavailable: ${err.message}`);
+  }
+  const estimates = new Map(estimate.stepResults.map(r => [r.stepId, r]));
+
+  const stepResults = localResults.map(result => {
+    const modelResult = pendingIds.has(result.stepId) ? estimates.get(result.stepId) : undefined;
+    return modelResult ? { ...modelResult, engine: 'model' as const } : result;
+  });
+
+  return withStatus(stepResults, `${localSummary} Model estimate: ${estimate.summary}`);
+};
@@ -0,0 +1,145 @@
+
+import { AutomationStep, MockEndpoint, MockFailureMode, MockResponse } from "../types";
+
+const ENDPOINTS_KEY = 'automation-architect:mock-endpoints';
+
+export const FAILURE_MODES: { id: MockFailureMode; label: string }[] = [
+  { id: 'none', label: 'No failure' },
+  { id: 'rate_limit', label: '429 Rate limit' },
+  { id: 'server_error', label: '500 Server error' },
+  { id: 'timeout', label: 'Timeout' }
+];
+
+const endpoint = (service: string, method: string, route: string, body: unknown): MockEndpoint => ({
+  id: `mock-${service.toLowerCase().replace(/\W+/g, '-')}-${route.replace(/\W+/g, '-')}`,
+  service,
+  method,
+  route,
+  status: 200,
+  body: JSON.stringify(body, null, 2),
+  latencyMs: 120,
+  failure: 'none',
+  failureRate: 1,
+  enabled: true
+});
+
+export const DEFAULT_MOCK_ENDPOINTS: MockEndpoint[] = [
+  endpoint('Slack', 'POST', 'slack.com/api/chat.postMessage', { ok: true, channel: 'C0123456', ts: '1700000000.000100' }),
+  endpoint('Airtable', 'ANY', 'api.airtable.com/v0/', { id: 'rec8Xk2mQ1', createdTime: '2024-01-01T00:00:00.000Z', fields: {} }),
+  endpoint('Shopify', 'ANY', 'myshopify.com/admin/api/', { order: { id: 450789469, financial_status: 'paid', total_price: '199.00' } }),
+  endpoint('Google Sheets', 'ANY', 'sheets.googleapis.com/v4/spreadsheets', { spreadsheetId: '1BxiMVs0XRA5nFMdKvBdBZjgmUUqptlbs74OgvE2upms', updates: { updatedRows: 1 } }),
+  endpoint('Stripe', 'ANY', 'api.stripe.com/v1/', { id: 'ch_3MmlLrLkdIwHu7ix0snN0B15', object: 'charge', status: 'succeeded' }),
+  endpoint('HubSpot', 'ANY', 'api.hubapi.com/crm/v3/', { id: '512', properties: { email: 'jane@example.com' } })
+];
+
+export const createMockEndpoint = (): MockEndpoint => ({
+  ...endpoint('New Service', 'GET', 'api.example.com/', { ok: true }),
+  id: `mock-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+});
+
+export const loadMockEndpoints = (): MockEndpoint[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ENDPOINTS_KEY) || 'null') as MockEndpoint[] | null;
+    return Array.isArray(stored) ? stored : DEFAULT_MOCK_ENDPOINTS;
+  } catch {
+    return DEFAULT_MOCK_ENDPOINTS;
+  }
+};
+
+export const saveMockEndpoints = (endpoints: MockEndpoint[]) => {
+  localStorage.setItem(ENDPOINTS_KEY, JSON.stringify(endpoints));
+};
+
+const FAILURE_RESPONSES: Record<Exclude<MockFailureMode, 'none' | 'timeout'>, { status: number; body: unknown; headers: Record<string, string> }> = {
+  rate_limit: { status: 429, body: { error: 'rate_limited', message: 'Too many requests. Retry later.' }, headers: { 'Retry-After': '30' } },
+  server_error: { status: 500, body: { error: 'internal_error', message: 'The service encountered an unexpected error.' }, headers: {} }
+};
+
+const contentType = (body: string) => {
+  try {
+    JSON.parse(body);
+    return 'application/json';
+  } catch {
+    return 'text/plain';
+  }
+};
+
+/**
+ * Decides each enabled endpoint's outcome for one run, rolling its failure rate once so the
+ * local engine, the sandbox worker and the model prompt all see the same responses.
+ */
+export const rollMockResponses = (endpoints: MockEndpoint[], random: () => number = Math.random): MockResponse[] =>
+  endpoints.filter(mock => mock.enabled).map(mock => {
+    const injected = mock.failure !== 'none' && random() < mock.failureRate;
+    const base = { endpoint: mock, latencyMs: mock.latencyMs, injected };
+    if (!injected) {
+      return { ...base, status: mock.status, body: mock.body, headers: { 'Content-Type': contentType(mock.body) }, timedOut: false };
+    }
+    if (mock.failure === 'timeout') {
+      return { ...base, status: 0, body: '', headers: {}, timedOut: true };
+    }
+    const failure = FAILURE_RESPONSES[mock.failure];
+    return {
+      ...base,
+      status: failure.status,
+      body: JSON.stringify(failure.body),
+      headers: { 'Content-Type': 'application/json', ...failure.headers },
+      timedOut: false
+    };
+  });
+
+export const matchMockRequest = (responses: MockResponse[], method: string, url: string): MockResponse | undefined =>
+  responses.find(({ endpoint: mock }) =>
+    (mock.method === 'ANY' || mock.method.toUpperCase() === method.toUpperCase()) && url.includes(mock.route)
+  );
+
+// An action step uses the endpoint whose service it names, e.g. "Slack: Send Channel Message"
+export const matchMockStep = (responses: MockResponse[], step: AutomationStep): MockResponse | undefined => {
+  const text = `${step.title} ${step.description}`.toLowerCase();
+  return responses.find(({ endpoint: mock }) => mock.service.trim() && text.includes(mock.service.toLowerCase()));
+};
+
+// Stand-in for a secret value inside the sandbox, so requests show which connection they used
+export const connectionSentinel = (name: string, field: string) => `vault:${name}:${field}`;
+
+const SENTINEL = /vault:([a-z0-9][a-z0-9_-]*):/g;
+
+// Connection names whose sentinels appear in a request's URL, headers or body
+export const connectionsUsed = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(SENTINEL), match => match[1])));
+
+/**
+ * Refuses the request the way the real API would when the endpoint requires a connection
+ * and the request did not authenticate with it: 401 with no credentials, 403 with another
+ * connection's. Returns the response unchanged otherwise, and the reason when refused.
+ */
+export const checkMockConnection = (response: MockResponse, used: string[]): { response: MockResponse; error?: string } => {
+  const required = response.endpoint.connection;
+  if (!required || used.includes(required)) return { response };
+  const error = used.length === 0
+    ? `${response.endpoint.service} requires the "${required}" connection, but the request carried no credentials.`
+    : `${response.endpoint.service} requires the "${required}" connection, but the request used ${used.map(name => `"${name}"`).join(', ')}.`;
+  const status = used.length === 0 ? 401 : 403;
+  return {
+    error,
+    response: {
+      ...response,
+      status,
+      body: JSON.stringify({ error: status === 401 ? 'not_authed' : 'wrong_connection', message: error }),
+      headers: { 'Content-Type': 'application/json' },
+      timedOut: false
+    }
+  };
+};
+
+export const describeMockResponse = (response: MockResponse) =>
+  response.timedOut
+    ? `${response.endpoint.service} (${response.endpoint.method} ${response.endpoint.route}) did not respond and timed out.`
+    : `${response.endpoint.service} (${response.endpoint.method} ${response.endpoint.route}) answered ${response.status} after ${response.latencyMs}ms${response.injected ? ' (injected failure)' : ''}.`;
+
+/**
+ * Prompt section that pins the model's view of external calls to the mocked outcomes.
+ */
+export const mockResponsesPrompt = (responses: MockResponse[]) => responses.length === 0 ? '' : `
+      External APIs are mocked for this run. Any step calling one of these services must behave exactly as follows, failing the step on a 4xx/5xx status or a timeout and following its error handler if it has one:
+${responses.map(response => `      - ${describeMockResponse(response)}${response.endpoint.connection ? ` Requires the "${response.endpoint.connection}" connection: a step using another connection gets 403, one without a connection 401.` : ''}${response.timedOut ? '' : ` Body: ${response.body.replace(/\s+/g, ' ').substring(0, 400)}`}`).join('\n')}`;
@@ -0,0 +1,301 @@
+
+import { AutomationResult, FieldMapping, Json, PayloadVariant, PayloadVariantKind, StepCondition, TransformFn } from "../types";
+import { JsonSchema, validateSchema } from "./schemaValidator";
+import { isSafePath, readPath, writePath } from "./localEngine";
+
+type SchemaType = Exclude<JsonSchema['type'], any[] | undefined>;
+
+export const VARIANT_KINDS: { id: PayloadVariantKind; label: string }[] = [
+  { id: 'missing', label: 'Missing fields' },
+  { id: 'null', label: 'Nulls' },
+  { id: 'wrong_type', label: 'Wrong types' },
+  { id: 'huge_array', label: 'Huge arrays' },
+  { id: 'unicode', label: 'Unicode' },
+  { id: 'boundary', label: 'Boundary values' }
+];
+
+const MAX_VARIANTS_PER_KIND = 40;
+const HUGE_ARRAY_LENGTH = 1000;
+const UNICODE_TEXT = 'Zoë Ñúñez — 東京 🚀 مرحبا \u200b\u202eRTL';
+const UNICODE_EMAIL = 'zoë.núñez@exämple.com';
+
+const clone = <T>(value: T): T => value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+const stringFormat = (value: string): string | undefined => {
+  if (/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value)) return 'email';
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) && !isNaN(Date.parse(value))) return 'date-time';
+  if (/^https?:\/\//.test(value)) return 'uri';
+  return undefined;
+};
+
+const typesOf = (schema: JsonSchema): SchemaType[] =>
+  schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+// Array items rarely agree exactly, so properties are united and only shared ones stay required
+const mergeSchemas = (a: JsonSchema, b: JsonSchema): JsonSchema => {
+  const typesA = typesOf(a);
+  const typesB = typesOf(b);
+  if (typesA.length === 1 && typesB.length === 1 && typesA[0] === typesB[0]) {
+    if (typesA[0] === 'object') {
+      const properties = { ...a.properties };
+      Object.entries(b.properties || {}).forEach(([key, schema]) => {
+        properties[key] = properties[key] ? mergeSchemas(properties[key], schema) : schema;
+      });
+      return { type: 'object', properties, required: (a.required || []).filter(key => (b.required || []).includes(key)) };
+    }
+    if (typesA[0] === 'array') return { type: 'array', items: mergeSchemas(a.items || {}, b.items || {}) };
+    return a.format === b.format ? a : { type: typesA[0] };
+  }
+  const merged = Array.from(new Set([...typesA, ...typesB]));
+  const types = merged.includes('number') ? merged.filter(type => type !== 'integer') : merged;
+  return types.length === 1 ? { type: types[0] } : { type: types };
+};
+
+/**
+ * Describes a sample payload as JSON Schema: every key present is treated as required, array
+ * items are merged across all elements, and recognisable strings get a `format`.
+ */
+export const inferSchema = (value: Json): JsonSchema => {
+  if (value === null) return { type: 'null' };
+  if (Array.isArray(value)) {
+    return { type: 'array', items: value.length ? value.map(inferSchema).reduce(mergeSchemas) : {} };
+  }
+  switch (typeof value) {
+    case 'object':
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(value).map(([key, child]) => [key, inferSchema(child)])),
+        required: Object.keys(value)
+      };
+    case 'number': return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    case 'boolean': return { type: 'boolean' };
+    default: {
+      const format = stringFormat(String(value));
+      return format ? { type: 'string', format } : { type: 'string' };
+    }
+  }
+};
+
+const sampleString = (key: string, format?: string) => {
+  if (format === 'email' || /email/i.test(key)) return 'jane@example.com';
+  if (format === 'date-time' || /(date|time|_at$|At$)/.test(key)) return '2024-01-01T12:00:00.000Z';
+  if (format === 'uri' || /(url|link)/i.test(key)) return 'https://example.com';
+  if (/id$/i.test(key)) return `${key.replace(/_?id$/i, '').toLowerCase() || 'id'}_123`;
+  return `sample ${key}`;
+};
+
+export const sampleFromSchema = (schema: JsonSchema, key = 'value'): Json => {
+  const type = typesOf(schema).find(candidate => candidate !== 'null') ?? typesOf(schema)[0];
+  // Enum members come from JSON, so they are JSON values too
+  if (schema.enum?.length) return schema.enum[0] as Json;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([name, child]) => [name, sampleFromSchema(child, name)]));
+    case 'array': return schema.items && typesOf(schema.items).length ? [sampleFromSchema(schema.items, key)] : [];
+    case 'integer': return schema.minimum ?? 1;
+    case 'number': return schema.minimum ?? 100;
+    case 'boolean': return true;
+    case 'null': return null;
+    default: return sampleString(key, schema.format);
+  }
+};
+
+const NUMERIC_TRANSFORMS: TransformFn[] = ['to_number', 'round', 'abs', 'cents_to_units', 'units_to_cents'];
+
+const lastKey = (path: string) => path.split(/[.[\]]/).filter(Boolean).pop() || 'value';
+
+const conditionSample = (condition: StepCondition): Json => {
+  const numeric = typeof condition.value === 'number' ? condition.value : Number(condition.value);
+  if (['gt', 'gte', 'lt', 'lte'].includes(condition.operator) && isNaN(numeric)) return 100;
+  switch (condition.operator) {
+    case 'gt': return numeric + 1;
+    case 'gte': return numeric;
+    case 'lt': return numeric - 1;
+    case 'lte': return numeric;
+    case 'equals': return condition.value ?? sampleString(lastKey(condition.field));
+    case 'not_equals':
+      return typeof condition.value === 'number' ? condition.value + 1
+        : typeof condition.value === 'boolean' ? !condition.value
+        : `not ${condition.value}`;
+    case 'contains': return `sample ${condition.value ?? ''}`.trim();
+    default: return undefined;
+  }
+};
+
+const mappingSample = (mapping: FieldMapping): Json => {
+  if (!mapping.transform) return undefined;
+  if (mapping.transform === 'cents_to_units') return 1999;
+  if (NUMERIC_TRANSFORMS.includes(mapping.transform)) return 100;
+  if (mapping.transform === 'iso_date') return '2024-01-01T12:00:00.000Z';
+  if (mapping.transform === 'to_boolean') return true;
+  if (mapping.transform === 'length') return ['item'];
+  return undefined;
+};
+
+/**
+ * Reconstructs the trigger payload a blueprint expects from the fields its structured steps
+ * read: condition fields, mapping sources and template placeholders. Fields a map step wrote
+ * earlier are skipped, since they never came from the trigger. Values are chosen to satisfy
+ * the conditions where possible, so the sample takes the blueprint's main path.
+ */
+export const inferTriggerPayload = (automation: AutomationResult): { schema: JsonSchema; sample: Json; fields: number } => {
+  const samples = new Map<string, { value: Json; typed: boolean }>();
+  const written = new Set<string>();
+  const rootOf = (path: string) => path.split(/[.[]/)[0];
+
+  const read = (rawPath: string, value: Json) => {
+    let path = rawPath.trim();
+    if (path.startsWith('$trigger')) path = path.slice('$trigger'.length).replace(/^\./, '');
+    else if (written.has(rootOf(path))) return;
+    if (!path || !isSafePath(path)) return;
+    const existing = samples.get(path);
+    const typed = value !== undefined;
+    if (!existing || (!existing.typed && typed)) {
+      samples.set(path, { value: typed ? value : sampleString(lastKey(path)), typed });
+    }
+  };
+
+  automation.steps.forEach(step => {
+    const op = step.operation;
+    if (!op) return;
+    (op.conditions || []).forEach(condition => read(condition.field, conditionSample(condition)));
+    (op.mappings || []).forEach(mapping => {
+      if (mapping.source !== undefined) read(mapping.source, mappingSample(mapping));
+      if (mapping.template !== undefined) {
+        Array.from(mapping.template.matchAll(/\{\{\s*([^}]+?)\s*\}\}/g)).forEach(match => read(match[1], undefined));
+      }
+      // A bare transform rewrites a trigger field in place
+      if (op.kind === 'transform' && mapping.source === undefined && mapping.template === undefined && mapping.value === undefined) {
+        read(mapping.target, mappingSample(mapping));
+      }
+    });
+    if (op.kind === 'map') (op.mappings || []).forEach(mapping => written.add(rootOf(mapping.target)));
+  });
+
+  const sample: Json = {};
+  Array.from(samples.entries())
+    // Parents first, so a nested read replaces a placeholder rather than being overwritten by it
+    .sort(([a], [b]) => a.length - b.length)
+    .forEach(([path, { value }]) => writePath(sample, path, value));
+  return { schema: inferSchema(sample), sample, fields: samples.size };
+};
+
+interface SchemaField {
+  path: string;
+  schema: JsonSchema;
+}
+
+// Every property and array element the schema describes; array contents are represented by their first item
+const collectFields = (schema: JsonSchema, path: string, fields: SchemaField[]) => {
+  Object.entries(schema.properties || {}).forEach(([key, child]) => {
+    const childPath = path ? `${path}.${key}` : key;
+    fields.push({ path: childPath, schema: child });
+    collectFields(child, childPath, fields);
+  });
+  if (schema.items) collectFields(schema.items, `${path}[0]`, fields);
+  return fields;
+};
+
+const setAt = (payload: Json, path: string, value: Json): Json => {
+  const next = clone(payload);
+  writePath(next, path, value);
+  return next;
+};
+
+const removeAt = (payload: Json, path: string): Json => {
+  const next = clone(payload);
+  const parentPath = path.replace(/(\.[^.[\]]+|\[\d+\])$/, '');
+  const key = path.slice(parentPath.length).replace(/^\./, '').replace(/^\[(\d+)\]$/, '$1');
+  const parent = parentPath ? readPath(next, parentPath) : next;
+  if (Array.isArray(parent)) parent.splice(Number(key), 1);
+  else if (parent && typeof parent === 'object' && Object.hasOwn(parent, key)) delete parent[key];
+  return next;
+};
+
+const wrongTypeValue = (value: Json): { value: Json; type: string } | null => {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return { value: value[0] ?? {}, type: 'a single item instead of a list' };
+  switch (typeof value) {
+    case 'number': return { value: String(value), type: 'a string' };
+    case 'boolean': return { value: String(value), type: 'a string' };
+    case 'object': return { value: JSON.stringify(value), type: 'a JSON string' };
+    default: return /^-?\d+(\.\d+)?$/.test(value) ? { value: Number(value), type: 'a number' } : { value: 12345, type: 'a number' };
+  }
+};
+
+const boundaryValues = (value: Json): { value: Json; label: string }[] => {
+  if (typeof value === 'number') {
+    return [
+      { value: 0, label: '0' },
+      { value: -1, label: '-1' },
+      { value: 0.001, label: 'a fraction of a cent' },
+      { value: Number.MAX_SAFE_INTEGER, label: 'the largest safe integer' }
+    ];
+  }
+  if (typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value)) {
+    return [
+      { value: '0.00', label: '"0.00"' },
+      { value: '-1.00', label: '"-1.00"' },
+      { value: '0.001', label: '"0.001"' },
+      { value: '999999999999.99', label: '"999999999999.99"' }
+    ];
+  }
+  if (typeof value === 'string') {
+    return [
+      { value: '', label: 'an empty string' },
+      { value: 'x'.repeat(10000), label: '10,000 characters' }
+    ];
+  }
+  if (Array.isArray(value)) return [{ value: [], label: 'an empty list' }];
+  return [];
+};
+
+/**
+ * Edge-case payloads derived from `base`, one change per variant so a failing run points at
+ * the field that caused it. Only fields present in `base` are varied; each kind is capped so
+ * large payloads stay manageable.
+ */
+export const generateVariants = (
+  schema: JsonSchema,
+  base: Json,
+  kinds: PayloadVariantKind[] = VARIANT_KINDS.map(kind => kind.id)
+): PayloadVariant[] => {
+  // A pasted payload can carry keys such as "__proto__", which no variant may write through
+  const fields = collectFields(schema, '', []).filter(field => isSafePath(field.path) && readPath(base, field.path) !== undefined);
+  const variants: PayloadVariant[] = [];
+  const add = (kind: PayloadVariantKind, path: string, label: string, payload: Json) => {
+    if (!kinds.includes(kind) || variants.filter(variant => variant.kind === kind).length >= MAX_VARIANTS_PER_KIND) return;
+    variants.push({ id: `${kind}:${path}:${variants.length}`, kind, path, label, payload: JSON.stringify(payload, null, 2) });
+  };
+
+  if (Array.isArray(base) && base.length > 0) {
+    add('huge_array', '', `Payload with ${HUGE_ARRAY_LENGTH.toLocaleString()} items`, Array.from({ length: HUGE_ARRAY_LENGTH }, () => base[0]));
+  }
+
+  fields.forEach(({ path, schema: fieldSchema }) => {
+    const value = readPath(base, path);
+    add('missing', path, `Without ${path}`, removeAt(base, path));
+    if (value !== null) add('null', path, `${path} is null`, setAt(base, path, null));
+
+    const wrong = wrongTypeValue(value);
+    if (wrong) add('wrong_type', path, `${path} as ${wrong.type}`, setAt(base, path, wrong.value));
+
+    if (Array.isArray(value) && value.length > 0) {
+      add('huge_array', path, `${path} with ${HUGE_ARRAY_LENGTH.toLocaleString()} items`, setAt(base, path, Array.from({ length: HUGE_ARRAY_LENGTH }, () => value[0])));
+    }
+    if (typeof value === 'string') {
+      const email = fieldSchema.format === 'email' || stringFormat(value) === 'email';
+      add('unicode', path, `Unicode in ${path}`, setAt(base, path, email ? UNICODE_EMAIL : UNICODE_TEXT));
+    }
+    boundaryValues(value).forEach(boundary => add('boundary', path, `${path} = ${boundary.label}`, setAt(base, path, boundary.value)));
+  });
+
+  return variants;
+};
+
+/**
+ * The payload variants start from: `base` when it fits the (possibly hand-edited) schema,
+ * otherwise a sample built from the schema itself.
+ */
+export const variantBase = (schema: JsonSchema, base: Json): Json =>
+  base !== undefined && validateSchema(base, schema).length === 0 ? base : sampleFromSchema(schema);
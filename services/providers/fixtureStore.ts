@@ -0,0 +1,119 @@
+
+import { AiFixture, FixtureKind } from "../../types";
+import { openDb, promisify, transactionDone, FIXTURE_STORE } from "../localDb";
+import { JsonRequest, SpeechRequest, TextRequest, VisionRequest } from "./provider";
+
+export interface FixtureKey {
+  kind: FixtureKind;
+  operation: string;
+  identity: unknown;
+  preview: string;
+}
+
+// FNV-1a: stable across sessions and cheap enough to run on every call
+export const hashRequest = (value: unknown): string => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const lastMessage = (request: TextRequest) => request.messages[request.messages.length - 1]?.text || '';
+
+/**
+ * What makes two calls "the same request" for replay. Abort signals and callbacks are
+ * excluded; image bytes are hashed so fixtures stay small.
+ */
+export const fixtureKeys = {
+  text: (request: TextRequest): FixtureKey => ({
+    kind: 'text',
+    operation: request.operation || 'text',
+    identity: { role: request.role, systemInstruction: request.systemInstruction, messages: request.messages },
+    preview: lastMessage(request)
+  }),
+  json: (request: JsonRequest): FixtureKey => ({
+    kind: 'json',
+    operation: request.schemaName,
+    identity: { role: request.role, systemInstruction: request.systemInstruction, messages: request.messages, schemaName: request.schemaName },
+    preview: lastMessage(request)
+  }),
+  vision: (request: VisionRequest): FixtureKey => ({
+    kind: 'vision',
+    operation: 'vision',
+    identity: { prompt: request.prompt, image: hashRequest(request.image.data), mimeType: request.image.mimeType },
+    preview: request.prompt
+  }),
+  speech: (request: SpeechRequest): FixtureKey => ({
+    kind: 'speech',
+    operation: 'speech',
+    identity: { text: request.text, voice: request.voice },
+    preview: `${request.voice}: ${request.text}`
+  })
+};
+
+export const createFixture = (key: FixtureKey, response: unknown): AiFixture => {
+  const requestHash = hashRequest(key.identity);
+  return {
+    id: `${key.operation}-${requestHash}`,
+    kind: key.kind,
+    operation: key.operation,
+    requestHash,
+    requestPreview: key.preview.substring(0, 160),
+    response,
+    recordedAt: Date.now()
+  };
+};
+
+export const listFixtures = async (): Promise<AiFixture[]> => {
+  const db = await openDb();
+  const all = await promisify<AiFixture[]>(db.transaction(FIXTURE_STORE).objectStore(FIXTURE_STORE).getAll());
+  return all.sort((a, b) => b.recordedAt - a.recordedAt);
+};
+
+export const findFixtures = async (operation: string): Promise<AiFixture[]> => {
+  const db = await openDb();
+  const index = db.transaction(FIXTURE_STORE).objectStore(FIXTURE_STORE).index('operation');
+  const matches = await promisify<AiFixture[]>(index.getAll(operation));
+  return matches.sort((a, b) => b.recordedAt - a.recordedAt);
+};
+
+/**
+ * Stores fixtures keyed by operation and request hash, so re-recording the same request
+ * replaces the old response instead of piling up duplicates.
+ */
+export const saveFixtures = async (fixtures: AiFixture[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(FIXTURE_STORE, 'readwrite');
+  const store = tx.objectStore(FIXTURE_STORE);
+  fixtures.forEach(fixture => store.put(fixture));
+  await transactionDone(tx);
+};
+
+export const clearFixtures = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(FIXTURE_STORE, 'readwrite');
+  tx.objectStore(FIXTURE_STORE).clear();
+  await transactionDone(tx);
+};
+
+export const parseFixtureFile = (content: string): AiFixture[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("Fixture file is not valid JSON.");
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { fixtures?: unknown })?.fixtures;
+  if (!Array.isArray(list)) {
+    throw new Error("Fixture file must contain an array of fixtures or a { fixtures: [...] } object.");
+  }
+  list.forEach((item, idx) => {
+    if (!item || typeof item.operation !== 'string' || typeof item.requestHash !== 'string' || !('response' in item)) {
+      throw new Error(`Fixture ${idx} is missing operation, requestHash or response.`);
+    }
+  });
+  return list as AiFixture[];
+};
@@ -0,0 +1,11 @@
+
+import { ModelRole } from "../../types";
+
+// Shared by the browser client and the proxy server; the server never accepts a model name from the client
+export const GEMINI_MODELS: Record<ModelRole, string> = {
+  reasoning: 'gemini-3-pro-preview',
+  fast: 'gemini-3-flash-preview',
+  vision: 'gemini-3-pro-preview',
+  speech: 'gemini-2.5-flash-preview-tts',
+  live: 'gemini-2.5-flash-native-audio-preview-09-2025'
+};
@@ -0,0 +1,141 @@
+
+import { TokenUsage } from "../../types";
+import { AiProvider, JsonRequest, JsonResult, LiveSession, ProviderFailure, ProviderHttpError, parseRetryAfter } from "./provider";
+import { GEMINI_MODELS } from "./geminiModels";
+import { LIVE_PATH, PROXY_BASE, PROXY_TOKEN_PARAM, LiveClientMessage, LiveServerMessage, ProxyEvent, ProxyOperation } from "./proxyProtocol";
+
+interface ProxyHandlers {
+  token: string;
+  signal?: AbortSignal;
+  onText?: (text: string) => void;
+  onThought?: (thought: string) => void;
+  onGrounding?: () => void;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * Posts one call to the local proxy server and replays its streamed events into the
+ * request callbacks. Upstream failures keep their HTTP status so retries behave as before.
+ */
+const callProxy = async (operation: ProxyOperation, body: unknown, handlers: ProxyHandlers): Promise<unknown> => {
+  let response: Response;
+  try {
+    response = await fetch(`${PROXY_BASE}/${operation}`, {
+      method: 'POST',
+      headers: handlers.token
+        ? { 'Content-Type': 'application/json', Authorization: `Bearer ${handlers.token}` }
+        : { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: handlers.signal
+    });
+  } catch (err: any) {
+    if (err.name === 'AbortError') throw err;
+    throw new ProviderFailure('network', "Could not reach the AI proxy server. Start it with `npm run server`.");
+  }
+
+  if (!response.ok || !response.body) {
+    const detail = await response.json().catch(() => null);
+    throw new ProviderHttpError(
+      detail?.error || `AI proxy responded with status ${response.status}.`,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  }
+
+  let result: unknown;
+  let finished = false;
+  const handle = (line: string) => {
+    const event = JSON.parse(line) as ProxyEvent;
+    switch (event.type) {
+      case 'text': handlers.onText?.(event.text); break;
+      case 'thought': handlers.onThought?.(event.text); break;
+      case 'grounding': handlers.onGrounding?.(); break;
+      case 'usage': handlers.onUsage?.(event.usage); break;
+      case 'error':
+        throw event.kind
+          ? new ProviderFailure(event.kind, event.message)
+          : new ProviderHttpError(event.message, event.status, event.retryAfterMs);
+      case 'result':
+        result = event.result;
+        finished = true;
+        break;
+    }
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.filter(line => line.trim()).forEach(handle);
+  }
+  if (buffer.trim()) handle(buffer);
+
+  if (!finished) throw new ProviderHttpError("The AI proxy closed the stream before responding.", 502);
+  return result;
+};
+
+/**
+ * Gemini as seen from the browser: every call goes through the proxy server, which holds
+ * the API key and the SDK. `token` is the proxy's shared access token, empty when it has none.
+ */
+export const createGeminiProvider = (token: string): AiProvider => ({
+  id: 'gemini',
+  label: 'Google Gemini',
+  capabilities: { search: true, thinking: true, speech: true, live: true },
+
+  modelFor: (role) => GEMINI_MODELS[role],
+
+  generateText: async ({ signal, onText, onUsage, ...request }) =>
+    await callProxy('text', request, { token, signal, onText, onUsage }) as string,
+
+  generateJson: async <T>(request: JsonRequest): Promise<JsonResult<T>> => {
+    const { signal, onText, onThought, onGrounding, onUsage, ...body } = request;
+    return await callProxy('json', { ...body, thoughts: !!onThought }, { token, signal, onText, onThought, onGrounding, onUsage }) as JsonResult<T>;
+  },
+
+  analyzeImage: async ({ signal, onText, onUsage, ...request }) =>
+    await callProxy('vision', request, { token, signal, onText, onUsage }) as string,
+
+  synthesizeSpeech: async ({ onUsage, ...request }) =>
+    await callProxy('speech', request, { token, onUsage }) as string | undefined,
+
+  connectLive: ({ systemInstruction, voice, callbacks }) =>
+    new Promise<LiveSession>((resolve, reject) => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const query = token ? `?${PROXY_TOKEN_PARAM}=${encodeURIComponent(token)}` : '';
+      const socket = new WebSocket(`${protocol}//${window.location.host}${LIVE_PATH}${query}`);
+      const send = (message: LiveClientMessage) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      };
+      let connected = false;
+
+      socket.onopen = () => {
+        connected = true;
+        send({ type: 'setup', systemInstruction, voice });
+        resolve({
+          sendAudio: (data, mimeType) => send({ type: 'audio', data, mimeType }),
+          close: () => socket.close()
+        });
+      };
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data) as LiveServerMessage;
+        switch (message.type) {
+          case 'open': callbacks.onopen(); break;
+          case 'audio': callbacks.onaudio(message.data); break;
+          case 'interrupted': callbacks.oninterrupted(); break;
+          case 'error': callbacks.onerror(new ErrorEvent('error', { message: message.message })); break;
+        }
+      };
+      socket.onerror = () => {
+        if (!connected) reject(new ProviderFailure('network', "Could not reach the live relay. Start the proxy server with `npm run server`."));
+      };
+      socket.onclose = (event) => {
+        if (connected) callbacks.onclose(event);
+      };
+    })
+});
@@ -0,0 +1,78 @@
+
+import { ProviderConfig, ProviderId } from "../../types";
+import { AiProvider } from "./provider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { mockProvider } from "./mockProvider";
+import { withRecording } from "./recordingProvider";
+
+export type { AiProvider } from "./provider";
+
+const CONFIG_KEY = 'automation-architect:provider';
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Hosted Gemini models with search grounding, thinking and live audio.' },
+  { id: 'openai-compatible', label: 'OpenAI-compatible', description: 'Any /v1/chat/completions server, such as a local Ollama or llama.cpp instance.' },
+  { id: 'mock', label: 'Offline Replay', description: 'Replays recorded fixtures with no network access, for demos and automated tests.' }
+];
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  provider: 'gemini',
+  openAiCompatible: {
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    models: {
+      reasoning: 'qwen2.5:14b',
+      fast: 'llama3.1:8b',
+      vision: 'llava:13b',
+      speech: 'tts-1',
+      live: ''
+    }
+  },
+  proxyToken: '',
+  recordFixtures: false
+};
+
+export const loadProviderConfig = (): ProviderConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONFIG_KEY) || 'null') as Partial<ProviderConfig> | null;
+    if (!stored) return DEFAULT_PROVIDER_CONFIG;
+    return {
+      provider: stored.provider || DEFAULT_PROVIDER_CONFIG.provider,
+      proxyToken: stored.proxyToken || '',
+      recordFixtures: !!stored.recordFixtures,
+      openAiCompatible: {
+        ...DEFAULT_PROVIDER_CONFIG.openAiCompatible,
+        ...stored.openAiCompatible,
+        models: { ...DEFAULT_PROVIDER_CONFIG.openAiCompatible.models, ...stored.openAiCompatible?.models }
+      }
+    };
+  } catch {
+    return DEFAULT_PROVIDER_CONFIG;
+  }
+};
+
+export const saveProviderConfig = (config: ProviderConfig) => {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+};
+
+// `?provider=mock` forces offline replay, so demos and test runs need no stored settings
+const urlOverride = (): ProviderId | null => {
+  if (typeof window === 'undefined') return null;
+  const requested = new URLSearchParams(window.location.search).get('provider');
+  return PROVIDER_OPTIONS.some(option => option.id === requested) ? requested as ProviderId : null;
+};
+
+/**
+ * Resolves the provider for each call so a settings change applies without a reload.
+ */
+export const getProvider = (): AiProvider => {
+  const config = loadProviderConfig();
+  const providerId = urlOverride() || config.provider;
+  if (providerId === 'mock') return mockProvider;
+
+  const live = providerId === 'openai-compatible'
+    ? createOpenAiCompatibleProvider(config.openAiCompatible)
+    : createGeminiProvider(config.proxyToken);
+  return config.recordFixtures ? withRecording(live) : live;
+};
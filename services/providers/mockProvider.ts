@@ -0,0 +1,106 @@
+
+import { AiFixture, AutomationStep, GroundingSource } from "../../types";
+import { encode } from "../audio";
+import { AiProvider, JsonRequest, JsonResult, ProviderFailure } from "./provider";
+import { FixtureKey, findFixtures, hashRequest, fixtureKeys } from "./fixtureStore";
+import { SAMPLE_AUTOMATION, SAMPLE_CHAT_REPLY, SAMPLE_IMAGE_ANALYSIS, SAMPLE_SUMMARY, sampleSimulation } from "./defaultFixtures";
+
+const CHUNK_SIZE = 24;
+const CHUNK_DELAY_MS = 15;
+
+// The simulation prompt lists the blueprint on one line as "Steps: [...]"
+const requestedSteps = (prompt: string): AutomationStep[] => {
+  const match = /^\s*Steps: (.*)$/m.exec(prompt);
+  try {
+    const steps = match ? JSON.parse(match[1]) : undefined;
+    return Array.isArray(steps) ? steps : SAMPLE_AUTOMATION.steps;
+  } catch {
+    return SAMPLE_AUTOMATION.steps;
+  }
+};
+
+// Half a second of silence at 24kHz, 16-bit mono
+const SILENCE = encode(new Uint8Array(24000));
+
+const DEFAULT_RESPONSES: Record<string, (key: FixtureKey) => unknown> = {
+  automation_blueprint: () => ({ data: SAMPLE_AUTOMATION, sources: [] }),
+  // The trace has to cover the steps asked about, or the response check rejects it
+  simulation_trace: key => ({ data: sampleSimulation(requestedSteps(key.preview)), sources: [] }),
+  chat: () => SAMPLE_CHAT_REPLY,
+  chat_summary: () => SAMPLE_SUMMARY,
+  text: () => SAMPLE_CHAT_REPLY,
+  vision: () => SAMPLE_IMAGE_ANALYSIS,
+  speech: () => SILENCE
+};
+
+const abortError = () => {
+  const error = new Error("Request cancelled.");
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Picks the fixture recorded for this exact request, then the latest one for the same
+ * operation, then the built-in sample. Storage failures fall through to the sample.
+ */
+const resolveResponse = async (key: FixtureKey): Promise<unknown> => {
+  let recorded: AiFixture[] = [];
+  try {
+    recorded = await findFixtures(key.operation);
+  } catch {
+    recorded = [];
+  }
+  const hash = hashRequest(key.identity);
+  const fixture = recorded.find(item => item.requestHash === hash) || recorded[0];
+  if (fixture) return fixture.response;
+  if (Object.hasOwn(DEFAULT_RESPONSES, key.operation)) return DEFAULT_RESPONSES[key.operation](key);
+  throw new ProviderFailure('configuration', `Mock mode: no fixture recorded for "${key.operation}". Record one from a live session in Settings.`);
+};
+
+// Replays text in small chunks so streaming UIs behave as they would against a live model
+const replayStream = async (text: string, signal?: AbortSignal, onText?: (text: string) => void) => {
+  if (!onText) {
+    if (signal?.aborted) throw abortError();
+    return text;
+  }
+  for (let end = CHUNK_SIZE; ; end += CHUNK_SIZE) {
+    if (signal?.aborted) throw abortError();
+    onText(text.substring(0, end));
+    if (end >= text.length) break;
+    await new Promise(res => setTimeout(res, CHUNK_DELAY_MS));
+  }
+  return text;
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  label: 'Offline Replay',
+  capabilities: { search: false, thinking: false, speech: true, live: false },
+
+  modelFor: () => 'mock-replay',
+
+  generateText: async (request) => {
+    const text = String(await resolveResponse(fixtureKeys.text(request)));
+    return replayStream(text, request.signal, request.onText);
+  },
+
+  generateJson: async <T>(request: JsonRequest): Promise<JsonResult<T>> => {
+    const response = await resolveResponse(fixtureKeys.json(request)) as { data: T; sources?: GroundingSource[] };
+    request.onThought?.('Replaying a recorded response.');
+    await replayStream(JSON.stringify(response.data, null, 2), request.signal, request.onText);
+    return { data: response.data, sources: response.sources || [] };
+  },
+
+  analyzeImage: async (request) => {
+    const text = String(await resolveResponse(fixtureKeys.vision(request)));
+    return replayStream(text, request.signal, request.onText);
+  },
+
+  synthesizeSpeech: async (request) => {
+    return String(await resolveResponse(fixtureKeys.speech(request)));
+  },
+
+  connectLive: async () => {
+    throw new ProviderFailure('unsupported', "Live audio cannot be replayed in mock mode. Switch to Gemini in Settings to use Live Architect.");
+  }
+};
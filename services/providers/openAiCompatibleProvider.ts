@@ -0,0 +1,160 @@
+
+import { OpenAiCompatibleConfig, TokenUsage } from "../../types";
+import { encode } from "../audio";
+import { AiProvider, JsonRequest, JsonResult, ProviderFailure, ProviderHttpError, ProviderMessage, parseRetryAfter } from "./provider";
+
+type ChatContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: ChatContent;
+}
+
+const toChatMessages = (messages: ProviderMessage[], systemInstruction?: string): ChatCompletionMessage[] => [
+  ...(systemInstruction ? [{ role: 'system' as const, content: systemInstruction }] : []),
+  ...messages.map(msg => ({ role: msg.role === 'model' ? 'assistant' as const : 'user' as const, content: msg.text }))
+];
+
+// Local models often wrap JSON in markdown fences even when asked not to
+const stripFences = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+/**
+ * Talks to any server that implements the OpenAI chat completions API, such as Ollama,
+ * llama.cpp or vLLM. Web search grounding and live audio have no equivalent there.
+ */
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): AiProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, body: unknown, signal?: AbortSignal) => {
+    if (!baseUrl) {
+      throw new ProviderFailure('configuration', "API Configuration Error: no base URL is set for the OpenAI-compatible provider.");
+    }
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+        },
+        body: JSON.stringify(body),
+        signal
+      });
+    } catch (err: any) {
+      if (err.name === 'AbortError') throw err;
+      throw new ProviderFailure('network', `Could not reach the model server at ${baseUrl}. Check that it is running and allows requests from this origin.`);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderHttpError(
+        `Model server responded ${response.status}: ${detail.substring(0, 200) || response.statusText}`,
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    return response;
+  };
+
+  const complete = async (
+    model: string,
+    messages: ChatCompletionMessage[],
+    options: {
+      signal?: AbortSignal;
+      onText?: (text: string) => void;
+      onUsage?: (usage: TokenUsage) => void;
+      extra?: Record<string, unknown>;
+    }
+  ) => {
+    const response = await request('/chat/completions', {
+      model,
+      messages,
+      stream: true,
+      stream_options: { include_usage: true },
+      ...options.extra
+    }, options.signal);
+    if (!response.body) throw new ProviderFailure('empty_response', "Model server returned no response body.");
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    // Servers that honour include_usage send it on a final chunk with no choices
+    const reportUsage = (usage: any) => {
+      if (!usage) return;
+      const inputTokens = usage.prompt_tokens || 0;
+      const outputTokens = usage.completion_tokens || 0;
+      options.onUsage?.({ inputTokens, outputTokens, thinkingTokens: 0, totalTokens: usage.total_tokens || inputTokens + outputTokens });
+    };
+
+    // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const payload = line.trim();
+        if (!payload.startsWith('data:')) continue;
+        const data = payload.slice(5).trim();
+        if (data === '[DONE]') return text;
+        const event = JSON.parse(data);
+        reportUsage(event.usage);
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          options.onText?.(text);
+        }
+      }
+    }
+    return text;
+  };
+
+  return {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible',
+    capabilities: { search: false, thinking: false, speech: true, live: false },
+
+    modelFor: (role) => config.models[role],
+
+    generateText: ({ role, systemInstruction, messages, signal, onText, onUsage }) =>
+      complete(config.models[role], toChatMessages(messages, systemInstruction), { signal, onText, onUsage }),
+
+    generateJson: async <T>(request: JsonRequest): Promise<JsonResult<T>> => {
+      const { role, systemInstruction, messages, schemaName, schema, signal, onText, onUsage } = request;
+      // Servers that ignore response_format still see the schema in the system prompt
+      const instruction = `${systemInstruction || ''}\n\nRespond with a single JSON object that conforms to this JSON Schema:\n${JSON.stringify(schema)}`;
+      const text = await complete(config.models[role], toChatMessages(messages, instruction), {
+        signal,
+        onText,
+        onUsage,
+        extra: { response_format: { type: 'json_schema', json_schema: { name: schemaName, schema } } }
+      });
+      if (!text) throw new ProviderFailure('empty_response', "The AI returned an empty response.");
+      return { data: JSON.parse(stripFences(text)) as T, sources: [] };
+    },
+
+    analyzeImage: ({ prompt, image, signal, onText, onUsage }) =>
+      complete(config.models.vision, [{
+        role: 'user',
+        content: [
+          { type: 'text', text: prompt },
+          { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }
+        ]
+      }], { signal, onText, onUsage }),
+
+    synthesizeSpeech: async ({ text, voice }) => {
+      const response = await request('/audio/speech', {
+        model: config.models.speech,
+        input: text,
+        voice,
+        response_format: 'pcm'
+      });
+      return encode(new Uint8Array(await response.arrayBuffer()));
+    },
+
+    connectLive: async () => {
+      throw new ProviderFailure('unsupported', "Live audio is not available with the OpenAI-compatible provider. Switch to Gemini in Settings to use Live Architect.");
+    }
+  };
+};
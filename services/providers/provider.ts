@@ -0,0 +1,143 @@
+
+import { GroundingSource, ModelRole, ProviderId, TokenUsage } from "../../types";
+import { JsonSchema } from "../schemaValidator";
+
+export interface ProviderMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ProviderImage {
+  data: string;
+  mimeType: string;
+}
+
+interface UsageReporting {
+  // Called once per completed call with the token counts the provider reported
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+interface StreamingRequest extends UsageReporting {
+  signal?: AbortSignal;
+  // Receives the full text accumulated so far, so a retried stream simply starts over
+  onText?: (text: string) => void;
+}
+
+export interface TextRequest extends StreamingRequest {
+  role: ModelRole;
+  // Names the feature behind a free-text call (e.g. chat) for fixtures and tracking
+  operation?: string;
+  systemInstruction?: string;
+  messages: ProviderMessage[];
+}
+
+export interface JsonRequest extends TextRequest {
+  schemaName: string;
+  schema: JsonSchema;
+  thinkingBudget?: number;
+  // Ground the answer with web search where the provider supports it
+  search?: boolean;
+  onThought?: (thought: string) => void;
+  onGrounding?: () => void;
+}
+
+export interface JsonResult<T> {
+  data: T;
+  sources: GroundingSource[];
+}
+
+export interface VisionRequest extends StreamingRequest {
+  prompt: string;
+  image: ProviderImage;
+}
+
+export interface SpeechRequest extends UsageReporting {
+  text: string;
+  voice: string;
+}
+
+export interface LiveRequest {
+  systemInstruction: string;
+  voice: string;
+  callbacks: LiveCallbacks;
+}
+
+export interface LiveCallbacks {
+  onopen: () => void;
+  // Base64 PCM audio at 24kHz from the model
+  onaudio: (base64Audio: string) => void;
+  oninterrupted: () => void;
+  onerror: (e: ErrorEvent) => void;
+  onclose: (e: CloseEvent) => void;
+}
+
+export interface LiveSession {
+  sendAudio: (base64Audio: string, mimeType: string) => void;
+  close: () => void;
+}
+
+export interface ProviderCapabilities {
+  search: boolean;
+  thinking: boolean;
+  speech: boolean;
+  live: boolean;
+}
+
+/**
+ * Everything the feature layer needs from a model vendor. Implementations translate these
+ * provider-neutral requests into their own SDK or HTTP calls.
+ */
+export interface AiProvider {
+  id: ProviderId;
+  label: string;
+  capabilities: ProviderCapabilities;
+  modelFor: (role: ModelRole) => string;
+  generateText: (request: TextRequest) => Promise<string>;
+  generateJson: <T>(request: JsonRequest) => Promise<JsonResult<T>>;
+  analyzeImage: (request: VisionRequest) => Promise<string>;
+  // Resolves to base64 16-bit PCM at 24kHz, the format the Voice Lab player expects
+  synthesizeSpeech: (request: SpeechRequest) => Promise<string | undefined>;
+  connectLive: (request: LiveRequest) => Promise<LiveSession>;
+}
+
+/**
+ * Carries the HTTP status of a failed provider call so the retry policy can tell
+ * throttling and server faults apart from bad requests.
+ */
+export class ProviderHttpError extends Error {
+  status: number;
+  // Server-requested wait from a Retry-After header or Gemini's RetryInfo
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderHttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export type ProviderFailureKind = 'network' | 'blocked' | 'configuration' | 'unsupported' | 'empty_response';
+
+/**
+ * A provider failure that has no meaningful HTTP status: an unreachable server, a safety
+ * block, missing configuration, an unsupported feature or an empty answer.
+ */
+export class ProviderFailure extends Error {
+  kind: ProviderFailureKind;
+
+  constructor(kind: ProviderFailureKind, message: string) {
+    super(message);
+    this.name = 'ProviderFailure';
+    this.kind = kind;
+  }
+}
+
+// Parses a Retry-After header, which is either delay-seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
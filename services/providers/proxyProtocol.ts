@@ -0,0 +1,34 @@
+
+import { TokenUsage } from "../../types";
+import { ProviderFailureKind } from "./provider";
+
+/**
+ * Wire format between the browser's Gemini client and the local proxy server. The key and
+ * the SDK stay on the server; the browser only ever sees these messages.
+ */
+
+export const PROXY_BASE = '/api/gemini';
+export const LIVE_PATH = `${PROXY_BASE}/live`;
+// Query parameter carrying the access token on the live relay URL, where headers cannot be set
+export const PROXY_TOKEN_PARAM = 'token';
+
+export type ProxyOperation = 'text' | 'json' | 'vision' | 'speech';
+
+// Streamed back as newline-delimited JSON, one event per line
+export type ProxyEvent =
+  | { type: 'text'; text: string }
+  | { type: 'thought'; text: string }
+  | { type: 'grounding' }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; message: string; status: number; kind?: ProviderFailureKind; retryAfterMs?: number };
+
+export type LiveClientMessage =
+  | { type: 'setup'; systemInstruction: string; voice: string }
+  | { type: 'audio'; data: string; mimeType: string };
+
+export type LiveServerMessage =
+  | { type: 'open' }
+  | { type: 'audio'; data: string }
+  | { type: 'interrupted' }
+  | { type: 'error'; message: string };
@@ -0,0 +1,42 @@
+
+import { AiProvider, JsonRequest, JsonResult } from "./provider";
+import { FixtureKey, createFixture, fixtureKeys, saveFixtures } from "./fixtureStore";
+import { createWriteStatus } from "../localDb";
+
+// Settings shows a failure here, since recording must never break the live call it observes
+export const recordingStatus = createWriteStatus();
+
+const record = (key: FixtureKey, response: unknown) => {
+  recordingStatus.track(saveFixtures([createFixture(key, response)]), "The fixture could not be saved.");
+};
+
+/**
+ * Wraps a live provider so every successful response is also stored as a replay fixture.
+ */
+export const withRecording = (provider: AiProvider): AiProvider => ({
+  ...provider,
+
+  generateText: async (request) => {
+    const text = await provider.generateText(request);
+    record(fixtureKeys.text(request), text);
+    return text;
+  },
+
+  generateJson: async <T>(request: JsonRequest): Promise<JsonResult<T>> => {
+    const result = await provider.generateJson<T>(request);
+    record(fixtureKeys.json(request), result);
+    return result;
+  },
+
+  analyzeImage: async (request) => {
+    const text = await provider.analyzeImage(request);
+    record(fixtureKeys.vision(request), text);
+    return text;
+  },
+
+  synthesizeSpeech: async (request) => {
+    const audio = await provider.synthesizeSpeech(request);
+    if (audio) record(fixtureKeys.speech(request), audio);
+    return audio;
+  }
+});
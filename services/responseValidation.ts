@@ -0,0 +1,88 @@
+
+import { AutomationStep, BlueprintConnection, SimulationStepResult, ValidationIssue } from "../types";
+import { AiProvider } from "./providers";
+import { JsonRequest, JsonResult } from "./providers/provider";
+import { AiServiceError } from "./aiErrors";
+import { formatIssues, validateSchema } from "./schemaValidator";
+import { validateStepGraph } from "./stepGraph";
+
+// Checks the schema cannot express, run only once the response has the right shape
+export type SemanticCheck<T> = (data: T) => ValidationIssue[];
+
+// Keeps the repair prompt and the error report readable when a response is badly off
+const MAX_REPORTED_ISSUES = 20;
+
+const duplicateIds = (ids: number[], path: (idx: number) => string, label: string): ValidationIssue[] => {
+  const seen = new Set<number>();
+  const issues: ValidationIssue[] = [];
+  ids.forEach((id, idx) => {
+    if (seen.has(id)) issues.push({ path: path(idx), message: `reuses ${label} ${id}` });
+    seen.add(id);
+  });
+  return issues;
+};
+
+export const checkBlueprint: SemanticCheck<{ steps: AutomationStep[]; connections?: BlueprintConnection[] }> = ({ steps, connections = [] }) => [
+  ...duplicateIds(steps.map(step => step.id), idx => `steps[${idx}].id`, 'step id'),
+  ...validateStepGraph(steps).filter(issue => issue.message.includes('missing step')),
+  ...steps.flatMap((step, idx) => step.connection && !connections.some(connection => connection.name === step.connection)
+    ? [{ path: `steps[${idx}].connection`, message: `uses connection "${step.connection}", which is not listed in connections` }]
+    : [])
+];
+
+export const checkSimulation = (steps: AutomationStep[]): SemanticCheck<{ stepResults: SimulationStepResult[] }> => ({ stepResults }) => {
+  const ids = new Set(steps.map(step => step.id));
+  return [
+    ...duplicateIds(stepResults.map(result => result.stepId), idx => `stepResults[${idx}].stepId`, 'step result for step'),
+    ...stepResults.flatMap((result, idx) => ids.has(result.stepId)
+      ? []
+      : [{ path: `stepResults[${idx}].stepId`, message: `refers to step ${result.stepId}, which is not in the blueprint` }])
+  ];
+};
+
+export const validateResponse = <T>(data: T, request: JsonRequest, check?: SemanticCheck<T>): ValidationIssue[] => {
+  const issues = validateSchema(data, request.schema);
+  return issues.length > 0 || !check ? issues : check(data);
+};
+
+const issueList = (issues: ValidationIssue[]) => {
+  const listed = formatIssues(issues.slice(0, MAX_REPORTED_ISSUES)).split('\n').map(line => `- ${line}`).join('\n');
+  return issues.length > MAX_REPORTED_ISSUES ? `${listed}\n- …and ${issues.length - MAX_REPORTED_ISSUES} more` : listed;
+};
+
+/**
+ * Requests structured output and checks it against the request schema plus any semantic
+ * check. An invalid answer gets one repair turn that shows the model its own JSON and the
+ * problems found; if that is still invalid the call fails with the remaining issues attached.
+ */
+export const generateValidJson = async <T>(
+  provider: AiProvider,
+  request: JsonRequest,
+  check?: SemanticCheck<T>
+): Promise<JsonResult<T>> => {
+  const first = await provider.generateJson<T>(request);
+  const issues = validateResponse(first.data, request, check);
+  if (issues.length === 0) return first;
+
+  const repaired = await provider.generateJson<T>({
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: 'model', text: JSON.stringify(first.data) },
+      {
+        role: 'user',
+        text: `That JSON does not pass validation:\n${issueList(issues)}\n\nReturn the complete corrected JSON object. Fix only these problems and keep everything else unchanged.`
+      }
+    ]
+  });
+  const remaining = validateResponse(repaired.data, request, check);
+  if (remaining.length === 0) {
+    return { ...repaired, sources: repaired.sources.length > 0 ? repaired.sources : first.sources };
+  }
+
+  throw new AiServiceError(
+    'schema_mismatch',
+    `The AI's ${request.schemaName.replace(/_/g, ' ')} was still invalid after an automatic repair attempt (${remaining.length} ${remaining.length === 1 ? 'problem' : 'problems'}).`,
+    { issues: remaining.slice(0, MAX_REPORTED_ISSUES) }
+  );
+};
@@ -0,0 +1,43 @@
+
+import { AiServiceError } from "./aiErrors";
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 16000;
+// Total time one call may spend waiting between attempts before it reports the failure
+const CALL_WAIT_BUDGET_MS = 30000;
+
+// Shared across calls: each retry spends a token and each success earns part of one back,
+// so during an outage the app stops retrying instead of multiplying its own traffic
+const RETRY_TOKENS_MAX = 10;
+const RETRY_TOKEN_REFUND = 0.5;
+let retryTokens = RETRY_TOKENS_MAX;
+
+/**
+ * Exponential backoff with equal jitter. A server-requested Retry-After is honoured as the
+ * minimum wait, with a little jitter on top so clients it throttled together do not return together.
+ */
+export const backoffDelay = (attempt: number, retryAfterMs?: number) => {
+  if (retryAfterMs !== undefined) return retryAfterMs + Math.random() * (BASE_DELAY_MS / 2);
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+export const createRetryPolicy = (maxRetries = MAX_RETRIES) => {
+  let waitedMs = 0;
+
+  return {
+    // Delay before the next attempt, or null once the error is final or the budget is spent
+    nextDelay: (attempt: number, error: AiServiceError): number | null => {
+      if (!error.retryable || attempt >= maxRetries || retryTokens < 1) return null;
+      const delay = backoffDelay(attempt, error.details.retryAfterMs);
+      if (waitedMs + delay > CALL_WAIT_BUDGET_MS) return null;
+      waitedMs += delay;
+      retryTokens -= 1;
+      return delay;
+    },
+    succeeded: () => {
+      retryTokens = Math.min(RETRY_TOKENS_MAX, retryTokens + RETRY_TOKEN_REFUND);
+    }
+  };
+};
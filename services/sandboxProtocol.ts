@@ -0,0 +1,31 @@
+
+import { MockResponse, SandboxLogEntry, SandboxRequestLog } from "../types";
+
+/**
+ * Messages between the page and the snippet sandbox worker. The page transpiles the snippet
+ * first, so the worker only ever receives plain CommonJS-style JavaScript.
+ */
+
+/**
+ * Policy the worker script is served with, by the dev server and the production server alike.
+ * Snippets run through a Function constructor, hence 'unsafe-eval'; everything else they could
+ * reach the network or load code with (fetch, sockets, remote imports, nested workers) is refused.
+ */
+export const SANDBOX_WORKER_CSP = "default-src 'none'; script-src 'self' 'unsafe-eval'";
+
+// Matches the worker script's dev URL (/services/sandboxWorker.ts) and its hashed build asset
+export const SANDBOX_WORKER_FILE = /(^|\/)sandboxWorker(-[\w-]+)?\.(ts|js)$/;
+
+export interface SandboxRunMessage {
+  type: 'run';
+  code: string;
+  payload: unknown;
+  // Endpoint outcomes already rolled for this run
+  mocks: MockResponse[];
+}
+
+// Logs and requests stream as they happen, so a run cut short by the timeout still shows them
+export type SandboxWorkerMessage =
+  | { type: 'log'; entry: SandboxLogEntry }
+  | { type: 'request'; request: SandboxRequestLog }
+  | { type: 'done'; returnValue?: string; error?: string };
@@ -0,0 +1,206 @@
+
+import { MockResponse, SandboxLogEntry } from "../types";
+import { SandboxRunMessage, SandboxWorkerMessage } from "./sandboxProtocol";
+import { checkMockConnection, connectionSentinel, connectionsUsed, matchMockRequest } from "./mockHttp";
+
+// The DOM lib types `self` as a Window; inside the worker only this member matters
+const worker = self as unknown as {
+  onmessage: ((event: MessageEvent<SandboxRunMessage>) => void) | null;
+};
+
+// Taken before the lockdown below. Snippets share this scope, so results leave through this
+// private reference and a snippet cannot post a 'done' message of its own
+const post = self.postMessage.bind(self) as (message: SandboxWorkerMessage) => void;
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as new (...args: string[]) => (...values: unknown[]) => Promise<unknown>;
+
+const lock = (target: object, name: string, value: unknown) =>
+  Object.defineProperty(target, name, { value, configurable: false, writable: false });
+
+// Web APIs may be defined on the global scope's prototypes, so those copies are removed as well
+const lockGlobal = (name: string, value?: unknown) => {
+  for (let target: object | null = self; target; target = Object.getPrototypeOf(target)) {
+    if (target === self) lock(target, name, value);
+    else if (Object.hasOwn(target, name)) lock(target, name, undefined);
+  }
+};
+
+// Network and storage APIs other than the scripted fetch below, messaging, nested workers and
+// string evaluation. SANDBOX_WORKER_CSP blocks most of these again where the browser enforces it.
+[
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts', 'indexedDB', 'caches',
+  'BroadcastChannel', 'Worker', 'SharedWorker', 'postMessage', 'eval', 'Function'
+].forEach(name => lockGlobal(name));
+
+// Any function leads back to its constructor, e.g. (() => {}).constructor("return import(url)")
+[function () {}, async () => {}, function* () {}, async function* () {}].forEach(fn => {
+  lock(Object.getPrototypeOf(fn), 'constructor', undefined);
+});
+
+// Timers compile string handlers, so only functions are accepted
+(['setTimeout', 'setInterval'] as const).forEach(name => {
+  const schedule = self[name].bind(self) as (handler: () => void, ...rest: unknown[]) => number;
+  lockGlobal(name, (handler: unknown, ...rest: unknown[]) => {
+    if (typeof handler !== 'function') throw new TypeError(`${name} only accepts a function in the sandbox.`);
+    return schedule(handler as () => void, ...rest);
+  });
+});
+
+const describe = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const sandboxConsole = Object.fromEntries(
+  (['log', 'info', 'warn', 'error', 'debug'] as SandboxLogEntry['level'][]).map(level => [
+    level,
+    (...args: unknown[]) => post({ type: 'log', entry: { level, text: args.map(describe).join(' ') } })
+  ])
+);
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('The operation was aborted.', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort);
+});
+
+type MockFetchInit = { method?: string; headers?: Record<string, string> | Headers; body?: unknown; signal?: AbortSignal };
+
+/**
+ * `connection("slack-sales").token` in a snippet. Secrets never reach the sandbox: every field
+ * reads as a sentinel naming the connection, which the mock fetch looks for in each request.
+ */
+const connection = (name: string) => new Proxy({ name }, {
+  get: (target, field) => {
+    // Keep the object printable and not awaitable-looking
+    if (typeof field !== 'string' || field === 'name' || field in Object.prototype) return Reflect.get(target, field);
+    return field === 'then' ? undefined : connectionSentinel(name, field);
+  }
+});
+
+const requestText = (url: string, init: MockFetchInit) => {
+  const headers = init.headers instanceof Headers ? Object.fromEntries(init.headers) : init.headers || {};
+  return [url, ...Object.values(headers), typeof init.body === 'string' ? init.body : ''].join('\n');
+};
+
+const createMockFetch = (mocks: MockResponse[]) => async (input: unknown, init: MockFetchInit = {}) => {
+  const url = typeof input === 'string' ? input : String((input as { url?: string })?.url ?? input);
+  const method = (init.method || (input as { method?: string })?.method || 'GET').toUpperCase();
+  const used = connectionsUsed(requestText(url, init));
+  const matched = matchMockRequest(mocks, method, url);
+  const checked = matched && !matched.timedOut ? checkMockConnection(matched, used) : { response: matched, error: undefined };
+  const mock = checked.response;
+  post({
+    type: 'request',
+    request: {
+      method,
+      url,
+      status: mock && !mock.timedOut ? mock.status : null,
+      service: mock?.endpoint.service,
+      injected: mock?.injected,
+      connection: used.join(', ') || undefined,
+      connectionError: checked.error
+    }
+  });
+  if (!mock) {
+    throw new TypeError(`Network access is disabled in the sandbox and no mock endpoint matches ${method} ${url}.`);
+  }
+  await wait(mock.latencyMs, init.signal);
+  if (mock.timedOut) {
+    throw Object.assign(new Error(`Request to ${url} timed out.`), { name: 'TimeoutError', code: 'ETIMEDOUT' });
+  }
+  return new Response(mock.body || null, { status: mock.status, headers: mock.headers });
+};
+
+// Enough of axios for generated snippets: promise-returning verbs that reject on error statuses
+const createAxios = (mockFetch: ReturnType<typeof createMockFetch>) => {
+  const request = async (config: { url: string; method?: string; data?: unknown; headers?: Record<string, string> }) => {
+    const response = await mockFetch(config.url, {
+      method: config.method || 'GET',
+      headers: config.headers,
+      body: config.data === undefined ? undefined : JSON.stringify(config.data)
+    });
+    const text = await response.text();
+    let data: unknown = text;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Plain-text bodies stay as strings, as in axios
+    }
+    const result = { status: response.status, statusText: response.statusText, headers: Object.fromEntries(response.headers), data };
+    if (response.status >= 400) {
+      throw Object.assign(new Error(`Request failed with status code ${response.status}`), { response: result });
+    }
+    return result;
+  };
+  const withBody = (method: string) => (url: string, data?: unknown, config = {}) => request({ ...config, url, method, data });
+  const withoutBody = (method: string) => (url: string, config = {}) => request({ ...config, url, method });
+  return Object.assign(request, {
+    request,
+    get: withoutBody('GET'),
+    delete: withoutBody('DELETE'),
+    post: withBody('POST'),
+    put: withBody('PUT'),
+    patch: withBody('PATCH'),
+    create: () => createAxios(mockFetch)
+  });
+};
+
+/**
+ * Runs the snippet the ways generated code tends to expect: top-level `return` (Zapier, n8n),
+ * an `output` assignment (Zapier), an exported function, or a Pipedream component's `run`.
+ */
+const execute = async ({ code, payload, mocks }: SandboxRunMessage): Promise<unknown> => {
+  const mockFetch = createMockFetch(mocks);
+  const axios = createAxios(mockFetch);
+  const modules: Record<string, unknown> = { axios, 'node-fetch': mockFetch };
+  const require = (name: string) => {
+    if (name in modules) return modules[name];
+    throw new Error(`Module "${name}" is not available in the sandbox.`);
+  };
+  const module = { exports: {} as Record<string, unknown> };
+  const items = [{ json: payload }];
+  const steps = { trigger: { event: payload } };
+  const $ = { export: (key: string, value: unknown) => sandboxConsole.info(`$.export("${key}")`, value), flow: { exit: (reason?: string) => { throw new Error(`Flow exited${reason ? `: ${reason}` : ''}`); } } };
+  const scope: Record<string, unknown> = {
+    module, exports: module.exports, require, fetch: mockFetch, console: sandboxConsole, connection,
+    inputData: payload, input: payload, payload, event: payload,
+    items, $json: payload, $input: { all: () => items, first: () => items[0], item: items[0] },
+    steps, $, defineComponent: (component: unknown) => component
+  };
+
+  // The block lets the snippet redeclare any injected name with let/const. The trailing
+  // `return output` picks up Zapier-style assignments and is unreachable after an explicit return
+  const run = new AsyncFunction(...Object.keys(scope), 'output', `{\n${code}\n}\nreturn output;`);
+  let result = await run(...Object.values(scope), undefined);
+
+  if (result === undefined) {
+    // `module.exports = fn` replaces the object, so check what is there now
+    const exported = module.exports;
+    result = exported.default ?? (typeof exported === 'function' || Object.keys(exported).length > 0 ? exported : undefined);
+  }
+  if (typeof result === 'function') return await result(payload);
+  if (result && typeof (result as { run?: unknown }).run === 'function') {
+    return await (result as { run: (context: unknown) => unknown }).run({ steps, $ });
+  }
+  return result;
+};
+
+worker.onmessage = async (event) => {
+  try {
+    const value = await execute(event.data);
+    post({ type: 'done', returnValue: value === undefined ? undefined : describe(value) });
+  } catch (err: any) {
+    post({ type: 'done', error: describe(err) });
+  }
+};
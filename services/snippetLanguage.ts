@@ -0,0 +1,283 @@
+
+import { SnippetLanguage, SnippetToken } from "../types";
+
+export const SNIPPET_LANGUAGES: { id: SnippetLanguage; label: string }[] = [
+  { id: 'javascript', label: 'JavaScript' },
+  { id: 'typescript', label: 'TypeScript' },
+  { id: 'python', label: 'Python' },
+  { id: 'json', label: 'JSON' },
+  { id: 'text', label: 'Plain Text' }
+];
+
+const JS_KEYWORDS = new Set([
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof',
+  'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof',
+  'undefined', 'var', 'void', 'while', 'yield'
+]);
+
+const TS_KEYWORDS = new Set([
+  ...JS_KEYWORDS, 'abstract', 'any', 'as', 'boolean', 'declare', 'enum', 'implements', 'interface', 'keyof',
+  'namespace', 'never', 'number', 'private', 'protected', 'public', 'readonly', 'string', 'type', 'unknown'
+]);
+
+const PY_KEYWORDS = new Set([
+  'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+  'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None', 'nonlocal', 'not',
+  'or', 'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield'
+]);
+
+// Each pattern is tried in order at the current position; the first match wins
+type TokenRule = [SnippetToken['kind'], RegExp];
+
+const JS_RULES: TokenRule[] = [
+  ['comment', /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y],
+  ['string', /`(?:[^`\\]|\\[\s\S])*(?:`|$)|'(?:[^'\\\n]|\\.)*'?|"(?:[^"\\\n]|\\.)*"?/y],
+  ['number', /\b(?:0[xob][\da-f_]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?n?)\b/iy],
+  ['plain', /[A-Za-z_$][\w$]*/y],
+  ['punctuation', /[{}()[\].,;:?!=<>+\-*/%&|^~@]+/y]
+];
+
+const PY_RULES: TokenRule[] = [
+  ['comment', /#[^\n]*/y],
+  ['string', /[rbuf]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|'(?:[^'\\\n]|\\.)*'?|"(?:[^"\\\n]|\\.)*"?)/iy],
+  ['number', /\b(?:0[xob][\da-f_]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?j?)\b/iy],
+  ['plain', /[A-Za-z_]\w*/y],
+  ['punctuation', /[{}()[\].,;:=<>+\-*/%&|^~@]+/y]
+];
+
+const JSON_RULES: TokenRule[] = [
+  ['string', /"(?:[^"\\\n]|\\.)*"?/y],
+  ['number', /-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/iy],
+  ['plain', /[A-Za-z]+/y],
+  ['punctuation', /[{}[\],:]/y]
+];
+
+const RULES: Record<SnippetLanguage, TokenRule[]> = {
+  javascript: JS_RULES,
+  typescript: JS_RULES,
+  python: PY_RULES,
+  json: JSON_RULES,
+  text: []
+};
+
+const KEYWORDS: Record<SnippetLanguage, Set<string>> = {
+  javascript: JS_KEYWORDS,
+  typescript: TS_KEYWORDS,
+  python: PY_KEYWORDS,
+  json: new Set(['true', 'false', 'null']),
+  text: new Set()
+};
+
+/**
+ * Splits a snippet into highlightable tokens. This is a lexer, not a parser: regex literals
+ * and nested template expressions are coloured approximately, which is fine for display.
+ */
+export const tokenizeSnippet = (code: string, language: SnippetLanguage): SnippetToken[] => {
+  const rules = RULES[language];
+  const keywords = KEYWORDS[language];
+  const tokens: SnippetToken[] = [];
+  const push = (kind: SnippetToken['kind'], text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind && kind === 'plain') last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  let pos = 0;
+  while (pos < code.length) {
+    let matched = false;
+    for (const [kind, pattern] of rules) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(code);
+      if (!match || match[0].length === 0) continue;
+      const text = match[0];
+      if (kind === 'plain') {
+        const calls = /^\s*\(/.test(code.slice(pos + text.length, pos + text.length + 8));
+        push(keywords.has(text) ? 'keyword' : calls ? 'function' : 'plain', text);
+      } else {
+        push(kind, text);
+      }
+      pos += text.length;
+      matched = true;
+      break;
+    }
+    if (!matched) {
+      push('plain', code[pos]);
+      pos += 1;
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Guesses the snippet language from strong syntactic signals. TypeScript wins over JavaScript
+ * only when type syntax is present, since every JavaScript snippet is also valid TypeScript.
+ */
+export const detectLanguage = (code: string): SnippetLanguage => {
+  const trimmed = code.trim();
+  if (!trimmed) return 'text';
+  if (/^[{[]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      // Not JSON; fall through to the script heuristics
+    }
+  }
+
+  const score = (patterns: RegExp[]) => patterns.filter(pattern => pattern.test(code)).length;
+  const python = score([
+    /^\s*def \w+\(.*\)\s*(->.*)?:\s*$/m,
+    /^\s*(from [\w.]+ )?import [\w., ]+$/m,
+    /^\s*(if|elif|for|while|with|try|except|else)\b.*:\s*(#.*)?$/m,
+    /\b(None|True|False|elif|self\.)\b/,
+    /^\s*#(?!!)/m,
+    /\bprint\(/
+  ]);
+  const script = score([
+    /\b(const|let|var)\s+\w+\s*=/,
+    /=>/,
+    /[;{]\s*$/m,
+    /\bfunction\b/,
+    /\b(require\(|module\.exports|export (default|const|async))/,
+    /\/\/.*$/m
+  ]);
+  const types = score([
+    /\b(interface|type)\s+\w+\s*(=|\{|<)/,
+    /\w\s*:\s*(string|number|boolean|any|unknown|void|Record<|Promise<)/,
+    /\bas\s+(const|string|number|any|unknown)\b/,
+    /\bimport type\b/,
+    /\b(private|public|readonly)\s+\w+/
+  ]);
+
+  if (python > script) return 'python';
+  if (script === 0 && types === 0) return 'text';
+  return types > 0 ? 'typescript' : 'javascript';
+};
+
+// Closers before any other content dedent the line itself, as in `} else {`
+const leadingCloses = (line: string) => (line.match(/^[}\])]+/) || [''])[0].length;
+
+const formatBraced = (code: string, language: SnippetLanguage) => {
+  // One entry per indent level, holding how many brackets that level still has open, so
+  // `post(url, {` indents its body once rather than twice
+  const levels: number[] = [];
+  const output: string[] = [];
+  let inBlockComment = false;
+  let inTemplate = false;
+
+  code.split('\n').forEach(raw => {
+    const line = raw.trim();
+    // Multi-line comments and template literals keep their own layout
+    if (inBlockComment || inTemplate) {
+      output.push(raw.replace(/\s+$/, ''));
+      if (inBlockComment && line.includes('*/')) inBlockComment = false;
+      if (inTemplate && (line.match(/`/g) || []).length % 2 === 1) inTemplate = false;
+      return;
+    }
+
+    let dedent = 0;
+    let remaining = levels[levels.length - 1] || 0;
+    for (let i = 0; i < leadingCloses(line); i++) {
+      remaining -= 1;
+      if (remaining <= 0) {
+        dedent += 1;
+        remaining = levels[levels.length - 1 - dedent] || 0;
+      }
+    }
+    output.push(line ? '  '.repeat(Math.max(0, levels.length - dedent)) + line : '');
+
+    const tokens = tokenizeSnippet(line, language);
+    let pending = 0;
+    tokens.filter(token => token.kind === 'punctuation').forEach(token => {
+      for (const char of token.text) {
+        if ('{[('.includes(char)) pending += 1;
+        else if ('}])'.includes(char)) {
+          if (pending > 0) pending -= 1;
+          else if (levels.length > 0 && --levels[levels.length - 1] === 0) levels.pop();
+        }
+      }
+    });
+    if (pending > 0) levels.push(pending);
+
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === 'comment' && last.text.startsWith('/*') && !last.text.endsWith('*/')) inBlockComment = true;
+    if (last?.kind === 'string' && last.text.startsWith('`') && (last.text.length === 1 || !last.text.endsWith('`'))) inTemplate = true;
+  });
+  return output;
+};
+
+export interface PythonLine {
+  text: string;
+  // Inside brackets, a triple-quoted string or after a backslash, where indentation carries no meaning
+  continued: boolean;
+  // Inside a triple-quoted string, where every character is part of the value
+  inString: boolean;
+}
+
+/**
+ * Splits Python source into physical lines, marking which ones continue a logical line.
+ */
+export const pythonLines = (code: string): PythonLine[] => {
+  const texts = code.split('\n');
+  const continued = texts.map(() => false);
+  const inString = texts.map(() => false);
+  let line = 0;
+  let depth = 0;
+  tokenizeSnippet(code, 'python').forEach(token => {
+    if (token.kind === 'punctuation') {
+      for (const char of token.text) {
+        if ('{[('.includes(char)) depth += 1;
+        else if ('}])'.includes(char)) depth = Math.max(0, depth - 1);
+      }
+    }
+    const breaks = token.text.split('\n').length - 1;
+    for (let i = 0; i < breaks; i++) {
+      line += 1;
+      inString[line] = token.kind === 'string';
+      continued[line] = inString[line] || depth > 0 || /\\\s*$/.test(texts[line - 1]);
+    }
+  });
+  return texts.map((text, idx) => ({ text, continued: continued[idx], inString: inString[idx] }));
+};
+
+const formatPython = (code: string) => {
+  // Each distinct block indentation maps to the next multiple of four spaces
+  const widths: number[] = [0];
+  let shift = 0;
+  return pythonLines(code).map(({ text, continued, inString }) => {
+    if (inString) return text;
+    const line = text.replace(/^\t+/, tabs => '    '.repeat(tabs.length)).replace(/\s+$/, '');
+    if (continued) return line && shift ? ' '.repeat(Math.max(0, line.match(/^ */)![0].length + shift)) + line.trimStart() : line;
+    if (!line) return '';
+    const width = line.match(/^ */)![0].length;
+    if (width > widths[widths.length - 1]) widths.push(width);
+    while (widths.length > 1 && width < widths[widths.length - 1]) widths.pop();
+    const target = (widths.length - 1) * 4;
+    shift = target - width;
+    return ' '.repeat(target) + line.trimStart();
+  });
+};
+
+/**
+ * Normalises indentation and whitespace. JSON is pretty-printed; JavaScript and TypeScript
+ * are re-indented by bracket depth; Python keeps its block structure with four-space indents.
+ * Returns the input unchanged when it cannot be formatted safely (e.g. invalid JSON).
+ */
+export const formatSnippet = (code: string, language: SnippetLanguage): string => {
+  let lines: string[];
+  if (language === 'json') {
+    try {
+      return JSON.stringify(JSON.parse(code), null, 2);
+    } catch {
+      return code;
+    }
+  } else if (language === 'javascript' || language === 'typescript') {
+    lines = formatBraced(code, language);
+  } else if (language === 'python') {
+    lines = formatPython(code);
+  } else {
+    lines = code.split('\n').map(line => line.replace(/\s+$/, ''));
+  }
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+};
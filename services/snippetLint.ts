@@ -0,0 +1,284 @@
+
+import type * as TS from "typescript";
+import { Platform, SnippetDiagnostic, SnippetLanguage } from "../types";
+import { pythonLines, tokenizeSnippet } from "./snippetLanguage";
+
+// Globals every JavaScript runtime the platforms use (browser, Node, V8 isolates) provides
+const JS_GLOBALS = [
+  'arguments', 'Array', 'ArrayBuffer', 'atob', 'BigInt', 'Blob', 'Boolean', 'btoa', 'Buffer', 'clearInterval',
+  'clearTimeout', 'console', 'crypto', 'DataView', 'Date', 'decodeURI', 'decodeURIComponent', 'encodeURI',
+  'encodeURIComponent', 'Error', 'eval', 'exports', 'fetch', 'Float32Array', 'Float64Array', 'FormData',
+  'globalThis', 'Headers', 'Infinity', 'Int32Array', 'Intl', 'isFinite', 'isNaN', 'JSON', 'Map', 'Math', 'module',
+  'NaN', 'Number', 'Object', 'parseFloat', 'parseInt', 'process', 'Promise', 'Proxy', 'queueMicrotask',
+  'RangeError', 'Reflect', 'RegExp', 'Request', 'require', 'Response', 'Set', 'setInterval', 'setTimeout',
+  'String', 'structuredClone', 'Symbol', 'SyntaxError', 'TextDecoder', 'TextEncoder', 'TypeError', 'Uint8Array',
+  'undefined', 'URL', 'URLSearchParams', 'WeakMap', 'WeakSet', 'window', 'document', 'AbortController',
+  '__dirname', '__filename'
+];
+
+// Vault connection accessor generated snippets read credentials through; the sandbox injects it
+const VAULT_GLOBALS = ['connection'];
+
+// Names each platform's code step injects into scope
+const PLATFORM_GLOBALS: Record<Platform, string[]> = {
+  zapier: ['inputData', 'output', 'callback', 'z', 'bundle', 'StoreClient'],
+  n8n: ['$input', '$json', '$binary', '$node', '$env', '$vars', '$workflow', '$execution', '$now', '$today', '$items', '$', 'items', 'item', '$item', 'DateTime'],
+  make: ['input'],
+  langchain: [],
+  pipedream: ['defineComponent', 'steps', '$', 'event', 'params', 'auths'],
+  'google-sheets': ['SpreadsheetApp', 'UrlFetchApp', 'PropertiesService', 'Logger', 'Utilities', 'GmailApp', 'MailApp', 'DriveApp', 'CalendarApp', 'ScriptApp', 'HtmlService', 'ContentService', 'Session', 'CacheService', 'LockService'],
+  airtable: ['base', 'input', 'output', 'table', 'cursor', 'session', 'remoteFetchAsync'],
+  shopify: ['Shopify', 'shopify']
+};
+
+const PY_BLOCK_KEYWORDS = /^(async\s+)?(if|elif|else|for|while|def|class|try|except|finally|with|match|case)\b/;
+
+const positionOf = (code: string, index: number) => {
+  const before = code.slice(0, index);
+  const line = before.split('\n').length;
+  return { line, column: index - before.lastIndexOf('\n') };
+};
+
+// The compiler is several megabytes, so it is fetched only once a snippet needs it
+export const loadTypeScript = (): Promise<typeof TS> =>
+  import("typescript").then(mod => ('default' in mod ? mod.default : mod) as typeof TS);
+
+// Whether an identifier introduces a name rather than reading one
+const isDeclarationName = (ts: typeof TS, node: TS.Identifier) => {
+  const parent = node.parent;
+  if (!parent || (parent as TS.NamedDeclaration).name !== node) return false;
+  return ts.isVariableDeclaration(parent) || ts.isParameter(parent) || ts.isFunctionDeclaration(parent)
+    || ts.isFunctionExpression(parent) || ts.isClassDeclaration(parent) || ts.isClassExpression(parent)
+    || ts.isBindingElement(parent) || ts.isImportSpecifier(parent) || ts.isImportClause(parent)
+    || ts.isNamespaceImport(parent) || ts.isImportEqualsDeclaration(parent) || ts.isEnumDeclaration(parent)
+    || ts.isModuleDeclaration(parent);
+};
+
+// Identifiers in these positions name a property, label or type, never a variable
+const isNonReference = (ts: typeof TS, node: TS.Identifier) => {
+  const parent = node.parent;
+  if ((parent as TS.NamedDeclaration).name === node && (
+    ts.isPropertyAccessExpression(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)
+    || ts.isMethodDeclaration(parent) || ts.isPropertySignature(parent) || ts.isMethodSignature(parent)
+    || ts.isGetAccessorDeclaration(parent) || ts.isSetAccessorDeclaration(parent) || ts.isEnumMember(parent)
+    || ts.isMetaProperty(parent) || ts.isJsxAttribute(parent)
+  )) return true;
+  if (ts.isBindingElement(parent) && parent.propertyName === node) return true;
+  if (ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent)) return true;
+  return ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent);
+};
+
+const lintScript = async (code: string, language: SnippetLanguage, platform?: Platform): Promise<SnippetDiagnostic[]> => {
+  const ts = await loadTypeScript();
+  const fileName = language === 'typescript' ? 'snippet.ts' : 'snippet.js';
+  const diagnostics: SnippetDiagnostic[] = [];
+
+  // transpileModule reports only syntactic errors, which is what a snippet can be held to without its imports
+  const { diagnostics: syntax = [] } = ts.transpileModule(code, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext, allowJs: true }
+  });
+  syntax.forEach(diagnostic => {
+    const { line, column } = positionOf(code, diagnostic.start || 0);
+    diagnostics.push({
+      line,
+      column,
+      severity: 'error',
+      source: 'syntax',
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ')
+    });
+  });
+
+  const source = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true,
+    language === 'typescript' ? ts.ScriptKind.TS : ts.ScriptKind.JS);
+  const declared = new Set([...JS_GLOBALS, ...VAULT_GLOBALS, ...(platform ? PLATFORM_GLOBALS[platform] : [])]);
+  const references: TS.Identifier[] = [];
+
+  const visit = (node: TS.Node) => {
+    // Type positions and type declarations never refer to runtime values
+    if (ts.isTypeNode(node) || ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node) || ts.isTypeParameterDeclaration(node)) return;
+    if (ts.isHeritageClause(node) && node.token === ts.SyntaxKind.ImplementsKeyword) return;
+    if (ts.isIdentifier(node)) {
+      if (isDeclarationName(ts, node)) declared.add(node.text);
+      else if (!isNonReference(ts, node)) references.push(node);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  // Names are collected file-wide, so hoisting and closures never produce false alarms
+  const reported = new Set<string>();
+  references.forEach(node => {
+    if (declared.has(node.text) || reported.has(node.text)) return;
+    reported.add(node.text);
+    const { line, character } = source.getLineAndCharacterOfPosition(node.getStart(source));
+    diagnostics.push({
+      line: line + 1,
+      column: character + 1,
+      severity: 'warning',
+      source: 'undefined',
+      message: `"${node.text}" is never declared${platform ? ` and is not a ${platform} global` : ''}.`
+    });
+  });
+
+  return diagnostics;
+};
+
+/**
+ * A structural syntax check for Python: unterminated strings, unbalanced brackets, block
+ * headers without a colon and inconsistent indentation. It does not resolve names.
+ */
+const lintPython = (code: string): SnippetDiagnostic[] => {
+  const diagnostics: SnippetDiagnostic[] = [];
+  const error = (line: number, column: number, message: string) =>
+    diagnostics.push({ line, column, severity: 'error', source: 'syntax', message });
+
+  const brackets: { char: string; index: number }[] = [];
+  let index = 0;
+  tokenizeSnippet(code, 'python').forEach(token => {
+    if (token.kind === 'string') {
+      const body = token.text.replace(/^[rbuf]+/i, '');
+      const triple = /^("""|''')/.test(body);
+      const closed = triple
+        ? body.length >= 6 && body.endsWith(body.slice(0, 3))
+        : /^(['"])(?:(?!\1)[^\\\n]|\\.)*\1$/.test(body);
+      if (!closed) {
+        const { line, column } = positionOf(code, index);
+        error(line, column, triple ? 'Triple-quoted string is never closed.' : 'String literal is not terminated on this line.');
+      }
+    }
+    if (token.kind === 'punctuation') {
+      [...token.text].forEach((char, offset) => {
+        if ('([{'.includes(char)) brackets.push({ char, index: index + offset });
+        else if (')]}'.includes(char)) {
+          const open = brackets.pop();
+          if (!open || '([{'.indexOf(open.char) !== ')]}'.indexOf(char)) {
+            const { line, column } = positionOf(code, index + offset);
+            error(line, column, open ? `"${char}" does not match "${open.char}".` : `Unmatched "${char}".`);
+          }
+        }
+      });
+    }
+    index += token.text.length;
+  });
+  brackets.forEach(open => {
+    const { line, column } = positionOf(code, open.index);
+    error(line, column, `"${open.char}" is never closed.`);
+  });
+
+  const lines = pythonLines(code);
+  const indents: number[] = [0];
+  let expectIndent = false;
+  lines.forEach(({ text, continued }, idx) => {
+    const line = idx + 1;
+    const content = text.replace(/#.*$/, '').trimEnd();
+    if (continued || !content.trim()) return;
+
+    const leading = text.match(/^[ \t]*/)![0];
+    if (leading.includes(' ') && leading.includes('\t')) error(line, 1, 'Indentation mixes tabs and spaces.');
+    const width = leading.replace(/\t/g, '        ').length;
+    const current = indents[indents.length - 1];
+
+    if (expectIndent) {
+      if (width <= current) error(line, 1, 'Expected an indented block after the line ending with ":".');
+      else indents.push(width);
+    } else if (width > current) {
+      error(line, 1, 'Unexpected indent.');
+      indents.push(width);
+    } else if (width < current) {
+      while (indents.length > 1 && width < indents[indents.length - 1]) indents.pop();
+      if (width !== indents[indents.length - 1]) error(line, 1, 'Dedent does not match any outer indentation level.');
+    }
+
+    const statement = content.trim();
+    // A block header may span lines inside brackets, so the colon is checked on the logical line's last physical line
+    let end = idx;
+    while (end + 1 < lines.length && lines[end + 1].continued) end += 1;
+    const lastLine = lines[end].text.replace(/#.*$/, '').trimEnd();
+    const opensBlock = PY_BLOCK_KEYWORDS.test(statement) && !/^(match|case)\s*[=.([]/.test(statement);
+    const missingColon = opensBlock && !lastLine.endsWith(':') && !/:\s*\S/.test(statement.replace(/(["']).*?\1/g, ''));
+    if (missingColon) {
+      error(line, text.length - text.trimStart().length + 1, `Expected ":" at the end of the "${statement.split(/[\s(:]/)[0]}" line.`);
+    }
+    // Assume the missing colon was meant, so one mistake does not cascade into indent errors
+    expectIndent = lastLine.endsWith(':') || missingColon;
+  });
+  if (expectIndent) error(code.split('\n').length, 1, 'Expected an indented block at the end of the snippet.');
+
+  return diagnostics;
+};
+
+const PLACEHOLDER_PATTERN = /^(?:<[^>]*(?:key|token|secret|password)[^>]*>|\{\{\s*\w*(?:key|token|secret)\w*\s*\}\}|your[-_ ]?\w*(?:key|token|secret|password)\w*|x{4,}|changeme|replace[-_ ]?me|todo|\.\.\.|\*{4,})$/i;
+
+const CREDENTIAL_NAME = /(api[-_]?key|apikey|token|secret|password|passwd|auth|bearer|client[-_]?id)/i;
+
+// Environment lookups across the languages and platforms the generator targets
+const ENV_PATTERNS = [
+  /process\.env\.([A-Za-z_]\w*)/g,
+  /process\.env\[\s*['"]([^'"]+)['"]\s*\]/g,
+  /os\.environ\[\s*['"]([^'"]+)['"]\s*\]/g,
+  /os\.(?:environ\.get|getenv)\(\s*['"]([^'"]+)['"]/g,
+  /\$env\.([A-Za-z_]\w*)/g,
+  /getProperty\(\s*['"]([^'"]+)['"]\s*\)/g
+];
+
+/**
+ * Flags credentials the snippet cannot run without: placeholder values left in string
+ * literals, credential variables assigned an empty string, and environment variables it reads.
+ */
+export const findCredentialIssues = (code: string, language: SnippetLanguage): SnippetDiagnostic[] => {
+  const diagnostics: SnippetDiagnostic[] = [];
+  let index = 0;
+  const tokens = tokenizeSnippet(code, language);
+
+  tokens.forEach((token, idx) => {
+    if (token.kind === 'string') {
+      const value = token.text.replace(/^[rbuf]*(['"`]{1,3})/i, '').replace(/(['"`]{1,3})$/, '');
+      // The name this string is assigned to, e.g. `apiKey = ""` or `"Authorization": ""`
+      const context = tokens.slice(Math.max(0, idx - 4), idx).map(prev => prev.text).join('');
+      const assignedTo = (context.match(/([\w$-]+)['"]?\s*[:=]\s*$/) || [])[1];
+      const { line, column } = positionOf(code, index);
+      if (PLACEHOLDER_PATTERN.test(value.trim()) || /^Bearer\s+(<.*>|your\w*|x{4,}|\.\.\.)$/i.test(value.trim())) {
+        diagnostics.push({ line, column, severity: 'warning', source: 'credential', message: `Placeholder credential ${token.text} must be replaced with a vault connection reference, e.g. connection("<name>").<field>, before this runs.` });
+      } else if (!value && assignedTo && CREDENTIAL_NAME.test(assignedTo)) {
+        diagnostics.push({ line, column, severity: 'warning', source: 'credential', message: `Credential "${assignedTo}" is set to an empty string.` });
+      }
+    }
+    index += token.text.length;
+  });
+
+  const seen = new Set<string>();
+  ENV_PATTERNS.forEach(pattern => {
+    for (const match of code.matchAll(pattern)) {
+      if (seen.has(match[1])) continue;
+      seen.add(match[1]);
+      const { line, column } = positionOf(code, match.index || 0);
+      diagnostics.push({ line, column, severity: 'info', source: 'credential', message: `Reads "${match[1]}" from the environment; configure it on the platform before deploying.` });
+    }
+  });
+
+  return diagnostics;
+};
+
+/**
+ * Runs every check that applies to the snippet's language and returns the findings sorted by
+ * position. JavaScript and TypeScript are parsed with the TypeScript compiler, loaded on demand.
+ */
+export const lintSnippet = async (code: string, language: SnippetLanguage, platform?: Platform): Promise<SnippetDiagnostic[]> => {
+  let diagnostics: SnippetDiagnostic[] = [];
+  if (language === 'javascript' || language === 'typescript') {
+    diagnostics = await lintScript(code, language, platform);
+  } else if (language === 'python') {
+    diagnostics = lintPython(code);
+  } else if (language === 'json') {
+    try {
+      JSON.parse(code);
+    } catch (err: any) {
+      const at = Number((err.message.match(/position (\d+)/) || [])[1] || 0);
+      const { line, column } = positionOf(code, at);
+      diagnostics = [{ line, column, severity: 'error', source: 'syntax', message: err.message }];
+    }
+  }
+  return [...diagnostics, ...findCredentialIssues(code, language)].sort((a, b) => a.line - b.line || a.column - b.column);
+};
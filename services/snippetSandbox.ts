@@ -0,0 +1,74 @@
+
+import { MockResponse, SnippetExecution, SnippetLanguage } from "../types";
+import { SandboxRunMessage, SandboxWorkerMessage } from "./sandboxProtocol";
+import { loadTypeScript } from "./snippetLint";
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export const isRunnableLanguage = (language: SnippetLanguage) => language === 'javascript' || language === 'typescript';
+
+// Rewrites imports and exports to require/module.exports and strips types, so one runtime serves both languages
+const transpile = async (code: string, language: SnippetLanguage) => {
+  const ts = await loadTypeScript();
+  const { outputText, diagnostics = [] } = ts.transpileModule(code, {
+    fileName: language === 'typescript' ? 'snippet.ts' : 'snippet.js',
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      esModuleInterop: true,
+      alwaysStrict: false
+    }
+  });
+  if (diagnostics.length > 0) {
+    throw new Error(`Syntax error: ${ts.flattenDiagnosticMessageText(diagnostics[0].messageText, ' ')}`);
+  }
+  return outputText;
+};
+
+/**
+ * Runs a JavaScript or TypeScript snippet against a payload in a throwaway Web Worker. The
+ * worker has no network access; `fetch` (and the axios shim) answer only from `mocks`. The
+ * worker is terminated after `timeoutMs`, so infinite loops end as a timed-out execution.
+ */
+export const runSnippet = async (
+  code: string,
+  language: SnippetLanguage,
+  payload: unknown,
+  mocks: MockResponse[] = [],
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<SnippetExecution> => {
+  const startedAt = Date.now();
+  const execution: SnippetExecution = { logs: [], requests: [], timedOut: false, durationMs: 0 };
+
+  let compiled: string;
+  try {
+    compiled = await transpile(code, language);
+  } catch (err: any) {
+    return { ...execution, error: err.message };
+  }
+
+  const worker = new Worker(new URL('./sandboxWorker.ts', import.meta.url), { type: 'module' });
+  return new Promise<SnippetExecution>(resolve => {
+    const finish = (outcome: Partial<SnippetExecution>) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve({ ...execution, ...outcome, durationMs: Date.now() - startedAt });
+    };
+    const timer = setTimeout(() => finish({ timedOut: true, error: `Timed out after ${timeoutMs}ms.` }), timeoutMs);
+
+    worker.onmessage = (event: MessageEvent<SandboxWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'log') execution.logs.push(message.entry);
+      else if (message.type === 'request') execution.requests.push(message.request);
+      else finish({ returnValue: message.returnValue, error: message.error });
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish({ error: event.message || 'The sandbox worker crashed.' });
+    };
+
+    const run: SandboxRunMessage = { type: 'run', code: compiled, payload, mocks };
+    worker.postMessage(run);
+  });
+};
@@ -0,0 +1,200 @@
+
+import { AutomationStep, StepEdge, ValidationIssue } from "../types";
+
+export interface GraphNodeLayout {
+  step: AutomationStep;
+  level: number;
+  lane: number;
+}
+
+export interface StepGraph {
+  nodes: GraphNodeLayout[];
+  edges: StepEdge[];
+  levels: number;
+  lanes: number;
+}
+
+/**
+ * Expands the optional graph fields on each step into explicit edges.
+ */
+export const collectEdges = (steps: AutomationStep[]): StepEdge[] => {
+  const edges: StepEdge[] = [];
+
+  steps.forEach((step, idx) => {
+    if (step.branches && step.branches.length > 0) {
+      step.branches.forEach(branch => branch.next.forEach(to =>
+        edges.push({ from: step.id, to, kind: 'branch', label: branch.label })
+      ));
+    }
+
+    if (step.next !== undefined) {
+      const kind = step.parallel && step.next.length > 1 ? 'parallel' : 'next';
+      step.next.forEach(to => edges.push({ from: step.id, to, kind }));
+    } else if (!step.branches?.length && idx < steps.length - 1) {
+      edges.push({ from: step.id, to: steps[idx + 1].id, kind: 'next' });
+    }
+
+    if (step.loop) {
+      step.loop.body.forEach(to => edges.push({ from: step.id, to, kind: 'loop', label: `each ${step.loop!.over}` }));
+    }
+
+    if (step.onError !== undefined) {
+      edges.push({ from: step.id, to: step.onError, kind: 'error', label: 'on error' });
+    }
+  });
+
+  return edges;
+};
+
+export const validateStepGraph = (steps: AutomationStep[]): ValidationIssue[] => {
+  const ids = new Set(steps.map(step => step.id));
+  const issues: ValidationIssue[] = [];
+  const edges = collectEdges(steps);
+
+  edges.forEach(edge => {
+    if (!ids.has(edge.to)) {
+      issues.push({ path: `steps[id=${edge.from}]`, message: `${edge.kind} edge points to missing step ${edge.to}` });
+    }
+    if (edge.to === edge.from && edge.kind !== 'loop') {
+      issues.push({ path: `steps[id=${edge.from}]`, message: `${edge.kind} edge points to itself` });
+    }
+  });
+
+  steps.forEach(step => {
+    if (step.join) {
+      const incoming = edges.filter(edge => edge.to === step.id && edge.kind !== 'error');
+      if (incoming.length < 2) {
+        issues.push({ path: `steps[id=${step.id}]`, message: 'join step should have at least two incoming paths' });
+      }
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Layers the graph top-down by longest path from the entry steps. Cycles back into a loop are
+ * dropped for layering, and error handlers are placed beside the step they guard.
+ */
+export const layoutStepGraph = (steps: AutomationStep[]): StepGraph => {
+  const edges = collectEdges(steps);
+  const ids = new Set(steps.map(step => step.id));
+  const forward = edges.filter(edge => ids.has(edge.to) && edge.kind !== 'error' && edge.from !== edge.to);
+
+  const successors = new Map<number, number[]>();
+  forward.forEach(edge => successors.set(edge.from, [...(successors.get(edge.from) || []), edge.to]));
+
+  // Drop back edges (cycles) found by DFS so the longest-path pass terminates
+  const state = new Map<number, 'visiting' | 'done'>();
+  const acyclic = new Map<number, number[]>();
+  const visit = (id: number) => {
+    state.set(id, 'visiting');
+    (successors.get(id) || []).forEach(to => {
+      if (state.get(to) === 'visiting') return;
+      acyclic.set(id, [...(acyclic.get(id) || []), to]);
+      if (!state.has(to)) visit(to);
+    });
+    state.set(id, 'done');
+  };
+  steps.forEach(step => !state.has(step.id) && visit(step.id));
+
+  const level = new Map<number, number>(steps.map(step => [step.id, 0]));
+  const order = [...steps.map(step => step.id)];
+  // Relax edges until stable; blueprints are small so repeated passes are cheap
+  for (let pass = 0; pass < steps.length; pass++) {
+    let changed = false;
+    order.forEach(id => (acyclic.get(id) || []).forEach(to => {
+      if (level.get(to)! < level.get(id)! + 1) {
+        level.set(to, level.get(id)! + 1);
+        changed = true;
+      }
+    }));
+    if (!changed) break;
+  }
+
+  edges.filter(edge => edge.kind === 'error' && ids.has(edge.to)).forEach(edge => {
+    const hasMainIncoming = forward.some(f => f.to === edge.to);
+    if (!hasMainIncoming) level.set(edge.to, level.get(edge.from)!);
+  });
+
+  const laneCount = new Map<number, number>();
+  const nodes = steps.map(step => {
+    const lvl = level.get(step.id)!;
+    const lane = laneCount.get(lvl) || 0;
+    laneCount.set(lvl, lane + 1);
+    return { step, level: lvl, lane };
+  });
+
+  return {
+    nodes,
+    edges: edges.filter(edge => ids.has(edge.to)),
+    levels: Math.max(0, ...nodes.map(node => node.level)) + 1,
+    lanes: Math.max(1, ...Array.from(laneCount.values()))
+  };
+};
+
+export interface FlowRoute {
+  // Set for the blueprint's branches; fan-out routes have none
+  label?: string;
+  condition?: string;
+  flow: FlowNode[];
+}
+
+export interface FlowNode {
+  step: AutomationStep;
+  // The handler path a failure of this step takes instead of the rest of the flow
+  onError?: FlowNode[];
+  // Where the flow continues after this step when it splits; a flow ends at a node with routes
+  routes?: FlowRoute[];
+}
+
+/**
+ * Turns the step graph into the nested sequence a tree-shaped platform (Make routes, a
+ * Pipedream run() body) can express. Every step appears once, at the first path that reaches
+ * it, so a join continues only on that path. Main paths are placed before error handlers, and
+ * steps no edge reaches are appended to the top-level flow.
+ */
+export const toFlowTree = (steps: AutomationStep[]): FlowNode[] => {
+  const ids = new Set(steps.map(step => step.id));
+  const edges = collectEdges(steps).filter(edge => ids.has(edge.to) && edge.to !== edge.from);
+  const placed = new Set<number>();
+
+  const chain = (id: number): FlowNode[] => {
+    if (placed.has(id)) return [];
+    placed.add(id);
+    const step = steps.find(candidate => candidate.id === id)!;
+    const outgoing = edges.filter(edge => edge.from === id);
+    const node: FlowNode = { step };
+
+    const continuation = outgoing.filter(edge => edge.kind === 'next' || edge.kind === 'parallel' || edge.kind === 'loop');
+    const branchEdges = outgoing.filter(edge => edge.kind === 'branch');
+    let flow: FlowNode[] = [node];
+
+    if (branchEdges.length > 0) {
+      const routes: FlowRoute[] = (step.branches || [])
+        .filter(branch => branch.next.some(to => ids.has(to)))
+        .map(branch => ({ label: branch.label, condition: branch.condition, flow: branch.next.filter(to => ids.has(to)).flatMap(chain) }));
+      const rest = continuation.flatMap(edge => chain(edge.to));
+      node.routes = rest.length > 0 ? [...routes, { flow: rest }] : routes;
+    } else if (step.parallel && continuation.length > 1) {
+      node.routes = continuation.map(edge => ({ flow: chain(edge.to) }));
+    } else {
+      flow = [node, ...continuation.flatMap(edge => chain(edge.to))];
+    }
+
+    const handler = outgoing.find(edge => edge.kind === 'error');
+    if (handler) {
+      const handlerFlow = chain(handler.to);
+      if (handlerFlow.length > 0) node.onError = handlerFlow;
+    }
+    return flow;
+  };
+
+  const targets = new Set(edges.map(edge => edge.to));
+  const roots = steps.filter(step => !targets.has(step.id));
+  const flow = (roots.length > 0 ? roots : steps.slice(0, 1)).flatMap(step => chain(step.id));
+  steps.forEach(step => {
+    if (!placed.has(step.id)) flow.push(...chain(step.id));
+  });
+  return flow;
+};
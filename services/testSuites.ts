@@ -0,0 +1,132 @@
+
+import {
+  AssertionResult,
+  AutomationResult,
+  SimulationResponse,
+  TestAssertion,
+  TestCase,
+  TestCaseResult,
+  TestSuite
+} from "../types";
+import { openDb, promisify, transactionDone, TEST_SUITE_STORE } from "./localDb";
+
+const SUITE_FILE_FORMAT = 'automation-architect/test-suite';
+
+export type SimulateFn = (automation: AutomationResult, inputData: string) => Promise<SimulationResponse>;
+
+export const createTestCase = (name: string, payload: string): TestCase => ({
+  id: `case-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  payload,
+  assertions: [{ kind: 'overall_status', status: 'success' }]
+});
+
+export const loadTestSuite = async (blueprintId: string): Promise<TestSuite | null> => {
+  const db = await openDb();
+  const suite = await promisify<TestSuite | undefined>(db.transaction(TEST_SUITE_STORE).objectStore(TEST_SUITE_STORE).get(blueprintId));
+  return suite || null;
+};
+
+export const saveTestSuite = async (suite: TestSuite): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(TEST_SUITE_STORE, 'readwrite');
+  tx.objectStore(TEST_SUITE_STORE).put(suite);
+  await transactionDone(tx);
+};
+
+export const describeAssertion = (assertion: TestAssertion): string => {
+  switch (assertion.kind) {
+    case 'overall_status': return `Overall status is ${assertion.status}`;
+    case 'step_status': return `Step ${assertion.stepId} is ${assertion.status}`;
+    case 'output_contains':
+      return `${assertion.stepId === undefined ? 'Output' : `Step ${assertion.stepId} output`} contains "${assertion.text}"`;
+  }
+};
+
+export const evaluateAssertion = (assertion: TestAssertion, response: SimulationResponse): AssertionResult => {
+  if (assertion.kind === 'overall_status') {
+    return { assertion, passed: response.overallStatus === assertion.status, actual: response.overallStatus };
+  }
+
+  const step = assertion.stepId === undefined ? undefined : response.stepResults.find(result => result.stepId === assertion.stepId);
+  if (assertion.stepId !== undefined && !step) {
+    return { assertion, passed: false, actual: `step ${assertion.stepId} not in trace` };
+  }
+  if (assertion.kind === 'step_status') {
+    return { assertion, passed: step!.status === assertion.status, actual: step!.status };
+  }
+
+  const haystack = step ? step.output : [...response.stepResults.map(result => result.output), response.summary].join('\n');
+  const passed = haystack.toLowerCase().includes(assertion.text.toLowerCase());
+  return { assertion, passed, actual: passed ? 'found' : haystack.replace(/\s+/g, ' ').substring(0, 120) || 'empty output' };
+};
+
+export const runTestCase = async (testCase: TestCase, automation: AutomationResult, simulate: SimulateFn): Promise<TestCaseResult> => {
+  const startedAt = Date.now();
+  try {
+    const response = await simulate(automation, testCase.payload);
+    const assertions = testCase.assertions.map(assertion => evaluateAssertion(assertion, response));
+    return { caseId: testCase.id, passed: assertions.every(result => result.passed), assertions, response, durationMs: Date.now() - startedAt };
+  } catch (err: any) {
+    return { caseId: testCase.id, passed: false, assertions: [], error: err.message || 'Simulation failed.', durationMs: Date.now() - startedAt };
+  }
+};
+
+/**
+ * Runs every case one after another, so a model-backed suite does not burst the rate limit,
+ * and reports each result as soon as it is known.
+ */
+export const runTestSuite = async (
+  suite: TestSuite,
+  automation: AutomationResult,
+  simulate: SimulateFn,
+  onResult?: (result: TestCaseResult) => void
+): Promise<TestCaseResult[]> => {
+  const results: TestCaseResult[] = [];
+  for (const testCase of suite.cases) {
+    const result = await runTestCase(testCase, automation, simulate);
+    results.push(result);
+    onResult?.(result);
+  }
+  return results;
+};
+
+export const serializeTestSuite = (suite: TestSuite): string =>
+  JSON.stringify({ format: SUITE_FILE_FORMAT, name: suite.name, cases: suite.cases }, null, 2);
+
+const isAssertion = (value: any): value is TestAssertion => {
+  if (!value || typeof value !== 'object') return false;
+  switch (value.kind) {
+    case 'overall_status': return value.status === 'success' || value.status === 'failure';
+    case 'step_status': return typeof value.stepId === 'number' && ['success', 'failure', 'skipped'].includes(value.status);
+    case 'output_contains': return typeof value.text === 'string' && (value.stepId === undefined || typeof value.stepId === 'number');
+    default: return false;
+  }
+};
+
+/**
+ * Reads an exported suite for `blueprintId`. Case ids are regenerated so importing the same
+ * file into two blueprints never shares results between them.
+ */
+export const parseTestSuiteFile = (content: string, blueprintId: string): TestSuite => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("Test suite file is not valid JSON.");
+  }
+  if (!parsed || parsed.format !== SUITE_FILE_FORMAT || !Array.isArray(parsed.cases)) {
+    throw new Error("Not a test suite export: expected a file saved with Export Suite.");
+  }
+  const cases = parsed.cases.map((item: any, idx: number): TestCase => {
+    if (!item || typeof item.name !== 'string' || typeof item.payload !== 'string' || !Array.isArray(item.assertions)) {
+      throw new Error(`Case ${idx + 1} is missing its name, payload or assertions.`);
+    }
+    const invalid = item.assertions.findIndex((assertion: unknown) => !isAssertion(assertion));
+    if (invalid !== -1) {
+      throw new Error(`Case "${item.name}" has an unrecognised assertion at position ${invalid + 1}.`);
+    }
+    return { ...createTestCase(item.name, item.payload), assertions: item.assertions };
+  });
+  return { blueprintId, name: typeof parsed.name === 'string' ? parsed.name : 'Imported suite', cases, updatedAt: Date.now() };
+};
@@ -0,0 +1,144 @@
+
+import { AutomationResult, Json, MockResponse, SimulationStepResult } from "../types";
+import { cloneRunState, createRunState, findCodeStep, isSafePath, LocalRunState, readPath, runStep } from "./localEngine";
+import { detectLanguage } from "./snippetLanguage";
+import { isRunnableLanguage, runSnippet } from "./snippetSandbox";
+
+export interface DebugFrame {
+  stepId: number;
+  // Data context entering and leaving the step
+  before: Json;
+  after: Json;
+  result: SimulationStepResult;
+  // Engine state just before the step ran, so the run can resume here with edited data
+  state: LocalRunState;
+}
+
+export interface DebugSession {
+  automation: AutomationResult;
+  mocks: MockResponse[];
+  frames: DebugFrame[];
+  // Engine state before the next step that has not run yet
+  state: LocalRunState;
+}
+
+export type ContextChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ContextChange {
+  path: string;
+  kind: ContextChangeKind;
+  before?: Json;
+  after?: Json;
+}
+
+export const startDebugSession = (automation: AutomationResult, payload: Json, mocks: MockResponse[] = []): DebugSession => ({
+  automation,
+  mocks,
+  frames: [],
+  state: createRunState(payload)
+});
+
+export const isFinished = (session: DebugSession) => session.state.index >= session.automation.steps.length;
+
+export const nextStepId = (session: DebugSession): number | undefined => session.automation.steps[session.state.index]?.id;
+
+/**
+ * Executes one step. Structured and mocked steps run in the local engine; the code step runs
+ * the blueprint's snippet in the sandbox against the live data context. Anything else has no
+ * local semantics, so the data passes through unchanged and the frame says so.
+ */
+export const stepDebugSession = async (session: DebugSession): Promise<DebugSession> => {
+  if (isFinished(session)) return session;
+  const { automation, mocks } = session;
+  const before = cloneRunState(session.state);
+  const state = cloneRunState(session.state);
+  const step = automation.steps[state.index];
+  let result = runStep(automation, state, mocks);
+
+  const pendingHere = state.pending.length > before.pending.length;
+  if (pendingHere) {
+    const code = automation.codeSnippet;
+    const language = code ? detectLanguage(code) : 'text';
+    if (code && isRunnableLanguage(language) && findCodeStep(automation)?.id === step.id) {
+      const execution = await runSnippet(code, language, state.data, mocks);
+      const failed = execution.timedOut || execution.error !== undefined;
+      // As in the engine, a failure only halts the run when nothing handles it
+      if (failed && step.onError === undefined) state.failed = true;
+      // The snippet settled the step, so its error handler no longer waits on an estimate
+      state.pending.pop();
+      result = {
+        stepId: step.id,
+        status: failed ? 'failure' : 'success',
+        output: execution.returnValue ?? '',
+        reasoning: failed ? `Code snippet failed in the sandbox: ${execution.error}` : `Code snippet ran in the sandbox in ${execution.durationMs}ms.`,
+        engine: 'sandbox',
+        execution
+      };
+    } else {
+      result = { ...result, reasoning: 'No structured operation; the debugger passes the data through unchanged.' };
+    }
+    state.results[state.results.length - 1] = result;
+  }
+
+  const frame: DebugFrame = { stepId: step.id, before: before.data, after: state.data, result, state: before };
+  return { ...session, frames: [...session.frames, frame], state };
+};
+
+/**
+ * Runs until the run finishes or the next step has a breakpoint. At least one step always
+ * runs, so continuing from a breakpoint moves past it.
+ */
+export const continueDebugSession = async (session: DebugSession, breakpoints: Set<number>): Promise<DebugSession> => {
+  let current = await stepDebugSession(session);
+  while (!isFinished(current) && !breakpoints.has(nextStepId(current)!)) {
+    current = await stepDebugSession(current);
+  }
+  return current;
+};
+
+/**
+ * Discards frame `frameIndex` and everything after it, and resumes from just before that
+ * step with `data` as its input. Editing the trigger's input replaces the payload too, since
+ * later steps can read it through `$trigger`.
+ */
+export const rewindDebugSession = (session: DebugSession, frameIndex: number, data: Json): DebugSession => {
+  const state = cloneRunState(frameIndex < session.frames.length ? session.frames[frameIndex].state : session.state);
+  state.data = data;
+  if (state.index === 0) state.trigger = JSON.parse(JSON.stringify(data ?? null));
+  return { ...session, frames: session.frames.slice(0, frameIndex), state };
+};
+
+const isRecord = (value: Json): value is Json[] | { [key: string]: Json } => value !== null && typeof value === 'object';
+
+const joinPath = (base: string, key: string | number) =>
+  typeof key === 'number' ? `${base}[${key}]` : base ? `${base}.${key}` : key;
+
+/**
+ * Leaf-level differences between two data contexts, so a dropped or rewritten field shows up
+ * by its full path rather than as a changed parent object.
+ */
+export const diffContexts = (before: Json, after: Json, path = '', changes: ContextChange[] = []): ContextChange[] => {
+  if (isRecord(before) && isRecord(after) && Array.isArray(before) === Array.isArray(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    keys.forEach(key => {
+      const childPath = joinPath(path, Array.isArray(before) ? Number(key) : key);
+      if (!(key in after)) changes.push({ path: childPath, kind: 'removed', before: before[key] });
+      else if (!(key in before)) changes.push({ path: childPath, kind: 'added', after: after[key] });
+      else diffContexts(before[key], after[key], childPath, changes);
+    });
+    return changes;
+  }
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path: path || '(root)', kind: 'changed', before, after });
+  }
+  return changes;
+};
+
+/**
+ * The value of `path` entering each executed step and after the last one, for following a
+ * field through the run and spotting the step where it disappeared.
+ */
+export const watchPath = (session: DebugSession, path: string): { stepId: number | null; value: Json }[] => !isSafePath(path) ? [] : [
+  ...session.frames.map(frame => ({ stepId: frame.stepId, value: readPath(frame.before, path, frame.state.trigger) })),
+  ...(session.frames.length > 0 ? [{ stepId: null, value: readPath(session.state.data, path, session.state.trigger) }] : [])
+];
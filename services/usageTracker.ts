@@ -0,0 +1,180 @@
+
+import { ModelRole, TokenUsage, UsageBudget, UsageFeature, UsageRecord } from "../types";
+import { getProvider } from "./providers";
+import { createWriteStatus, openDb, promisify, transactionDone, USAGE_STORE } from "./localDb";
+
+const BUDGET_KEY = 'automation-architect:usage-budget';
+const BUDGET_WARNING_RATIO = 0.8;
+
+// USD per million tokens at standard (≤200k prompt) rates; thinking tokens bill as output
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 }
+};
+
+export const FEATURE_LABELS: Record<UsageFeature, string> = {
+  generate: 'Blueprint Generation',
+  refine: 'Blueprint Refinement',
+  simulate: 'Simulation',
+  chat: 'Advisor Chat',
+  chat_summary: 'Chat Summaries',
+  vision: 'Vision Extract',
+  speech: 'Voice Lab'
+};
+
+export const estimateCost = (model: string, usage?: TokenUsage): number | null => {
+  const price = MODEL_PRICING[model];
+  if (!price) return null;
+  if (!usage) return 0;
+  return (usage.inputTokens * price.input + (usage.outputTokens + usage.thinkingTokens) * price.output) / 1_000_000;
+};
+
+const addUsage = (total: TokenUsage | undefined, usage: TokenUsage): TokenUsage => ({
+  inputTokens: (total?.inputTokens || 0) + usage.inputTokens,
+  outputTokens: (total?.outputTokens || 0) + usage.outputTokens,
+  thinkingTokens: (total?.thinkingTokens || 0) + usage.thinkingTokens,
+  totalTokens: (total?.totalTokens || 0) + usage.totalTokens
+});
+
+export const saveUsageRecord = async (record: UsageRecord): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).put(record);
+  await transactionDone(tx);
+};
+
+// UsageView warns while records are not being saved, since metering must never fail the call it measures
+export const usageWriteStatus = createWriteStatus();
+
+export const listUsage = async (since = 0): Promise<UsageRecord[]> => {
+  const db = await openDb();
+  const index = db.transaction(USAGE_STORE).objectStore(USAGE_STORE).index('startedAt');
+  const records = await promisify<UsageRecord[]>(index.getAll(IDBKeyRange.lowerBound(since)));
+  return records.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const clearUsage = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).clear();
+  await transactionDone(tx);
+};
+
+/**
+ * Starts metering one feature call. Token counts from every attempt are summed, since
+ * failed attempts can still be billed; the record is written when `finish` is called.
+ */
+export const startUsageTracking = (feature: UsageFeature, role: ModelRole) => {
+  const provider = getProvider();
+  const model = provider.modelFor(role);
+  const startedAt = Date.now();
+  let usage: TokenUsage | undefined;
+
+  return {
+    onUsage: (reported: TokenUsage) => {
+      usage = addUsage(usage, reported);
+    },
+    finish: (status: UsageRecord['status'], retries: number, error?: string) => {
+      const record: UsageRecord = {
+        id: `usage-${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+        feature,
+        provider: provider.id,
+        model,
+        startedAt,
+        latencyMs: Date.now() - startedAt,
+        retries,
+        status,
+        usage,
+        estimatedCost: provider.id === 'mock' ? 0 : estimateCost(model, usage),
+        error
+      };
+      usageWriteStatus.track(saveUsageRecord(record), "The usage record could not be saved.");
+    }
+  };
+};
+
+export interface UsageTotals {
+  calls: number;
+  errors: number;
+  retries: number;
+  tokens: number;
+  cost: number;
+  // Calls whose model has no known price, so `cost` understates them
+  unpriced: number;
+  latencyMs: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, errors: 0, retries: 0, tokens: 0, cost: 0, unpriced: 0, latencyMs: 0 });
+
+const accumulate = (totals: UsageTotals, record: UsageRecord) => {
+  totals.calls += 1;
+  totals.errors += record.status === 'error' ? 1 : 0;
+  totals.retries += record.retries;
+  totals.tokens += record.usage?.totalTokens || 0;
+  totals.cost += record.estimatedCost || 0;
+  totals.unpriced += record.estimatedCost === null ? 1 : 0;
+  totals.latencyMs += record.latencyMs;
+};
+
+export const dayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Rolls records up overall, per feature and per local calendar day (newest day first).
+ * `latencyMs` holds the sum; divide by `calls` for the average.
+ */
+export const summarizeUsage = (records: UsageRecord[]) => {
+  const total = emptyTotals();
+  const byFeature = new Map<UsageFeature, UsageTotals>();
+  const byDay = new Map<string, UsageTotals>();
+
+  records.forEach(record => {
+    accumulate(total, record);
+    if (!byFeature.has(record.feature)) byFeature.set(record.feature, emptyTotals());
+    accumulate(byFeature.get(record.feature)!, record);
+    const day = dayKey(record.startedAt);
+    if (!byDay.has(day)) byDay.set(day, emptyTotals());
+    accumulate(byDay.get(day)!, record);
+  });
+
+  return {
+    total,
+    byFeature: Array.from(byFeature, ([feature, totals]) => ({ feature, totals })).sort((a, b) => b.totals.cost - a.totals.cost || b.totals.calls - a.totals.calls),
+    byDay: Array.from(byDay, ([day, totals]) => ({ day, totals })).sort((a, b) => b.day.localeCompare(a.day))
+  };
+};
+
+export const loadUsageBudget = (): UsageBudget | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BUDGET_KEY) || 'null') as UsageBudget | null;
+    return stored && stored.amount > 0 ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveUsageBudget = (budget: UsageBudget | null) => {
+  if (budget) localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  else localStorage.removeItem(BUDGET_KEY);
+};
+
+export const budgetPeriodStart = (budget: UsageBudget, now = Date.now()) => {
+  const date = new Date(now);
+  return budget.period === 'daily'
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+    : new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+export const budgetStatus = (records: UsageRecord[], budget: UsageBudget, now = Date.now()) => {
+  const start = budgetPeriodStart(budget, now);
+  const spent = records.filter(record => record.startedAt >= start).reduce((sum, record) => sum + (record.estimatedCost || 0), 0);
+  const ratio = spent / budget.amount;
+  return {
+    spent,
+    ratio,
+    level: ratio >= 1 ? 'exceeded' as const : ratio >= BUDGET_WARNING_RATIO ? 'warning' as const : 'ok' as const
+  };
+};
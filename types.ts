@@ -5,7 +5,10 @@ export enum AppView {
   IMAGE_ANALYSIS = 'IMAGE_ANALYSIS',
   TTS = 'TTS',
   LIVE_CONSULTANT = 'LIVE_CONSULTANT',
-  LOGIC_SANDBOX = 'LOGIC_SANDBOX'
+  LOGIC_SANDBOX = 'LOGIC_SANDBOX',
+  LIBRARY = 'LIBRARY',
+  USAGE = 'USAGE',
+  SETTINGS = 'SETTINGS'
 }
 
 export type Platform = 'zapier' | 'n8n' | 'langchain' | 'make' | 'pipedream' | 'google-sheets' | 'airtable' | 'shopify';
@@ -17,11 +20,73 @@ export interface GroundingSource {
   uri: string;
 }
 
+export type ConditionOperator = 'equals' | 'not_equals' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'not_contains' | 'exists' | 'not_exists' | 'matches';
+
+export type TransformFn = 'uppercase' | 'lowercase' | 'trim' | 'to_number' | 'to_string' | 'to_boolean' | 'round' | 'abs' | 'length' | 'cents_to_units' | 'units_to_cents' | 'iso_date' | 'json';
+
+// Any value JSON can carry: trigger payloads, the data passed between steps and mapped fields
+export type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
+
+export interface StepCondition {
+  field: string;
+  operator: ConditionOperator;
+  value?: string | number | boolean | null;
+}
+
+export interface FieldMapping {
+  target: string;
+  source?: string;
+  template?: string;
+  value?: string | number | boolean | null;
+  transform?: TransformFn;
+}
+
+export interface StepOperation {
+  kind: 'map' | 'transform' | 'filter' | 'branch';
+  mappings?: FieldMapping[];
+  conditions?: StepCondition[];
+  match?: 'all' | 'any';
+  skipWhenTrue?: number[];
+  skipWhenFalse?: number[];
+}
+
+export interface StepBranch {
+  label: string;
+  condition?: string;
+  next: number[];
+}
+
+export interface StepLoop {
+  over: string;
+  body: number[];
+  maxIterations?: number;
+}
+
+// Graph fields are optional: a step without `next` or `branches` flows to the following step in
+// the list, while an explicit empty `next` marks the end of a path.
 export interface AutomationStep {
   id: number;
   title: string;
   description: string;
   type: StepType;
+  operation?: StepOperation;
+  next?: number[];
+  branches?: StepBranch[];
+  parallel?: boolean;
+  join?: boolean;
+  loop?: StepLoop;
+  onError?: number;
+  // Name of the vault connection whose credentials the step uses
+  connection?: string;
+}
+
+export type StepEdgeKind = 'next' | 'branch' | 'parallel' | 'loop' | 'error';
+
+export interface StepEdge {
+  from: number;
+  to: number;
+  kind: StepEdgeKind;
+  label?: string;
 }
 
 export interface AutomationResult {
@@ -30,6 +95,28 @@ export interface AutomationResult {
   codeSnippet?: string;
   explanation: string;
   sources?: GroundingSource[];
+  // Connections the steps and snippet refer to by name; never carries secret values
+  connections?: BlueprintConnection[];
+}
+
+export interface BlueprintConnection {
+  name: string;
+  service: string;
+  scopes?: string[];
+}
+
+// A named set of credentials in the local vault. Only the secret values are encrypted, so names,
+// services and scopes stay readable for generation and export while the vault is locked.
+export interface VaultConnection {
+  id: string;
+  // How blueprints and snippets refer to it, e.g. "slack-sales"
+  name: string;
+  service: string;
+  scopes: string[];
+  // Names of the secret values held for it, e.g. ["token"]
+  secretFields: string[];
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface SimulationStepResult {
@@ -37,6 +124,69 @@ export interface SimulationStepResult {
   status: 'success' | 'failure' | 'skipped';
   output: string;
   reasoning: string;
+  engine?: 'local' | 'model' | 'sandbox' | 'mock';
+  // Present when the blueprint's code snippet actually ran in the sandbox worker
+  execution?: SnippetExecution;
+}
+
+export interface SandboxLogEntry {
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  text: string;
+}
+
+export type MockFailureMode = 'none' | 'rate_limit' | 'server_error' | 'timeout';
+
+export interface MockEndpoint {
+  id: string;
+  // The API as steps name it, e.g. "Slack"; used to match action steps by title
+  service: string;
+  // 'ANY' matches every method
+  method: string;
+  // Matched as a substring of the request URL
+  route: string;
+  status: number;
+  // Raw response body; sent as JSON when it parses as JSON
+  body: string;
+  latencyMs: number;
+  failure: MockFailureMode;
+  // Chance (0-1) that the failure is injected on a given run
+  failureRate: number;
+  enabled: boolean;
+  // Vault connection a request must authenticate with; requests using another are refused
+  connection?: string;
+}
+
+// One endpoint's outcome for a single simulation run, rolled once so every engine sees the same result
+export interface MockResponse {
+  endpoint: MockEndpoint;
+  status: number;
+  body: string;
+  headers: Record<string, string>;
+  latencyMs: number;
+  timedOut: boolean;
+  injected: boolean;
+}
+
+export interface SandboxRequestLog {
+  method: string;
+  url: string;
+  // null when no mock endpoint matched and the request was refused, or when it timed out
+  status: number | null;
+  service?: string;
+  injected?: boolean;
+  // Vault connection whose credentials the request carried, and why the mock refused it
+  connection?: string;
+  connectionError?: string;
+}
+
+export interface SnippetExecution {
+  logs: SandboxLogEntry[];
+  requests: SandboxRequestLog[];
+  // JSON of the value the snippet returned or exported, if any
+  returnValue?: string;
+  error?: string;
+  timedOut: boolean;
+  durationMs: number;
 }
 
 export interface SimulationResponse {
@@ -50,6 +200,30 @@ export interface ChatMessage {
   role: 'user' | 'model';
   content: string;
   timestamp: number;
+  // Error notices are shown in the thread but never sent back to the model as context
+  isError?: boolean;
+  // The typed failure behind an error notice, so the thread can offer the matching recovery
+  error?: ApiError;
+}
+
+export type GenerationPhase = 'reasoning' | 'grounding' | 'drafting' | 'steps';
+
+export interface GenerationProgress {
+  phase: GenerationPhase;
+  // Latest reasoning summary streamed by the model, when thoughts are included
+  thought?: string;
+  stepTitles: string[];
+}
+
+export interface ChatSession {
+  id: string;
+  name: string;
+  messages: ChatMessage[];
+  // Rolling summary of turns that no longer fit in the context window
+  summary?: string;
+  summarizedThrough?: number;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface VoiceModel {
@@ -59,10 +233,36 @@ export interface VoiceModel {
   type: string;
 }
 
+export type ApiErrorCode =
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'safety_blocked'
+  | 'invalid_response'
+  | 'schema_mismatch'
+  | 'configuration'
+  | 'auth_failed'
+  | 'unsupported'
+  | 'network'
+  | 'timeout'
+  | 'server_error'
+  | 'bad_request'
+  | 'invalid_input'
+  | 'cancelled'
+  | 'unknown';
+
+export interface ApiErrorDetails {
+  status?: number;
+  retryAfterMs?: number;
+  // Attempts made before giving up, including the first
+  attempts?: number;
+  // What was still wrong with a structured answer after the repair attempt
+  issues?: ValidationIssue[];
+}
+
 export interface ApiError {
   message: string;
-  code?: string | number;
-  details?: any;
+  code?: ApiErrorCode;
+  details?: ApiErrorDetails;
 }
 
 export interface AsyncState<T> {
@@ -70,3 +270,223 @@ export interface AsyncState<T> {
   loading: boolean;
   error: ApiError | null;
 }
+
+export type TestAssertion =
+  | { kind: 'overall_status'; status: SimulationResponse['overallStatus'] }
+  | { kind: 'step_status'; stepId: number; status: SimulationStepResult['status'] }
+  // Without a stepId the text may appear in any step's output or the summary
+  | { kind: 'output_contains'; stepId?: number; text: string };
+
+export interface TestCase {
+  id: string;
+  name: string;
+  // Raw JSON, kept as typed so an invalid payload fails its case instead of the whole suite
+  payload: string;
+  assertions: TestAssertion[];
+}
+
+export interface TestSuite {
+  // Library id for saved blueprints, session entry id otherwise
+  blueprintId: string;
+  name: string;
+  cases: TestCase[];
+  updatedAt: number;
+}
+
+export interface AssertionResult {
+  assertion: TestAssertion;
+  passed: boolean;
+  actual: string;
+}
+
+export interface TestCaseResult {
+  caseId: string;
+  passed: boolean;
+  assertions: AssertionResult[];
+  response?: SimulationResponse;
+  error?: string;
+  durationMs: number;
+}
+
+export type PayloadVariantKind = 'missing' | 'null' | 'wrong_type' | 'huge_array' | 'unicode' | 'boundary';
+
+export interface PayloadVariant {
+  id: string;
+  kind: PayloadVariantKind;
+  // The field the variant changes, in localEngine path syntax (e.g. "items[0].price")
+  path: string;
+  label: string;
+  payload: string;
+}
+
+export interface BlueprintEntry {
+  id: string;
+  libraryId?: string;
+  description: string;
+  result: AutomationResult;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SavedBlueprint {
+  id: string;
+  name: string;
+  platform: Platform;
+  description: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+  latestVersion: number;
+}
+
+export interface BlueprintVersion {
+  id: string;
+  blueprintId: string;
+  version: number;
+  result: AutomationResult;
+  createdAt: number;
+}
+
+export type DiffKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface StepDiff {
+  kind: DiffKind;
+  stepId: number;
+  before?: AutomationStep;
+  after?: AutomationStep;
+  changedFields: (keyof AutomationStep)[];
+}
+
+export interface SnippetDiffLine {
+  kind: Exclude<DiffKind, 'changed'>;
+  text: string;
+}
+
+export interface BlueprintDiff {
+  platformChanged: boolean;
+  explanationChanged: boolean;
+  snippetChanged: boolean;
+  steps: StepDiff[];
+  snippet: SnippetDiffLine[];
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type SnippetLanguage = 'javascript' | 'typescript' | 'python' | 'json' | 'text';
+
+export type SnippetTokenKind = 'keyword' | 'string' | 'comment' | 'number' | 'function' | 'punctuation' | 'plain';
+
+export interface SnippetToken {
+  kind: SnippetTokenKind;
+  text: string;
+}
+
+export interface SnippetDiagnostic {
+  // 1-based, pointing at the start of the offending text
+  line: number;
+  column: number;
+  severity: 'error' | 'warning' | 'info';
+  // 'checker' marks a failure of the checker itself, such as the compiler not loading
+  source: 'syntax' | 'undefined' | 'credential' | 'checker';
+  message: string;
+}
+
+export type BlueprintLintRule =
+  | 'trigger_count'
+  | 'action_before_trigger'
+  | 'logic_without_effect'
+  | 'duplicate_id'
+  | 'broken_reference'
+  | 'undeclared_service'
+  | 'hardcoded_secret'
+  | 'unhandled_external_call';
+
+export interface BlueprintFinding {
+  rule: BlueprintLintRule;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  stepId?: number;
+  // 1-based line in codeSnippet, for snippet findings
+  line?: number;
+  // Refinement instruction that asks the model to resolve this finding
+  fix: string;
+}
+
+export type ExportFormat = 'n8n' | 'make' | 'pipedream-js' | 'pipedream-ts';
+
+export interface ExportArtifact {
+  format: ExportFormat;
+  filename: string;
+  mimeType: string;
+  content: string;
+  issues: ValidationIssue[];
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Features ask for a capability tier rather than a model name; each provider maps tiers to models
+export type ModelRole = 'reasoning' | 'fast' | 'vision' | 'speech' | 'live';
+
+export interface OpenAiCompatibleConfig {
+  // e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp
+  baseUrl: string;
+  apiKey: string;
+  models: Record<ModelRole, string>;
+}
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  openAiCompatible: OpenAiCompatibleConfig;
+  // Sent to the Gemini proxy when its deployment sets PROXY_ACCESS_TOKEN
+  proxyToken: string;
+  // Save every live response as a replayable fixture for the mock provider
+  recordFixtures: boolean;
+}
+
+export type FixtureKind = 'text' | 'json' | 'vision' | 'speech';
+
+export interface AiFixture {
+  id: string;
+  kind: FixtureKind;
+  // Schema name for JSON calls (e.g. automation_blueprint), otherwise the kind itself
+  operation: string;
+  requestHash: string;
+  requestPreview: string;
+  // Text reply, `{ data, sources }` for JSON calls, or base64 PCM for speech
+  response: unknown;
+  recordedAt: number;
+}
+
+export type UsageFeature = 'generate' | 'refine' | 'simulate' | 'chat' | 'chat_summary' | 'vision' | 'speech';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // Reasoning tokens, billed as output but reported separately by Gemini
+  thinkingTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageRecord {
+  id: string;
+  feature: UsageFeature;
+  provider: ProviderId;
+  model: string;
+  startedAt: number;
+  latencyMs: number;
+  retries: number;
+  status: 'success' | 'error' | 'cancelled';
+  // Summed across retried attempts; absent when the provider reports no token counts
+  usage?: TokenUsage;
+  // Estimated USD, or null when the model has no known price (e.g. local models)
+  estimatedCost: number | null;
+  error?: string;
+}
+
+export interface UsageBudget {
+  amount: number;
+  period: 'daily' | 'monthly';
+}
@@ -1,8 +1,21 @@
 
-import React, { useState, useMemo } from 'react';
-import { generateAutomation } from '../services/geminiService';
-import { AutomationResult, Platform, AsyncState } from '../types';
+import React, { useState, useMemo, useRef } from 'react';
+import { generateAutomation, refineAutomation } from '../services/geminiService';
+import { AutomationResult, AutomationStep, BlueprintFinding, Platform, AsyncState, AppView, ValidationIssue, GenerationPhase, GenerationProgress } from '../types';
 import { Card } from '../components/ui/Card';
+import { useBlueprints } from '../context/BlueprintContext';
+import { saveBlueprint } from '../services/blueprintLibrary';
+import { ExportMenu } from '../components/ExportMenu';
+import { FlowDiagram } from '../components/FlowDiagram';
+import { BlueprintEditor } from '../components/BlueprintEditor';
+import { BlueprintDiffPanel } from '../components/BlueprintDiffPanel';
+import { ErrorNotice } from '../components/ErrorNotice';
+import { SnippetWorkspace } from '../components/SnippetWorkspace';
+import { BlueprintLintPanel } from '../components/BlueprintLintPanel';
+import { toApiError } from '../services/aiErrors';
+import { diffBlueprints, applyDiffSelection } from '../services/blueprintDiff';
+import { lintBlueprint } from '../services/blueprintLint';
+import { loadConnections } from '../services/connectionVault';
 import { 
   Sparkles, 
   Loader2, 
@@ -13,29 +26,66 @@ import {
   AlertCircle, 
   X,
   Lightbulb,
-  Terminal,
   Zap,
   Box,
   Cpu,
   Layers,
   Check,
   ExternalLink,
-  Globe
+  Globe,
+  FlaskConical,
+  Save,
+  Tag,
+  Pencil,
+  Eye,
+  Wand2,
+  Send,
+  Brain,
+  Search,
+  ListChecks,
+  Square
 } from 'lucide-react';
 
 const MIN_DESCRIPTION_LENGTH = 20;
+
+const GENERATION_PHASES: { id: GenerationPhase; label: string; icon: React.ReactNode }[] = [
+  { id: 'reasoning', label: 'Reasoning about requirements', icon: <Brain size={14} /> },
+  { id: 'grounding', label: 'Verifying APIs with Google Search', icon: <Search size={14} /> },
+  { id: 'drafting', label: 'Drafting blueprint', icon: <Code size={14} /> },
+  { id: 'steps', label: 'Steps arriving', icon: <ListChecks size={14} /> }
+];
 const ALLOWED_CHARS_REGEX = /[^a-zA-Z0-9\s.,!?;:()@\-_'\"\/&\[\]{}#$%=+*]/g;
 
-const AutomationGeneratorView: React.FC = () => {
-  const [platform, setPlatform] = useState<Platform>('zapier');
-  const [description, setDescription] = useState('');
+interface AutomationGeneratorViewProps {
+  onNavigate?: (view: AppView) => void;
+}
+
+const AutomationGeneratorView: React.FC<AutomationGeneratorViewProps> = ({ onNavigate }) => {
+  const { activeBlueprint, addBlueprint, updateBlueprint } = useBlueprints();
+  const [platform, setPlatform] = useState<Platform>(activeBlueprint?.result.platform || 'zapier');
+  const [description, setDescription] = useState(activeBlueprint?.description || '');
   const [touched, setTouched] = useState(false);
   const [copied, setCopied] = useState(false);
   const [state, setState] = useState<AsyncState<AutomationResult>>({
-    data: null,
+    data: activeBlueprint?.result || null,
     loading: false,
     error: null
   });
+  const [libraryName, setLibraryName] = useState('');
+  const [libraryTags, setLibraryTags] = useState('');
+  const [saveState, setSaveState] = useState<{ saving: boolean; message: string | null; isError: boolean }>({
+    saving: false,
+    message: null,
+    isError: false
+  });
+  const [exportIssues, setExportIssues] = useState<ValidationIssue[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [refineState, setRefineState] = useState<AsyncState<AutomationResult>>({ data: null, loading: false, error: null });
+  const [acceptedSteps, setAcceptedSteps] = useState<Set<number>>(new Set());
+  const [snippetAccepted, setSnippetAccepted] = useState(true);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const platforms: { id: Platform; label: string; tagline: string; logo: string; color: string; tooltip: string }[] = [
     { 
@@ -116,6 +166,17 @@ const AutomationGeneratorView: React.FC = () => {
     };
   }, [description]);
 
+  const refinementDiff = useMemo(
+    () => state.data && refineState.data ? diffBlueprints(state.data, refineState.data) : null,
+    [state.data, refineState.data]
+  );
+
+  // Checked against the request that produced the blueprint, not whatever is in the textarea now
+  const lintFindings = useMemo(
+    () => state.data ? lintBlueprint(state.data, activeBlueprint?.description || description) : [],
+    [state.data, activeBlueprint?.description, description]
+  );
+
   const handleDescriptionChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const sanitizedValue = e.target.value.replace(ALLOWED_CHARS_REGEX, '');
     setDescription(sanitizedValue);
@@ -123,20 +184,116 @@ const AutomationGeneratorView: React.FC = () => {
 
   const handleGenerate = async () => {
     if (!validation.isValid) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(null);
     setState({ ...state, loading: true, error: null });
     
     try {
-      const data = await generateAutomation(platform, description);
+      const data = await generateAutomation(platform, description, {
+        signal: controller.signal,
+        onProgress: setProgress,
+        connections: loadConnections()
+      });
+      addBlueprint(description, data);
+      setEditing(false);
+      setRefineState({ data: null, loading: false, error: null });
       setState({ data, loading: false, error: null });
     } catch (err: any) {
+      if (controller.signal.aborted) {
+        // Cancelling keeps whatever blueprint was on screen before the request
+        setState({ ...state, loading: false, error: null });
+        return;
+      }
       setState({ 
         data: null, 
         loading: false, 
-        error: { message: err.message || "Blueprint synthesis failed." } 
+        error: toApiError(err, "Blueprint synthesis failed.")
+      });
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleCancelGenerate = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleSaveToLibrary = async () => {
+    if (!state.data) return;
+    setSaveState({ saving: true, message: null, isError: false });
+    try {
+      const record = await saveBlueprint({
+        id: activeBlueprint?.libraryId,
+        name: libraryName || description.substring(0, 48),
+        description: activeBlueprint?.description || description,
+        tags: libraryTags.split(','),
+        result: state.data
       });
+      if (activeBlueprint) {
+        updateBlueprint(activeBlueprint.id, { libraryId: record.id });
+      }
+      setSaveState({ saving: false, message: `Saved as v${record.latestVersion}`, isError: false });
+    } catch (err: any) {
+      setSaveState({ saving: false, message: err.message || "Could not save to library.", isError: true });
+    }
+  };
+
+  const handleStepsChange = (steps: AutomationStep[]) => {
+    if (!state.data) return;
+    const result = { ...state.data, steps };
+    setState({ ...state, data: result });
+    if (activeBlueprint) {
+      updateBlueprint(activeBlueprint.id, { result });
+    }
+  };
+
+  const handleSnippetChange = (codeSnippet: string) => {
+    if (!state.data) return;
+    const result = { ...state.data, codeSnippet };
+    setState({ ...state, data: result });
+    if (activeBlueprint) {
+      updateBlueprint(activeBlueprint.id, { result });
     }
   };
 
+  const handleRefine = async (text = instruction) => {
+    if (!state.data || !text.trim()) return;
+    setInstruction(text);
+    setRefineState({ data: null, loading: true, error: null });
+    try {
+      const proposal = await refineAutomation(state.data, text.trim());
+      const diff = diffBlueprints(state.data, proposal);
+      // Start with every proposed change accepted; the user opts out step by step
+      setAcceptedSteps(new Set(diff.steps.filter(step => step.kind !== 'unchanged').map(step => step.stepId)));
+      setSnippetAccepted(true);
+      setRefineState({ data: proposal, loading: false, error: null });
+    } catch (err: any) {
+      setRefineState({ data: null, loading: false, error: toApiError(err, "Blueprint refinement failed.") });
+    }
+  };
+
+  const handleFixFinding = (finding: BlueprintFinding) => handleRefine(finding.fix);
+
+  const toggleAcceptedStep = (stepId: number) => {
+    const next = new Set(acceptedSteps);
+    if (next.has(stepId)) next.delete(stepId);
+    else next.add(stepId);
+    setAcceptedSteps(next);
+  };
+
+  const handleApplyRefinement = () => {
+    if (!state.data || !refineState.data || !refinementDiff) return;
+    const result = applyDiffSelection(state.data, refineState.data, refinementDiff, acceptedSteps, snippetAccepted);
+    setState({ ...state, data: result });
+    if (activeBlueprint) {
+      updateBlueprint(activeBlueprint.id, { result });
+    }
+    setEditing(false);
+    setInstruction('');
+    setRefineState({ data: null, loading: false, error: null });
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     setCopied(true);
@@ -150,16 +307,12 @@ const AutomationGeneratorView: React.FC = () => {
         <Card title="Blueprint Architect" subtitle="Configure target ecosystem and logic constraints">
           <div className="space-y-6">
             {state.error && (
-              <div className="bg-red-50 border border-red-100 text-red-800 px-5 py-4 rounded-2xl flex items-start gap-4 animate-in slide-in-from-top-2">
-                <AlertCircle size={20} className="text-red-500 shrink-0 mt-0.5" />
-                <div className="flex-1 text-xs">
-                  <h4 className="font-bold mb-1">Architectural Error</h4>
-                  <p className="opacity-80 leading-relaxed">{state.error.message}</p>
-                </div>
-                <button onClick={() => setState({ ...state, error: null })} className="p-1 hover:bg-red-100 rounded-lg transition-colors">
-                  <X size={16} />
-                </button>
-              </div>
+              <ErrorNotice
+                error={state.error}
+                onRetry={handleGenerate}
+                onOpenSettings={() => onNavigate?.(AppView.SETTINGS)}
+                onDismiss={() => setState({ ...state, error: null })}
+              />
             )}
 
             <div className="space-y-4">
@@ -282,15 +435,123 @@ const AutomationGeneratorView: React.FC = () => {
                <div className="w-20 h-20 bg-indigo-600 rounded-[2rem] flex items-center justify-center mb-8 shadow-2xl shadow-indigo-500/50 animate-bounce">
                  <Cpu size={36} className="text-white animate-spin-slow" />
                </div>
-               <p className="text-sm font-black text-indigo-900 uppercase tracking-[0.4em] mb-2">Analyzing Architecture</p>
-               <span className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">Running Google Search verification...</span>
+               <p className="text-sm font-black text-indigo-900 uppercase tracking-[0.4em] mb-6">Analyzing Architecture</p>
+               <div className="w-80 space-y-2 text-left">
+                 {GENERATION_PHASES.map((phase, idx) => {
+                   const currentIdx = GENERATION_PHASES.findIndex(p => p.id === (progress?.phase || 'reasoning'));
+                   const status = idx < currentIdx ? 'done' : idx === currentIdx ? 'active' : 'pending';
+                   return (
+                     <div key={phase.id} className={`flex items-center gap-3 text-[10px] font-black uppercase tracking-widest transition-all ${
+                       status === 'active' ? 'text-indigo-600' : status === 'done' ? 'text-green-600' : 'text-gray-300'
+                     }`}>
+                       {status === 'done' ? <CheckCircle2 size={14} /> : status === 'active' ? <Loader2 size={14} className="animate-spin" /> : phase.icon}
+                       {phase.label}
+                       {phase.id === 'steps' && progress && progress.stepTitles.length > 0 && ` (${progress.stepTitles.length})`}
+                     </div>
+                   );
+                 })}
+               </div>
+               {progress?.thought && progress.phase !== 'steps' && (
+                 <p className="w-96 mt-6 text-[11px] text-gray-400 italic leading-relaxed line-clamp-3">{progress.thought}</p>
+               )}
+               {progress && progress.stepTitles.length > 0 && (
+                 <div className="w-80 mt-6 space-y-1 text-left">
+                   {progress.stepTitles.slice(-4).map((title, idx) => (
+                     <div key={idx} className="text-[11px] font-bold text-gray-600 truncate animate-in fade-in slide-in-from-bottom-1">• {title}</div>
+                   ))}
+                 </div>
+               )}
+               <button
+                 onClick={handleCancelGenerate}
+                 className="mt-8 flex items-center gap-2 px-5 py-2.5 text-[10px] font-black uppercase tracking-widest rounded-xl border border-gray-200 text-gray-500 hover:bg-red-50 hover:text-red-600 hover:border-red-100 transition-all"
+               >
+                 <Square size={12} fill="currentColor" />
+                 Cancel
+               </button>
              </div>
           </div>
         )}
 
+        {state.data && (
+          <div className="flex flex-col md:flex-row md:items-center gap-3 p-4 bg-white border border-gray-100 rounded-2xl shadow-sm animate-in fade-in">
+            <input
+              value={libraryName}
+              onChange={(e) => setLibraryName(e.target.value)}
+              placeholder="Blueprint name"
+              className="flex-1 bg-gray-50 border border-gray-100 rounded-xl px-4 py-2.5 text-xs focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all"
+            />
+            <div className="relative flex-1">
+              <Tag size={12} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-300" />
+              <input
+                value={libraryTags}
+                onChange={(e) => setLibraryTags(e.target.value)}
+                placeholder="tags, comma, separated"
+                className="w-full bg-gray-50 border border-gray-100 rounded-xl pl-8 pr-4 py-2.5 text-xs focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all"
+              />
+            </div>
+            <button
+              onClick={handleSaveToLibrary}
+              disabled={saveState.saving}
+              className="flex items-center justify-center gap-2 px-5 py-2.5 text-[10px] font-black uppercase tracking-widest rounded-xl bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-100 disabled:text-gray-400 transition-all"
+            >
+              {saveState.saving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+              {activeBlueprint?.libraryId ? 'Save New Version' : 'Save to Library'}
+            </button>
+            {saveState.message && (
+              <span className={`text-[10px] font-bold ${saveState.isError ? 'text-red-500' : 'text-green-600'}`}>{saveState.message}</span>
+            )}
+          </div>
+        )}
+
         {state.data && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 animate-in fade-in slide-in-from-right-12 duration-1000 items-start">
-            <Card title="Logical Strategy" subtitle={`Infrastructure: ${state.data.platform.toUpperCase()}`}>
+            <Card 
+              title="Logical Strategy" 
+              subtitle={`Infrastructure: ${state.data.platform.toUpperCase()}`}
+              className={editing ? 'lg:col-span-2' : ''}
+              headerAction={
+                <div className="flex items-center gap-1">
+                  <button 
+                    onClick={() => setEditing(!editing)} 
+                    className={`flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all border ${
+                      editing ? 'bg-indigo-600 text-white border-indigo-600' : 'text-indigo-600 hover:bg-indigo-50 border-transparent hover:border-indigo-100'
+                    }`}
+                  >
+                    {editing ? <Eye size={14} /> : <Pencil size={14} />}
+                    {editing ? 'Done' : 'Edit'}
+                  </button>
+                  <ExportMenu 
+                    automation={state.data} 
+                    name={libraryName || description.substring(0, 48) || 'Generated Workflow'} 
+                    onIssues={setExportIssues} 
+                  />
+                  {onNavigate && (
+                    <button 
+                      onClick={() => onNavigate(AppView.LOGIC_SANDBOX)} 
+                      className="flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all border text-pink-600 hover:bg-pink-50 border-transparent hover:border-pink-100"
+                    >
+                      <FlaskConical size={14} />
+                      Test in Sandbox
+                    </button>
+                  )}
+                </div>
+              }
+            >
+              {exportIssues.length > 0 && (
+                <div className="mb-6 bg-red-50 border border-red-100 text-red-800 px-5 py-4 rounded-2xl flex items-start gap-4 animate-in slide-in-from-top-2">
+                  <AlertCircle size={20} className="text-red-500 shrink-0 mt-0.5" />
+                  <div className="flex-1 text-xs">
+                    <h4 className="font-bold mb-1">Export Blocked: Schema Check Failed</h4>
+                    <ul className="opacity-80 leading-relaxed font-mono text-[10px] space-y-0.5">
+                      {exportIssues.map((issue, idx) => <li key={idx}>{issue.path}: {issue.message}</li>)}
+                    </ul>
+                  </div>
+                  <button onClick={() => setExportIssues([])} className="p-1 hover:bg-red-100 rounded-lg transition-colors">
+                    <X size={16} />
+                  </button>
+                </div>
+              )}
+
               <div className="relative mb-6 p-6 bg-indigo-50/30 rounded-3xl border border-indigo-100/50 shadow-inner-sm leading-relaxed text-sm italic text-gray-700">
                 "{state.data.explanation}"
               </div>
@@ -317,30 +578,19 @@ const AutomationGeneratorView: React.FC = () => {
                 </div>
               )}
               
-              <div className="space-y-10 relative">
-                <div className="absolute left-[19px] top-6 bottom-6 w-0.5 bg-gradient-to-b from-orange-400 via-indigo-400 to-indigo-100 opacity-20" />
-                {state.data.steps.map((step, idx) => (
-                  <div key={step.id} className="flex gap-6 relative group">
-                    <div className={`w-10 h-10 rounded-2xl flex items-center justify-center shrink-0 font-black text-white shadow-xl transition-all duration-500 group-hover:scale-110 ${
-                      step.type === 'trigger' ? 'bg-orange-500' : 'bg-indigo-600'
-                    }`}>
-                      {idx + 1}
-                    </div>
-                    <div className="pt-1 flex-1">
-                      <div className="flex items-center gap-2 mb-1.5">
-                        <h4 className="font-extrabold text-gray-900 text-base tracking-tight">{step.title}</h4>
-                      </div>
-                      <p className="text-gray-500 text-xs font-medium leading-relaxed group-hover:text-gray-700 transition-colors">
-                        {step.description}
-                      </p>
-                    </div>
-                  </div>
-                ))}
-              </div>
+              {editing ? (
+                <BlueprintEditor key={activeBlueprint?.id} steps={state.data.steps} onChange={handleStepsChange} />
+              ) : (
+                <FlowDiagram steps={state.data.steps} />
+              )}
             </Card>
 
             <div className="space-y-8">
-              {state.data.codeSnippet && (
+              <Card title="Blueprint Lint" subtitle="Structural checks to clear before deploying">
+                <BlueprintLintPanel findings={lintFindings} fixing={refineState.loading} onFix={handleFixFinding} />
+              </Card>
+
+              {typeof state.data.codeSnippet === 'string' && (
                 <Card 
                   title="Technical Blueprint" 
                   headerAction={
@@ -355,15 +605,7 @@ const AutomationGeneratorView: React.FC = () => {
                     </button>
                   }
                 >
-                  <div className="bg-[#0f1117] rounded-3xl overflow-hidden shadow-2xl border border-gray-800/50 group/code relative">
-                    <div className="flex items-center gap-2 px-5 py-3 border-b border-white/5 bg-white/5">
-                      <Terminal size={12} className="text-indigo-400" />
-                      <span className="text-[10px] font-black text-white/40 uppercase tracking-[0.2em]">Implementation Code</span>
-                    </div>
-                    <pre className="p-6 text-indigo-300 font-mono text-[11px] leading-relaxed overflow-x-auto custom-scrollbar">
-                      <code className="block py-2 opacity-90">{state.data.codeSnippet}</code>
-                    </pre>
-                  </div>
+                  <SnippetWorkspace key={activeBlueprint?.id} code={state.data.codeSnippet} platform={state.data.platform} onChange={handleSnippetChange} />
                   
                   <div className="mt-6 flex items-start gap-4 p-5 bg-amber-50/50 rounded-2xl border border-amber-100">
                     <div className="w-8 h-8 rounded-xl bg-amber-100 text-amber-600 flex items-center justify-center shrink-0">
@@ -372,7 +614,7 @@ const AutomationGeneratorView: React.FC = () => {
                     <div>
                       <h5 className="text-[10px] font-black text-amber-800 uppercase tracking-widest mb-1">Architect Note</h5>
                       <p className="text-[11px] text-amber-700 font-medium leading-relaxed">
-                        Validation steps are pre-injected into the trigger phase. Ensure your API keys are managed as environment variables for security.
+                        Validation steps are pre-injected into the trigger phase. Credentials are read through named connections such as connection("slack-main"); keep their secrets in the Connection Vault under Settings, never in the snippet.
                       </p>
                     </div>
                   </div>
@@ -381,6 +623,69 @@ const AutomationGeneratorView: React.FC = () => {
             </div>
           </div>
         )}
+
+        {state.data && (
+          <Card title="Refine Blueprint" subtitle="Describe a change and review the proposed revision step by step">
+            <div className="space-y-6">
+              <div className="flex gap-3">
+                <div className="relative flex-1">
+                  <Wand2 size={14} className="absolute left-4 top-1/2 -translate-y-1/2 text-indigo-300" />
+                  <input
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRefine()}
+                    placeholder='Ex: "add a Slack alert on failure" or "swap Airtable for Postgres"'
+                    className="w-full bg-gray-50 border border-gray-100 rounded-2xl pl-10 pr-4 py-3 text-xs focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all"
+                  />
+                </div>
+                <button
+                  onClick={() => handleRefine()}
+                  disabled={refineState.loading || !instruction.trim()}
+                  className="flex items-center gap-2 px-5 py-3 text-[10px] font-black uppercase tracking-widest rounded-2xl bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-100 disabled:text-gray-400 transition-all"
+                >
+                  {refineState.loading ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+                  {refineState.loading ? 'Revising...' : 'Refine'}
+                </button>
+              </div>
+
+              {refineState.error && (
+                <ErrorNotice
+                  error={refineState.error}
+                  onRetry={() => handleRefine()}
+                  onOpenSettings={() => onNavigate?.(AppView.SETTINGS)}
+                  onDismiss={() => setRefineState({ ...refineState, error: null })}
+                />
+              )}
+
+              {refinementDiff && (
+                <div className="space-y-6 animate-in fade-in">
+                  <BlueprintDiffPanel
+                    diff={refinementDiff}
+                    accepted={acceptedSteps}
+                    onToggleStep={toggleAcceptedStep}
+                    snippetAccepted={snippetAccepted}
+                    onToggleSnippet={() => setSnippetAccepted(!snippetAccepted)}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setRefineState({ data: null, loading: false, error: null })}
+                      className="px-5 py-2.5 text-[10px] font-black uppercase tracking-widest rounded-xl text-gray-500 hover:bg-gray-100 transition-all"
+                    >
+                      Discard
+                    </button>
+                    <button
+                      onClick={handleApplyRefinement}
+                      className="flex items-center gap-2 px-5 py-2.5 text-[10px] font-black uppercase tracking-widest rounded-xl bg-indigo-600 text-white hover:bg-indigo-700 transition-all"
+                    >
+                      <Check size={14} />
+                      Apply Selected Changes
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,256 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { listBlueprints, listVersions, deleteBlueprint } from '../services/blueprintLibrary';
+import { diffBlueprints } from '../services/blueprintDiff';
+import { AppView, BlueprintVersion, SavedBlueprint } from '../types';
+import { Card } from '../components/ui/Card';
+import { BlueprintDiffPanel } from '../components/BlueprintDiffPanel';
+import { useBlueprints } from '../context/BlueprintContext';
+import {
+  Library,
+  Search,
+  Tag,
+  History,
+  GitCompare,
+  FolderOpen,
+  Trash2,
+  Loader2,
+  AlertCircle
+} from 'lucide-react';
+
+interface BlueprintLibraryViewProps {
+  onNavigate: (view: AppView) => void;
+}
+
+const BlueprintLibraryView: React.FC<BlueprintLibraryViewProps> = ({ onNavigate }) => {
+  const { addBlueprint } = useBlueprints();
+  const [library, setLibrary] = useState<SavedBlueprint[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<BlueprintVersion[]>([]);
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      setLibrary(await listBlueprints());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setVersions([]);
+      return;
+    }
+    listVersions(selectedId)
+      .then(list => {
+        setVersions(list);
+        setCompareVersion(list[0]?.version ?? null);
+        setBaseVersion(list[1]?.version ?? null);
+      })
+      .catch(err => setError(err.message));
+  }, [selectedId]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return library;
+    return library.filter(bp =>
+      bp.name.toLowerCase().includes(q) ||
+      bp.description.toLowerCase().includes(q) ||
+      bp.platform.includes(q) ||
+      bp.tags.some(tag => tag.includes(q.replace(/^#/, '')))
+    );
+  }, [library, query]);
+
+  const selected = library.find(bp => bp.id === selectedId) || null;
+
+  const diff = useMemo(() => {
+    const base = versions.find(v => v.version === baseVersion);
+    const compare = versions.find(v => v.version === compareVersion);
+    return base && compare ? diffBlueprints(base.result, compare.result) : null;
+  }, [versions, baseVersion, compareVersion]);
+
+  const handleOpen = (version: BlueprintVersion) => {
+    if (!selected) return;
+    addBlueprint(selected.description, version.result, selected.id);
+    onNavigate(AppView.GENERATOR);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteBlueprint(id);
+      if (selectedId === id) setSelectedId(null);
+      await refresh();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-12 gap-8 items-start animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="xl:col-span-4 space-y-6">
+        <Card title="Saved Blueprints" subtitle="Stored locally in this browser">
+          <div className="space-y-4">
+            <div className="relative">
+              <Search size={14} className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-300" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search name, platform or #tag..."
+                className="w-full bg-gray-50 border border-gray-100 rounded-2xl pl-10 pr-4 py-3 text-xs focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all"
+              />
+            </div>
+
+            {error && (
+              <div className="p-4 bg-red-50 border border-red-100 rounded-2xl text-[10px] font-bold text-red-600 flex items-center gap-3">
+                <AlertCircle size={16} className="shrink-0" />
+                {error}
+              </div>
+            )}
+
+            {loading && (
+              <div className="flex justify-center py-8">
+                <Loader2 size={20} className="animate-spin text-indigo-400" />
+              </div>
+            )}
+
+            {!loading && filtered.length === 0 && (
+              <p className="text-[11px] text-gray-400 font-medium text-center py-8">
+                {library.length === 0 ? 'Save a blueprint from Blueprint Gen to start your library.' : 'No blueprints match this search.'}
+              </p>
+            )}
+
+            <div className="space-y-2 max-h-[560px] overflow-y-auto custom-scrollbar pr-1">
+              {filtered.map(bp => (
+                <button
+                  key={bp.id}
+                  onClick={() => setSelectedId(bp.id)}
+                  className={`w-full text-left p-4 rounded-2xl border transition-all ${
+                    selectedId === bp.id ? 'border-indigo-600 bg-indigo-50/40 ring-2 ring-indigo-600/10' : 'border-gray-100 hover:border-indigo-200 bg-white'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <h4 className="font-bold text-sm text-gray-900 truncate">{bp.name}</h4>
+                    <span className="text-[9px] font-black uppercase tracking-widest text-indigo-600 shrink-0">v{bp.latestVersion}</span>
+                  </div>
+                  <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest mt-1">
+                    {bp.platform} • {new Date(bp.updatedAt).toLocaleDateString()}
+                  </p>
+                  {bp.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {bp.tags.map(tag => (
+                        <span key={tag} className="text-[9px] font-bold px-2 py-0.5 rounded-md bg-gray-100 text-gray-500">#{tag}</span>
+                      ))}
+                    </div>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+        </Card>
+      </div>
+
+      <div className="xl:col-span-8 space-y-6">
+        {!selected && (
+          <div className="h-[600px] border-2 border-dashed border-gray-100 rounded-[3rem] flex flex-col items-center justify-center p-12 text-center bg-white/40">
+            <div className="w-20 h-20 bg-teal-50 text-teal-400 rounded-[2rem] flex items-center justify-center mb-6 border border-teal-100">
+              <Library size={36} />
+            </div>
+            <h3 className="text-xl font-black text-gray-300 uppercase tracking-[0.4em]">Select a Blueprint</h3>
+            <p className="text-gray-400 text-sm max-w-xs mt-3 font-medium">Browse versions and compare revisions step by step.</p>
+          </div>
+        )}
+
+        {selected && (
+          <>
+            <Card
+              title={selected.name}
+              subtitle={`Created ${new Date(selected.createdAt).toLocaleString()}`}
+              headerAction={
+                <button
+                  onClick={() => handleDelete(selected.id)}
+                  className="p-2 text-gray-300 hover:text-red-500 transition-colors"
+                  title="Delete Blueprint"
+                >
+                  <Trash2 size={18} />
+                </button>
+              }
+            >
+              <p className="text-sm text-gray-600 leading-relaxed italic mb-4">"{selected.description}"</p>
+              <div className="flex flex-wrap gap-2 mb-6">
+                <Tag size={12} className="text-gray-300 mt-1" />
+                {selected.tags.length === 0 && <span className="text-[10px] text-gray-300 font-bold">No tags</span>}
+                {selected.tags.map(tag => (
+                  <span key={tag} className="text-[10px] font-bold px-2 py-0.5 rounded-md bg-indigo-50 text-indigo-600">#{tag}</span>
+                ))}
+              </div>
+
+              <h5 className="text-[10px] font-black text-gray-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+                <History size={12} /> Version History
+              </h5>
+              <div className="space-y-2">
+                {versions.map(version => (
+                  <div key={version.id} className="flex items-center gap-4 p-3 rounded-xl border border-gray-100">
+                    <span className="text-xs font-black text-indigo-600 w-10">v{version.version}</span>
+                    <span className="text-[11px] text-gray-500 flex-1">
+                      {new Date(version.createdAt).toLocaleString()} • {version.result.steps.length} steps
+                    </span>
+                    <button
+                      onClick={() => handleOpen(version)}
+                      className="flex items-center gap-2 px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-lg text-indigo-600 hover:bg-indigo-50 transition-all"
+                    >
+                      <FolderOpen size={12} /> Open
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </Card>
+
+            {versions.length > 1 && (
+              <Card
+                title="Revision Diff"
+                subtitle="Step-by-step comparison"
+                headerAction={
+                  <div className="flex items-center gap-2 text-[10px] font-black text-gray-400">
+                    <GitCompare size={14} />
+                    <select
+                      value={baseVersion ?? ''}
+                      onChange={(e) => setBaseVersion(Number(e.target.value))}
+                      className="bg-gray-50 border border-gray-100 rounded-lg px-2 py-1 text-[10px] font-bold outline-none"
+                    >
+                      {versions.map(v => <option key={v.id} value={v.version}>v{v.version}</option>)}
+                    </select>
+                    <span>→</span>
+                    <select
+                      value={compareVersion ?? ''}
+                      onChange={(e) => setCompareVersion(Number(e.target.value))}
+                      className="bg-gray-50 border border-gray-100 rounded-lg px-2 py-1 text-[10px] font-bold outline-none"
+                    >
+                      {versions.map(v => <option key={v.id} value={v.version}>v{v.version}</option>)}
+                    </select>
+                  </div>
+                }
+              >
+                {diff && <BlueprintDiffPanel diff={diff} />}
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BlueprintLibraryView;
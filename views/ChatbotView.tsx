@@ -1,28 +1,66 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { chatWithAssistant } from '../services/geminiService';
-import { ChatMessage } from '../types';
+import { chatWithAssistant, summarizeConversation } from '../services/geminiService';
+import { createChatSession, listChatSessions, saveChatSession, deleteChatSession } from '../services/chatSessions';
+import { selectContextWindow } from '../services/chatContext';
+import { ChatMessage, ChatSession, AppView } from '../types';
 import { Card } from '../components/ui/Card';
-import { Send, User, Sparkles, Loader2, Bot, Trash2 } from 'lucide-react';
+import { ErrorNotice } from '../components/ErrorNotice';
+import { toApiError } from '../services/aiErrors';
+import { Send, User, Sparkles, Loader2, Bot, Trash2, Plus, MessageSquare, Pencil, Check, History, Square } from 'lucide-react';
 
-const ChatbotView: React.FC = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+const DEFAULT_SESSION_NAME = 'New Conversation';
+
+interface ChatbotViewProps {
+  onNavigate: (view: AppView) => void;
+}
+
+const ChatbotView: React.FC<ChatbotViewProps> = ({ onNavigate }) => {
+  const [session, setSession] = useState<ChatSession>(() => createChatSession(DEFAULT_SESSION_NAME));
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [storageError, setStorageError] = useState<string | null>(null);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
   const MAX_HISTORY = 20;
 
+  const messages = session.messages;
+  // Edge Case: Cap rendered history to prevent UI sluggishness; older turns live on in the summary
+  const visibleMessages = messages.slice(-MAX_HISTORY * 2);
+  const hiddenCount = messages.length - visibleMessages.length;
+
+  useEffect(() => {
+    listChatSessions()
+      .then(list => {
+        setSessions(list);
+        if (list.length > 0) setSession(list[0]);
+      })
+      .catch((err: any) => setStorageError(err.message));
+  }, []);
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
     }
-  }, [messages, loading]);
+  }, [messages, loading, streamingText]);
 
-  const handleSend = async () => {
-    const trimmedInput = input.trim();
-    if (!trimmedInput || loading) return;
+  const persist = async (next: ChatSession) => {
+    try {
+      const saved = await saveChatSession(next);
+      setSessions(prev => [saved, ...prev.filter(item => item.id !== saved.id)]);
+      return saved;
+    } catch (err: any) {
+      setStorageError(err.message || "Could not save this conversation.");
+      return next;
+    }
+  };
 
+  const sendMessage = async (trimmedInput: string, base: ChatSession) => {
     const userMessage: ChatMessage = {
       id: `u-${Date.now()}`,
       role: 'user',
@@ -30,21 +68,38 @@ const ChatbotView: React.FC = () => {
       timestamp: Date.now()
     };
 
-    setMessages(prev => {
-      const updated = [...prev, userMessage];
-      // Edge Case: Cap history to prevent UI sluggishness and huge context payloads
-      if (updated.length > MAX_HISTORY * 2) {
-        return updated.slice(-MAX_HISTORY * 2);
-      }
-      return updated;
-    });
-
-    setInput('');
+    const priorMessages = base.messages.filter(msg => !msg.isError);
+    let working: ChatSession = {
+      ...base,
+      name: base.messages.length === 0 && base.name === DEFAULT_SESSION_NAME ? trimmedInput.substring(0, 40) : base.name,
+      messages: [...base.messages, userMessage]
+    };
+    setSession(working);
+    setStreamingText('');
     setLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let partial = '';
 
     try {
-      // In a real production app, we would pass 'messages' to the service to maintain state
-      const response = await chatWithAssistant(trimmedInput);
+      const context = selectContextWindow(priorMessages, MAX_HISTORY * 2);
+      const unsummarized = context.overflow.filter(msg => msg.timestamp > (base.summarizedThrough || 0));
+      if (unsummarized.length > 0) {
+        try {
+          const summary = await summarizeConversation(unsummarized, base.summary);
+          working = { ...working, summary, summarizedThrough: unsummarized[unsummarized.length - 1].timestamp };
+        } catch {
+          // Summaries are best effort; the trimmed window alone still keeps the request within budget
+        }
+      }
+
+      const response = await chatWithAssistant(trimmedInput, context.kept, working.summary, {
+        signal: controller.signal,
+        onText: (text) => {
+          partial = text;
+          setStreamingText(text);
+        }
+      });
       
       const assistantMessage: ChatMessage = {
         id: `a-${Date.now()}`,
@@ -52,35 +107,173 @@ const ChatbotView: React.FC = () => {
         content: response,
         timestamp: Date.now()
       };
-
-      setMessages(prev => {
-        const updated = [...prev, assistantMessage];
-        if (updated.length > MAX_HISTORY * 2) {
-          return updated.slice(-MAX_HISTORY * 2);
+      working = { ...working, messages: [...working.messages, assistantMessage] };
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the user stopped the reply
+        if (partial) {
+          working = { ...working, messages: [...working.messages, { id: `a-${Date.now()}`, role: 'model', content: partial, timestamp: Date.now() }] };
         }
-        return updated;
-      });
+      } else {
+        const error = toApiError(err, "Oops! My neural pathways are a bit tangled. Can you try that again?");
+        working = {
+          ...working,
+          messages: [...working.messages, {
+            id: `e-${Date.now()}`,
+            role: 'model',
+            content: error.message,
+            timestamp: Date.now(),
+            isError: true,
+            error
+          }]
+        };
+      }
+    }
+    abortRef.current = null;
+    setSession(working);
+    setStreamingText('');
+    setLoading(false);
+    persist(working);
+  };
+
+  const handleSend = () => {
+    const trimmedInput = input.trim();
+    if (!trimmedInput || loading) return;
+    setInput('');
+    sendMessage(trimmedInput, session);
+  };
+
+  // Drops the failed turn and sends the same question again
+  const handleRetry = (failed: ChatMessage) => {
+    if (loading) return;
+    const failedAt = session.messages.findIndex(msg => msg.id === failed.id);
+    const question = session.messages[failedAt - 1];
+    if (failedAt < 1 || question.role !== 'user') return;
+    sendMessage(question.content, { ...session, messages: session.messages.slice(0, failedAt - 1) });
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleNewSession = () => {
+    setSession(createChatSession(DEFAULT_SESSION_NAME));
+    setInput('');
+  };
+
+  const handleClear = async () => {
+    const cleared: ChatSession = { ...session, messages: [], summary: undefined, summarizedThrough: undefined };
+    setSession(cleared);
+    if (sessions.some(item => item.id === session.id)) {
+      await persist(cleared);
+    }
+  };
+
+  const handleDeleteSession = async (sessionId: string) => {
+    try {
+      await deleteChatSession(sessionId);
+      setSessions(prev => prev.filter(item => item.id !== sessionId));
+      if (sessionId === session.id) handleNewSession();
     } catch (err: any) {
-      setMessages(prev => [...prev, {
-        id: `e-${Date.now()}`,
-        role: 'model',
-        content: err.message || "Oops! My neural pathways are a bit tangled. Can you try that again?",
-        timestamp: Date.now()
-      }]);
-    } finally {
-      setLoading(false);
+      setStorageError(err.message || "Could not delete this conversation.");
     }
   };
 
+  const handleRename = async (target: ChatSession) => {
+    const renamed = { ...target, name: renameValue };
+    setRenamingId(null);
+    const saved = await persist(renamed);
+    if (saved.id === session.id) setSession({ ...session, name: saved.name });
+  };
+
   return (
-    <div className="max-w-4xl mx-auto h-[calc(100vh-180px)] animate-in zoom-in-95 duration-500">
+    <div className="max-w-6xl mx-auto h-[calc(100vh-180px)] grid grid-cols-1 lg:grid-cols-4 gap-6 animate-in zoom-in-95 duration-500">
+      <Card
+        className="hidden lg:flex h-full flex-col"
+        title="Sessions"
+        headerAction={
+          <button
+            onClick={handleNewSession}
+            disabled={loading}
+            className="p-2 text-indigo-500 hover:bg-indigo-50 rounded-xl transition-colors disabled:text-gray-300"
+            title="New Conversation"
+          >
+            <Plus size={18} />
+          </button>
+        }
+      >
+        <div className="space-y-2 overflow-y-auto custom-scrollbar max-h-[calc(100vh-300px)]">
+          {storageError && (
+            <p className="text-[10px] font-bold text-red-500 leading-relaxed">{storageError}</p>
+          )}
+          {sessions.length === 0 && !storageError && (
+            <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest text-center py-6">No saved conversations</p>
+          )}
+          {sessions.map(item => (
+            <div
+              key={item.id}
+              className={`group p-3 rounded-xl border transition-all ${
+                item.id === session.id ? 'bg-indigo-50 border-indigo-100' : 'bg-white border-transparent hover:bg-gray-50'
+              }`}
+            >
+              {renamingId === item.id ? (
+                <div className="flex items-center gap-1">
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRename(item)}
+                    className="flex-1 min-w-0 bg-white border border-gray-200 rounded-lg px-2 py-1 text-xs outline-none focus:border-indigo-500"
+                  />
+                  <button onClick={() => handleRename(item)} className="p-1 text-indigo-600 hover:bg-indigo-100 rounded-lg">
+                    <Check size={12} />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-start gap-2">
+                  <button
+                    onClick={() => !loading && setSession(item)}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <div className="flex items-center gap-2">
+                      <MessageSquare size={12} className="text-indigo-400 shrink-0" />
+                      <span className="text-xs font-bold text-gray-800 truncate">{item.name}</span>
+                    </div>
+                    <span className="text-[10px] text-gray-400 font-medium">
+                      {item.messages.length} messages • {new Date(item.updatedAt).toLocaleDateString()}
+                    </span>
+                  </button>
+                  <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => { setRenamingId(item.id); setRenameValue(item.name); }}
+                      className="p-1 text-gray-400 hover:text-indigo-600"
+                      title="Rename"
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteSession(item.id)}
+                      className="p-1 text-gray-400 hover:text-red-500"
+                      title="Delete"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </Card>
+
       <Card 
-        className="h-full flex flex-col p-0 overflow-hidden" 
+        className="lg:col-span-3 h-full flex flex-col p-0 overflow-hidden" 
         title="Consultant AI"
-        subtitle="Real-time automation strategy and API assistance"
+        subtitle={session.messages.length > 0 ? session.name : "Real-time automation strategy and API assistance"}
         headerAction={
           <button 
-            onClick={() => setMessages([])} 
+            onClick={handleClear} 
+            disabled={loading}
             className="p-2 text-gray-300 hover:text-red-500 transition-colors"
             title="Clear Chat"
           >
@@ -105,7 +298,14 @@ const ChatbotView: React.FC = () => {
             </div>
           )}
 
-          {messages.map((msg) => (
+          {(hiddenCount > 0 || session.summary) && (
+            <div className="flex items-center justify-center gap-2 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+              <History size={12} />
+              {hiddenCount > 0 ? `${hiddenCount} earlier messages condensed into context summary` : 'Earlier turns condensed into context summary'}
+            </div>
+          )}
+
+          {visibleMessages.map((msg) => (
             <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-2`}>
               <div className={`flex gap-3 max-w-[85%] sm:max-w-[75%] ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}>
                 <div className={`w-9 h-9 rounded-2xl flex items-center justify-center shrink-0 shadow-sm ${
@@ -113,21 +313,44 @@ const ChatbotView: React.FC = () => {
                 }`}>
                   {msg.role === 'user' ? <User size={18} /> : <Bot size={18} />}
                 </div>
-                <div className={`p-4 rounded-2xl text-sm leading-relaxed shadow-sm ${
-                  msg.role === 'user' 
-                    ? 'bg-indigo-600 text-white rounded-tr-none' 
-                    : 'bg-white text-gray-800 rounded-tl-none border border-gray-50'
-                }`}>
-                  <div className="whitespace-pre-wrap">{msg.content}</div>
-                  <div className={`mt-2 text-[10px] font-medium opacity-50 ${msg.role === 'user' ? 'text-right' : 'text-left'}`}>
-                    {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                {msg.error ? (
+                  <ErrorNotice
+                    error={msg.error}
+                    onRetry={() => handleRetry(msg)}
+                    onOpenSettings={() => onNavigate(AppView.SETTINGS)}
+                  />
+                ) : (
+                  <div className={`p-4 rounded-2xl text-sm leading-relaxed shadow-sm ${
+                    msg.role === 'user' 
+                      ? 'bg-indigo-600 text-white rounded-tr-none' 
+                      : msg.isError
+                        ? 'bg-red-50 text-red-800 rounded-tl-none border border-red-100'
+                        : 'bg-white text-gray-800 rounded-tl-none border border-gray-50'
+                  }`}>
+                    <div className="whitespace-pre-wrap">{msg.content}</div>
+                    <div className={`mt-2 text-[10px] font-medium opacity-50 ${msg.role === 'user' ? 'text-right' : 'text-left'}`}>
+                      {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
             </div>
           ))}
 
-          {loading && (
+          {loading && streamingText && (
+            <div className="flex justify-start animate-in fade-in">
+              <div className="flex gap-3 max-w-[85%] sm:max-w-[75%]">
+                <div className="w-9 h-9 rounded-2xl flex items-center justify-center shrink-0 shadow-sm bg-white border border-gray-100 text-gray-600">
+                  <Bot size={18} />
+                </div>
+                <div className="p-4 rounded-2xl rounded-tl-none text-sm leading-relaxed shadow-sm bg-white text-gray-800 border border-gray-50">
+                  <div className="whitespace-pre-wrap">{streamingText}<span className="inline-block w-1.5 h-4 ml-0.5 bg-indigo-400 animate-pulse align-middle" /></div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {loading && !streamingText && (
             <div className="flex justify-start">
               <div className="bg-white border border-gray-100 p-4 rounded-2xl rounded-tl-none shadow-sm flex items-center gap-3">
                 <Loader2 size={16} className="animate-spin text-indigo-500" />
@@ -149,13 +372,23 @@ const ChatbotView: React.FC = () => {
               disabled={loading}
               className="flex-1 bg-gray-50 border border-gray-200 rounded-2xl px-5 py-4 focus:ring-2 focus:ring-indigo-500 focus:bg-white outline-none transition-all pr-16 disabled:opacity-50"
             />
-            <button
-              onClick={handleSend}
-              disabled={!input.trim() || loading}
-              className="absolute right-2 top-2 bottom-2 bg-indigo-600 text-white px-4 rounded-xl hover:bg-indigo-700 disabled:bg-gray-100 disabled:text-gray-300 transition-all shadow-lg shadow-indigo-500/10 active:scale-95 flex items-center justify-center"
-            >
-              {loading ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
-            </button>
+            {loading ? (
+              <button
+                onClick={handleStop}
+                title="Stop generating"
+                className="absolute right-2 top-2 bottom-2 bg-gray-900 text-white px-4 rounded-xl hover:bg-red-600 transition-all shadow-lg active:scale-95 flex items-center justify-center"
+              >
+                <Square size={14} fill="currentColor" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={!input.trim()}
+                className="absolute right-2 top-2 bottom-2 bg-indigo-600 text-white px-4 rounded-xl hover:bg-indigo-700 disabled:bg-gray-100 disabled:text-gray-300 transition-all shadow-lg shadow-indigo-500/10 active:scale-95 flex items-center justify-center"
+              >
+                <Send size={18} />
+              </button>
+            )}
           </div>
           <p className="text-[10px] text-gray-400 mt-3 text-center uppercase tracking-widest font-bold">
             Powered by Gemini 3 Flash • Strategy Mode
@@ -1,9 +1,16 @@
 
 import React, { useState } from 'react';
 import { analyzeImage } from '../services/geminiService';
-import { Upload, Image as ImageIcon, Loader2, Search, X, AlertCircle, Link as LinkIcon, Globe } from 'lucide-react';
+import { ApiError, AppView } from '../types';
+import { ErrorNotice } from '../components/ErrorNotice';
+import { toApiError } from '../services/aiErrors';
+import { Upload, Image as ImageIcon, Loader2, Search, X, Link as LinkIcon, Globe } from 'lucide-react';
 
-const ImageAnalysisView: React.FC = () => {
+interface ImageAnalysisViewProps {
+  onNavigate: (view: AppView) => void;
+}
+
+const ImageAnalysisView: React.FC<ImageAnalysisViewProps> = ({ onNavigate }) => {
   const [image, setImage] = useState<string | null>(null);
   const [imageUrl, setImageUrl] = useState<string>('');
   const [mimeType, setMimeType] = useState<string>('image/jpeg');
@@ -11,7 +18,7 @@ const ImageAnalysisView: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [fetching, setFetching] = useState(false);
   const [result, setResult] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
 
   const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
@@ -21,7 +28,7 @@ const ImageAnalysisView: React.FC = () => {
 
     if (file) {
       if (file.size > MAX_FILE_SIZE) {
-        setError("File size exceeds 10MB limit. Please upload a smaller image.");
+        setError({ message: "File size exceeds 10MB limit. Please upload a smaller image.", code: 'invalid_input' });
         return;
       }
 
@@ -33,7 +40,7 @@ const ImageAnalysisView: React.FC = () => {
         setResult(null);
       };
       reader.onerror = () => {
-        setError("Failed to read the file. Please try a different image.");
+        setError({ message: "Failed to read the file. Please try a different image.", code: 'invalid_input' });
       };
       reader.readAsDataURL(file);
     }
@@ -69,7 +76,7 @@ const ImageAnalysisView: React.FC = () => {
       reader.readAsDataURL(blob);
     } catch (err: any) {
       console.error(err);
-      setError(err.message || "Failed to load image from URL. This might be due to CORS restrictions on the source domain.");
+      setError(toApiError(err, "Failed to load image from URL. This might be due to CORS restrictions on the source domain.", 'invalid_input'));
       setFetching(false);
     }
   };
@@ -83,7 +90,7 @@ const ImageAnalysisView: React.FC = () => {
       setResult(res);
     } catch (err: any) {
       console.error(err);
-      setError(err.message || 'Analysis failed. Please try again.');
+      setError(toApiError(err, 'Analysis failed. Please try again.'));
     } finally {
       setLoading(false);
     }
@@ -115,9 +122,13 @@ const ImageAnalysisView: React.FC = () => {
         </div>
 
         {error && (
-          <div className="mb-6 p-4 bg-red-50 border border-red-100 text-red-700 rounded-xl flex items-center gap-3 text-sm animate-in fade-in">
-            <AlertCircle size={18} className="shrink-0" />
-            <p className="leading-tight">{error}</p>
+          <div className="mb-6">
+            <ErrorNotice
+              error={error}
+              onRetry={image ? handleAnalyze : undefined}
+              onOpenSettings={() => onNavigate(AppView.SETTINGS)}
+              onDismiss={() => setError(null)}
+            />
           </div>
         )}
 
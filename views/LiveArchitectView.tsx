@@ -2,6 +2,9 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { connectToLiveArchitect, decodeAudioData, decode, encode } from '../services/geminiService';
 import { Card } from '../components/ui/Card';
+import { ErrorNotice } from '../components/ErrorNotice';
+import { toApiError } from '../services/aiErrors';
+import { ApiError, AppView } from '../types';
 import { 
   Mic, 
   MicOff, 
@@ -16,11 +19,15 @@ import {
   Layers
 } from 'lucide-react';
 
-const LiveArchitectView: React.FC = () => {
+interface LiveArchitectViewProps {
+  onNavigate: (view: AppView) => void;
+}
+
+const LiveArchitectView: React.FC<LiveArchitectViewProps> = ({ onNavigate }) => {
   const [isActive, setIsActive] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [transcriptions, setTranscriptions] = useState<{ role: 'user' | 'model', text: string }[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
   
   const audioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
@@ -76,18 +83,15 @@ const LiveArchitectView: React.FC = () => {
             const base64Data = encode(new Uint8Array(int16.buffer));
             
             sessionPromise.then(session => {
-              session.sendRealtimeInput({
-                media: { data: base64Data, mimeType: 'audio/pcm;rate=16000' }
-              });
+              session.sendAudio(base64Data, 'audio/pcm;rate=16000');
             });
           };
 
           source.connect(scriptProcessor);
           scriptProcessor.connect(audioContextRef.current!.destination);
         },
-        onmessage: async (message) => {
-          const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-          if (base64Audio && outputAudioContextRef.current) {
+        onaudio: async (base64Audio) => {
+          if (outputAudioContextRef.current) {
             const ctx = outputAudioContextRef.current;
             nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
             
@@ -103,18 +107,17 @@ const LiveArchitectView: React.FC = () => {
             nextStartTimeRef.current += audioBuffer.duration;
             sourcesRef.current.add(source);
           }
-
-          if (message.serverContent?.interrupted) {
-            for (const source of sourcesRef.current.values()) {
-              source.stop();
-            }
-            sourcesRef.current.clear();
-            nextStartTimeRef.current = 0;
+        },
+        oninterrupted: () => {
+          for (const source of sourcesRef.current.values()) {
+            source.stop();
           }
+          sourcesRef.current.clear();
+          nextStartTimeRef.current = 0;
         },
         onerror: (e) => {
           console.error("Live session error:", e);
-          setError("Session connection error.");
+          setError({ message: "The live session lost its connection.", code: 'network' });
           cleanup();
         },
         onclose: () => {
@@ -123,9 +126,14 @@ const LiveArchitectView: React.FC = () => {
         }
       });
 
+      sessionPromise.catch((err: any) => {
+        setError(toApiError(err, "Session connection error."));
+        cleanup();
+      });
+
     } catch (err: any) {
       console.error(err);
-      setError("Microphone access denied.");
+      setError({ message: "Microphone access denied. Allow microphone access for this page, then try again.", code: 'unknown' });
     }
   };
 
@@ -158,9 +166,12 @@ const LiveArchitectView: React.FC = () => {
 
           <div className="space-y-3">
             {error && (
-              <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-[10px] font-bold text-red-600 flex items-center gap-2">
-                <XCircle size={14} /> {error}
-              </div>
+              <ErrorNotice
+                error={error}
+                onRetry={startSession}
+                onOpenSettings={() => onNavigate(AppView.SETTINGS)}
+                onDismiss={() => setError(null)}
+              />
             )}
             
             {!isActive ? (
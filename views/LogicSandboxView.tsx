@@ -1,8 +1,23 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { simulateAutomation } from '../services/geminiService';
-import { AutomationResult, SimulationResponse, AsyncState } from '../types';
+import { AutomationResult, MockEndpoint, PayloadVariant, SimulationResponse, SimulationStepResult, AsyncState, AppView, TestCaseResult, TestSuite } from '../types';
 import { Card } from '../components/ui/Card';
+import { ErrorNotice } from '../components/ErrorNotice';
+import { SnippetExecutionPanel } from '../components/SnippetExecutionPanel';
+import { MockEndpointRegistry } from '../components/MockEndpointRegistry';
+import { TestSuitePanel } from '../components/TestSuitePanel';
+import { PayloadLab } from '../components/PayloadLab';
+import { TraceDebugger } from '../components/TraceDebugger';
+import { toApiError } from '../services/aiErrors';
+import { useBlueprints } from '../context/BlueprintContext';
+import { needsModelEstimate, simulateHybrid, SNIPPET_STEP_ID } from '../services/localEngine';
+import { importBlueprint, BlueprintFormat, ImportedBlueprint } from '../services/blueprintImporters';
+import { loadMockEndpoints, rollMockResponses, saveMockEndpoints } from '../services/mockHttp';
+import { loadConnections } from '../services/connectionVault';
+import { createTestCase, loadTestSuite, parseTestSuiteFile, runTestCase, runTestSuite, saveTestSuite, serializeTestSuite, SimulateFn } from '../services/testSuites';
+import { slugify } from '../services/exporters/common';
+import { DebugSession, startDebugSession } from '../services/traceDebugger';
 import { 
   FlaskConical, 
   Play, 
@@ -11,14 +26,40 @@ import {
   Terminal, 
   CheckCircle2, 
   XCircle, 
-  AlertTriangle,
   Database,
   Search,
   ArrowRightCircle,
-  Bug
+  Bug,
+  Workflow,
+  Cpu
 } from 'lucide-react';
 
-const LogicSandboxView: React.FC = () => {
+type EngineMode = 'hybrid' | 'model';
+
+const ENGINE_MODES: { id: EngineMode; label: string; hint: string }[] = [
+  { id: 'hybrid', label: 'Local + Fallback', hint: 'Run structured steps, mocked API calls and the code snippet locally; ask the model only about the rest' },
+  { id: 'model', label: 'Model Only', hint: 'Let Gemini estimate every step, holding it to the mocked API responses' }
+];
+
+const ENGINE_BADGES: Record<NonNullable<SimulationStepResult['engine']>, { label: string; className: string }> = {
+  local: { label: 'Deterministic', className: 'bg-indigo-50 text-indigo-600' },
+  model: { label: 'Model estimate', className: 'bg-amber-50 text-amber-600' },
+  sandbox: { label: 'Executed code', className: 'bg-emerald-50 text-emerald-600' },
+  mock: { label: 'Mocked API', className: 'bg-sky-50 text-sky-600' }
+};
+
+const emptySuite = (blueprintId: string): TestSuite => ({ blueprintId, name: 'Regression suite', cases: [], updatedAt: Date.now() });
+
+const toSpec = (result: AutomationResult): string => {
+  const { sources, ...spec } = result;
+  return JSON.stringify(spec, null, 2);
+};
+
+interface LogicSandboxViewProps {
+  onNavigate: (view: AppView) => void;
+}
+
+const LogicSandboxView: React.FC<LogicSandboxViewProps> = ({ onNavigate }) => {
   const [inputData, setInputData] = useState<string>(JSON.stringify({
     event: "new_payment",
     customer: {
@@ -30,40 +71,195 @@ const LogicSandboxView: React.FC = () => {
     currency: "USD"
   }, null, 2));
 
-  const [automationSpec, setAutomationSpec] = useState<string>('');
+  const { blueprints, activeBlueprint, selectBlueprint, updateBlueprint } = useBlueprints();
+  const [automationSpec, setAutomationSpec] = useState<string>(activeBlueprint ? toSpec(activeBlueprint.result) : '');
+  const [engineMode, setEngineMode] = useState<EngineMode>('hybrid');
+  const [importedFormat, setImportedFormat] = useState<BlueprintFormat | null>(null);
+  const [mockEndpoints, setMockEndpoints] = useState<MockEndpoint[]>(loadMockEndpoints);
+  const [vaultConnections] = useState(loadConnections);
+  const [suite, setSuite] = useState<TestSuite | null>(null);
+  const [suiteResults, setSuiteResults] = useState<Record<string, TestCaseResult>>({});
+  const [suiteRunning, setSuiteRunning] = useState(false);
+  const [suiteError, setSuiteError] = useState<string | null>(null);
+  const [variantResults, setVariantResults] = useState<Record<string, TestCaseResult>>({});
+  const [variantsRunning, setVariantsRunning] = useState(false);
+  const variantAbortRef = useRef<AbortController | null>(null);
+  const [debugSession, setDebugSession] = useState<DebugSession | null>(null);
   const [simState, setSimState] = useState<AsyncState<SimulationResponse>>({
     data: null,
     loading: false,
     error: null
   });
 
-  const handleSimulate = async () => {
+  useEffect(() => {
+    setAutomationSpec(activeBlueprint ? toSpec(activeBlueprint.result) : '');
+  }, [activeBlueprint?.id]);
+
+  useEffect(() => {
+    saveMockEndpoints(mockEndpoints);
+  }, [mockEndpoints]);
+
+  // Saved blueprints keep their suite across sessions; unsaved ones keep it for this session
+  const suiteKey = activeBlueprint ? activeBlueprint.libraryId || activeBlueprint.id : null;
+
+  useEffect(() => {
+    setSuite(null);
+    setSuiteResults({});
+    setSuiteError(null);
+    if (!suiteKey) return;
+    let cancelled = false;
+    loadTestSuite(suiteKey)
+      .then(stored => { if (!cancelled) setSuite(stored || emptySuite(suiteKey)); })
+      .catch(err => {
+        if (cancelled) return;
+        setSuite(emptySuite(suiteKey));
+        setSuiteError(err.message || "Failed to load the test suite.");
+      });
+    return () => { cancelled = true; };
+  }, [suiteKey]);
+
+  // Offered for mock endpoints: the vault's connections plus any the blueprint declares itself
+  const connectionNames = Array.from(new Set([...vaultConnections, ...(activeBlueprint?.result.connections || [])].map(connection => connection.name)));
+
+  const simulate: SimulateFn = (automation, payload) => engineMode === 'hybrid'
+    ? simulateHybrid(automation, payload, mockEndpoints)
+    : simulateAutomation(automation, payload, rollMockResponses(mockEndpoints));
+
+  const readSpec = (): ImportedBlueprint | null => {
     if (!automationSpec.trim()) {
-      setSimState(prev => ({ ...prev, error: { message: "Please provide an automation blueprint or description first." } }));
-      return;
+      setSimState(prev => ({ ...prev, error: { message: "Please provide an automation blueprint or description first.", code: 'invalid_input' } }));
+      return null;
+    }
+
+    let imported: ImportedBlueprint;
+    try {
+      imported = importBlueprint(automationSpec, activeBlueprint?.result.platform);
+      setImportedFormat(imported.format);
+    } catch (err: any) {
+      setImportedFormat(null);
+      setSimState({ data: null, loading: false, error: toApiError(err, "The blueprint could not be read.", 'invalid_input') });
+      return null;
     }
 
+    // Persist hand edits so the next run (and the Generator) see the revised blueprint
+    if (activeBlueprint && imported.format === 'blueprint') {
+      updateBlueprint(activeBlueprint.id, { result: { ...imported.automation, sources: activeBlueprint.result.sources } });
+    }
+    return imported;
+  };
+
+  const handleSimulate = async () => {
+    const imported = readSpec();
+    if (!imported) return;
+
     setSimState({ data: null, loading: true, error: null });
     try {
-      // For simplicity, we create a mock AutomationResult if the input is text
-      // In a real app, this would use a result from the Generator view
-      const mockAutomation: AutomationResult = {
-        platform: 'zapier',
-        explanation: 'Simulated from sandbox input',
-        steps: [
-          { id: 1, title: 'Trigger Event', description: 'Analyze incoming webhook payload', type: 'trigger' },
-          { id: 2, title: 'Logic Filter', description: 'Determine path based on data properties', type: 'logic' },
-          { id: 3, title: 'Final Action', description: 'Execute external API call', type: 'action' }
-        ]
-      };
-
-      const result = await simulateAutomation(mockAutomation, inputData);
+      const result = await simulate(imported.automation, inputData);
       setSimState({ data: result, loading: false, error: null });
     } catch (err: any) {
-      setSimState({ data: null, loading: false, error: { message: err.message } });
+      setSimState({ data: null, loading: false, error: toApiError(err, "Simulation failed.", 'invalid_input') });
+    }
+  };
+
+  const updateSuite = (next: TestSuite) => {
+    setSuite(next);
+    setSuiteError(null);
+    saveTestSuite(next).catch(err => setSuiteError(err.message || "Failed to save the test suite."));
+  };
+
+  const handleAddCase = () => {
+    if (!suite) return;
+    updateSuite({ ...suite, cases: [...suite.cases, createTestCase(`Case ${suite.cases.length + 1}`, inputData)], updatedAt: Date.now() });
+  };
+
+  const handleRunSuite = async () => {
+    if (!suite) return;
+    const imported = readSpec();
+    if (!imported) return;
+
+    setSuiteRunning(true);
+    setSuiteResults({});
+    try {
+      await runTestSuite(suite, imported.automation, simulate, result =>
+        setSuiteResults(prev => ({ ...prev, [result.caseId]: result }))
+      );
+    } finally {
+      setSuiteRunning(false);
+    }
+  };
+
+  const handleExportSuite = () => {
+    if (!suite) return;
+    const blob = new Blob([serializeTestSuite(suite)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${slugify(activeBlueprint?.description || suite.name, 'test-suite')}.suite.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportSuite = async (file: File) => {
+    if (!suiteKey) return;
+    try {
+      updateSuite(parseTestSuiteFile(await file.text(), suiteKey));
+      setSuiteResults({});
+    } catch (err: any) {
+      setSuiteError(err.message || "Failed to import the test suite.");
+    }
+  };
+
+  const handleRunVariants = async (variants: PayloadVariant[]) => {
+    const imported = readSpec();
+    if (!imported) return;
+
+    // Every variant is a model call in model-only mode; hybrid runs only call it for steps left over
+    const modelCalls = engineMode === 'model'
+      ? variants.length
+      : variants.filter(variant => needsModelEstimate(imported.automation, JSON.parse(variant.payload), mockEndpoints)).length;
+    if (modelCalls > 0 && !window.confirm(`Run ${variants.length} variants? This makes up to ${modelCalls} model ${modelCalls === 1 ? 'call' : 'calls'}.`)) return;
+
+    const controller = new AbortController();
+    variantAbortRef.current = controller;
+    setVariantsRunning(true);
+    setVariantResults({});
+    try {
+      for (const variant of variants) {
+        if (controller.signal.aborted) break;
+        const result = await runTestCase({ id: variant.id, name: variant.label, payload: variant.payload, assertions: [] }, imported.automation, simulate);
+        setVariantResults(prev => ({ ...prev, [variant.id]: result }));
+      }
+    } finally {
+      setVariantsRunning(false);
+      variantAbortRef.current = null;
     }
   };
 
+  // The variant in flight still finishes; no further ones start
+  const handleStopVariants = () => {
+    variantAbortRef.current?.abort();
+  };
+
+  const handleAddVariantsToSuite = (variants: PayloadVariant[]) => {
+    if (!suite) return;
+    updateSuite({ ...suite, cases: [...suite.cases, ...variants.map(variant => createTestCase(variant.label, variant.payload))], updatedAt: Date.now() });
+  };
+
+  const handleDebug = () => {
+    const imported = readSpec();
+    if (!imported) return;
+    try {
+      setDebugSession(startDebugSession(imported.automation, JSON.parse(inputData), rollMockResponses(mockEndpoints)));
+      setSimState(prev => ({ ...prev, error: null }));
+    } catch (e: any) {
+      setSimState(prev => ({ ...prev, error: { message: `Mock Payload is not valid JSON: ${e.message}`, code: 'invalid_input' } }));
+    }
+  };
+
+  const showTrace = (result: TestCaseResult) => setSimState({ data: result.response!, loading: false, error: null });
+
   return (
     <div className="grid grid-cols-1 xl:grid-cols-12 gap-8 animate-in fade-in slide-in-from-bottom-6 duration-700">
       {/* Simulation Setup */}
@@ -87,19 +283,66 @@ const LogicSandboxView: React.FC = () => {
               </div>
             </div>
 
+            <div className="space-y-3">
+              <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
+                <Workflow size={14} className="text-indigo-400" />
+                Source Blueprint
+              </label>
+              <select
+                value={activeBlueprint?.id || ''}
+                onChange={(e) => selectBlueprint(e.target.value || null)}
+                className="w-full bg-gray-50 border border-gray-100 rounded-2xl px-5 py-3 text-xs font-bold text-gray-700 focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all"
+              >
+                <option value="">{blueprints.length ? 'Manual definition' : 'No generated blueprints yet'}</option>
+                {blueprints.map(bp => (
+                  <option key={bp.id} value={bp.id}>
+                    [{bp.result.platform.toUpperCase()}] {bp.description.length > 48 ? bp.description.substring(0, 48) + '...' : bp.description}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="space-y-3">
               <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
                 <Code size={14} className="text-indigo-400" />
                 Logic Definition
+                {importedFormat && (
+                  <span className="ml-auto text-[8px] font-bold bg-indigo-50 text-indigo-600 px-2 py-0.5 rounded-md">
+                    Parsed as {importedFormat}
+                  </span>
+                )}
               </label>
               <textarea
                 value={automationSpec}
                 onChange={(e) => setAutomationSpec(e.target.value)}
-                placeholder="Paste an automation blueprint or describe the logic steps here..."
-                className="w-full h-40 bg-gray-50 border border-gray-100 rounded-2xl p-5 text-sm focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all placeholder:text-gray-300"
+                placeholder="Paste a blueprint, an n8n / Make / Zapier export, or one step per line..."
+                className="w-full h-40 bg-gray-50 border border-gray-100 rounded-2xl p-5 text-sm font-mono focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all placeholder:text-gray-300"
               />
             </div>
 
+            <MockEndpointRegistry endpoints={mockEndpoints} onChange={setMockEndpoints} connectionNames={connectionNames} />
+
+            <div className="space-y-3">
+              <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
+                <Cpu size={14} className="text-indigo-400" />
+                Execution Engine
+              </label>
+              <div className="grid grid-cols-2 gap-2 p-1 bg-gray-50 rounded-2xl border border-gray-100">
+                {ENGINE_MODES.map(mode => (
+                  <button
+                    key={mode.id}
+                    onClick={() => setEngineMode(mode.id)}
+                    title={mode.hint}
+                    className={`py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+                      engineMode === mode.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-400 hover:text-gray-600'
+                    }`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <button
               onClick={handleSimulate}
               disabled={simState.loading}
@@ -112,29 +355,90 @@ const LogicSandboxView: React.FC = () => {
               {simState.loading ? <Loader2 className="animate-spin" size={18} /> : <Play size={18} fill="currentColor" />}
               {simState.loading ? 'Running simulation...' : 'Execute Test Run'}
             </button>
+
+            <button
+              onClick={handleDebug}
+              disabled={simState.loading}
+              title="Step through the run locally, inspecting the data each step receives and produces"
+              className="w-full py-3 rounded-2xl font-black uppercase tracking-[0.2em] text-[10px] flex items-center justify-center gap-2 transition-all bg-gray-50 text-gray-600 border border-gray-100 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Bug size={14} />
+              Debug Step by Step
+            </button>
             
             {simState.error && (
-              <div className="p-4 bg-red-50 border border-red-100 rounded-2xl text-[10px] font-bold text-red-600 flex items-center gap-3 animate-in slide-in-from-top-2">
-                <AlertTriangle size={16} />
-                {simState.error.message}
-              </div>
+              <ErrorNotice
+                error={simState.error}
+                onRetry={handleSimulate}
+                onOpenSettings={() => onNavigate(AppView.SETTINGS)}
+                onDismiss={() => setSimState(prev => ({ ...prev, error: null }))}
+              />
             )}
           </div>
         </Card>
 
+        <Card title="Payload Lab" subtitle="Infer a schema and generate edge-case payloads">
+          <PayloadLab
+            inputData={inputData}
+            automation={activeBlueprint?.result || null}
+            results={variantResults}
+            running={variantsRunning}
+            onLoadPayload={setInputData}
+            onRun={handleRunVariants}
+            onStop={handleStopVariants}
+            onReset={() => setVariantResults({})}
+            onAddToSuite={suite ? handleAddVariantsToSuite : undefined}
+            onShowTrace={showTrace}
+          />
+        </Card>
+
+        <Card title="Test Suite" subtitle={activeBlueprint ? 'Saved payloads with expected outcomes' : 'Select a source blueprint to keep a suite'}>
+          {suite ? (
+            <TestSuitePanel
+              suite={suite}
+              steps={activeBlueprint?.result.steps || []}
+              results={suiteResults}
+              running={suiteRunning}
+              onChange={updateSuite}
+              onAddCase={handleAddCase}
+              onRun={handleRunSuite}
+              onLoadPayload={setInputData}
+              onShowTrace={showTrace}
+              onExport={handleExportSuite}
+              onImport={handleImportSuite}
+            />
+          ) : (
+            <p className="text-[11px] text-gray-400 font-medium">
+              {activeBlueprint ? 'Loading suite...' : 'Suites are stored per blueprint, so they can be rerun after every change.'}
+            </p>
+          )}
+          {suiteError && <p className="mt-3 text-[11px] font-medium text-red-600">{suiteError}</p>}
+        </Card>
+
         <div className="p-6 bg-indigo-50/50 border border-indigo-100 rounded-3xl">
            <h5 className="text-[10px] font-black text-indigo-900 uppercase tracking-widest mb-2 flex items-center gap-2">
              <Bug size={14} /> Edge Case Detection
            </h5>
            <p className="text-[11px] text-indigo-700 font-medium leading-relaxed">
-             The simulation engine will attempt to find null values, type mismatches, and timeout scenarios within your described logic.
+             Generate missing fields, nulls, wrong types, huge arrays, unicode and boundary amounts in the Payload Lab, then run them all to see which branches your logic does not handle.
            </p>
         </div>
       </div>
 
       {/* Simulation Output */}
       <div className="xl:col-span-7 space-y-6">
-        {!simState.data && !simState.loading && (
+        {debugSession && (
+          <Card title="Step Debugger" subtitle="Local engine, one step at a time">
+            <TraceDebugger
+              session={debugSession}
+              onChange={setDebugSession}
+              onRestart={handleDebug}
+              onClose={() => setDebugSession(null)}
+            />
+          </Card>
+        )}
+
+        {!simState.data && !simState.loading && !debugSession && (
           <div className="h-[600px] border-2 border-dashed border-gray-100 rounded-[3rem] flex flex-col items-center justify-center p-12 text-center bg-white/30">
             <div className="w-20 h-20 bg-gray-50 text-gray-200 rounded-[2rem] flex items-center justify-center mb-6">
               <FlaskConical size={40} />
@@ -191,7 +495,14 @@ const LogicSandboxView: React.FC = () => {
                       </div>
                       <div className="flex-1 space-y-2">
                         <div className="flex items-center justify-between">
-                          <h4 className="font-bold text-gray-900 text-sm">Step {step.stepId} Verification</h4>
+                          <h4 className="font-bold text-gray-900 text-sm flex items-center gap-2">
+                            {step.engine === 'sandbox' && step.stepId === SNIPPET_STEP_ID ? 'Code Snippet' : `Step ${step.stepId} Verification`}
+                            {step.engine && (
+                              <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded-md ${ENGINE_BADGES[step.engine].className}`}>
+                                {ENGINE_BADGES[step.engine].label}
+                              </span>
+                            )}
+                          </h4>
                           <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded-md ${
                             step.status === 'success' ? 'bg-green-50 text-green-600' : step.status === 'failure' ? 'bg-red-50 text-red-600' : 'bg-gray-50 text-gray-500'
                           }`}>
@@ -209,6 +520,7 @@ const LogicSandboxView: React.FC = () => {
                              {step.output}
                            </pre>
                         </div>
+                        {step.execution && <SnippetExecutionPanel execution={step.execution} />}
                       </div>
                     </div>
                   </div>
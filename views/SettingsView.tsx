@@ -0,0 +1,295 @@
+
+import React, { useEffect, useState } from 'react';
+import { AiFixture, ModelRole, ProviderConfig } from '../types';
+import { Card } from '../components/ui/Card';
+import { ConnectionVault } from '../components/ConnectionVault';
+import { PROVIDER_OPTIONS, DEFAULT_PROVIDER_CONFIG, loadProviderConfig, saveProviderConfig } from '../services/providers';
+import { listFixtures, saveFixtures, clearFixtures, parseFixtureFile } from '../services/providers/fixtureStore';
+import { recordingStatus } from '../services/providers/recordingProvider';
+import { useWriteFailure } from '../hooks/useWriteFailure';
+import { Cloud, Server, Database, Check, Save, RotateCcw, AlertTriangle, Download, Upload, Trash2, CircleDot } from 'lucide-react';
+
+const MODEL_ROLES: { id: ModelRole; label: string; hint: string }[] = [
+  { id: 'reasoning', label: 'Reasoning', hint: 'Blueprint generation and refinement' },
+  { id: 'fast', label: 'Fast', hint: 'Advisor chat, summaries and simulations' },
+  { id: 'vision', label: 'Vision', hint: 'Vision Extract image analysis' },
+  { id: 'speech', label: 'Speech', hint: 'Voice Lab via /audio/speech' }
+];
+
+const PROVIDER_ICONS = { gemini: Cloud, 'openai-compatible': Server, mock: Database };
+
+const SettingsView: React.FC = () => {
+  const [config, setConfig] = useState<ProviderConfig>(loadProviderConfig);
+  const [saved, setSaved] = useState(false);
+  const [fixtures, setFixtures] = useState<AiFixture[]>([]);
+  const [fixtureError, setFixtureError] = useState<string | null>(null);
+  const recordingFailure = useWriteFailure(recordingStatus);
+
+  const refreshFixtures = async () => {
+    try {
+      setFixtures(await listFixtures());
+    } catch (err: any) {
+      setFixtureError(err.message || "Could not read recorded fixtures.");
+    }
+  };
+
+  useEffect(() => {
+    refreshFixtures();
+  }, []);
+
+  const update = (next: ProviderConfig) => {
+    setConfig(next);
+    setSaved(false);
+  };
+
+  const updateOpenAi = (changes: Partial<ProviderConfig['openAiCompatible']>) =>
+    update({ ...config, openAiCompatible: { ...config.openAiCompatible, ...changes } });
+
+  const handleSave = () => {
+    saveProviderConfig(config);
+    setSaved(true);
+  };
+
+  const handleExportFixtures = () => {
+    const blob = new Blob([JSON.stringify({ fixtures }, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'ai-fixtures.json';
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFixtures = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFixtureError(null);
+    try {
+      await saveFixtures(parseFixtureFile(await file.text()));
+      await refreshFixtures();
+    } catch (err: any) {
+      setFixtureError(err.message || "Failed to import fixtures.");
+    }
+  };
+
+  const handleClearFixtures = async () => {
+    if (!window.confirm(`Delete all ${fixtures.length} recorded fixtures?`)) return;
+    setFixtureError(null);
+    try {
+      await clearFixtures();
+      setFixtures([]);
+    } catch (err: any) {
+      setFixtureError(err.message || "Failed to clear fixtures.");
+    }
+  };
+
+  const isGemini = config.provider === 'gemini';
+  const isLocal = config.provider === 'openai-compatible';
+  const isMock = config.provider === 'mock';
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <Card
+        title="AI Provider"
+        subtitle="Choose which model backend powers every feature"
+        headerAction={
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => update(DEFAULT_PROVIDER_CONFIG)}
+              className="flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl text-gray-500 hover:bg-gray-100 transition-all"
+            >
+              <RotateCcw size={14} />
+              Defaults
+            </button>
+            <button
+              onClick={handleSave}
+              className={`flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all ${
+                saved ? 'bg-green-500 text-white' : 'bg-indigo-600 text-white hover:bg-indigo-700'
+              }`}
+            >
+              {saved ? <Check size={14} /> : <Save size={14} />}
+              {saved ? 'Saved' : 'Save'}
+            </button>
+          </div>
+        }
+      >
+        <div className="space-y-8">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {PROVIDER_OPTIONS.map(option => {
+              const isSelected = config.provider === option.id;
+              const Icon = PROVIDER_ICONS[option.id];
+              return (
+                <button
+                  key={option.id}
+                  onClick={() => update({ ...config, provider: option.id })}
+                  className={`text-left p-5 rounded-2xl border transition-all ${
+                    isSelected ? 'border-indigo-600 ring-2 ring-indigo-600/20 bg-indigo-50/40' : 'border-gray-100 hover:border-indigo-200'
+                  }`}
+                >
+                  <div className="flex items-center gap-3 mb-2">
+                    <Icon size={18} className="text-indigo-500" />
+                    <span className="text-sm font-bold text-gray-900">{option.label}</span>
+                    {isSelected && <Check size={14} className="ml-auto text-indigo-600" />}
+                  </div>
+                  <p className="text-[11px] text-gray-500 leading-relaxed">{option.description}</p>
+                </button>
+              );
+            })}
+          </div>
+
+          {isGemini && (
+            <label className="space-y-2 block animate-in fade-in">
+              <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Proxy Access Token (optional)</span>
+              <input
+                type="password"
+                value={config.proxyToken}
+                onChange={(e) => update({ ...config, proxyToken: e.target.value })}
+                placeholder="Only needed when the server sets PROXY_ACCESS_TOKEN"
+                className="w-full bg-gray-50 border border-gray-100 rounded-xl px-4 py-2.5 text-xs font-mono focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all"
+              />
+            </label>
+          )}
+
+          {isLocal && (
+            <div className="space-y-6 animate-in fade-in">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <label className="space-y-2 block">
+                  <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Base URL</span>
+                  <input
+                    value={config.openAiCompatible.baseUrl}
+                    onChange={(e) => updateOpenAi({ baseUrl: e.target.value })}
+                    placeholder="http://localhost:11434/v1"
+                    className="w-full bg-gray-50 border border-gray-100 rounded-xl px-4 py-2.5 text-xs font-mono focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all"
+                  />
+                </label>
+                <label className="space-y-2 block">
+                  <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">API Key (optional)</span>
+                  <input
+                    type="password"
+                    value={config.openAiCompatible.apiKey}
+                    onChange={(e) => updateOpenAi({ apiKey: e.target.value })}
+                    placeholder="Leave empty for local servers"
+                    className="w-full bg-gray-50 border border-gray-100 rounded-xl px-4 py-2.5 text-xs font-mono focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all"
+                  />
+                </label>
+              </div>
+
+              <div className="space-y-3">
+                <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Models</span>
+                {MODEL_ROLES.map(role => (
+                  <div key={role.id} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+                    <div>
+                      <p className="text-xs font-bold text-gray-800">{role.label}</p>
+                      <p className="text-[10px] text-gray-400">{role.hint}</p>
+                    </div>
+                    <input
+                      value={config.openAiCompatible.models[role.id]}
+                      onChange={(e) => updateOpenAi({ models: { ...config.openAiCompatible.models, [role.id]: e.target.value } })}
+                      className="md:col-span-2 bg-gray-50 border border-gray-100 rounded-xl px-4 py-2.5 text-xs font-mono focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-start gap-3 p-4 bg-amber-50/60 border border-amber-100 rounded-2xl">
+                <AlertTriangle size={16} className="text-amber-500 shrink-0 mt-0.5" />
+                <p className="text-[11px] text-amber-800 leading-relaxed">
+                  Search grounding and Live Architect are unavailable on OpenAI-compatible servers. Blueprints are generated
+                  without verified sources, and structured output quality depends on the local model's JSON support.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {isMock ? (
+            <div className="flex items-start gap-3 p-4 bg-indigo-50/60 border border-indigo-100 rounded-2xl">
+              <Database size={16} className="text-indigo-500 shrink-0 mt-0.5" />
+              <p className="text-[11px] text-indigo-900 leading-relaxed">
+                Every feature replays the closest recorded fixture, falling back to a built-in sample. Live Architect is
+                unavailable. Append <code className="font-mono">?provider=mock</code> to the URL to force this mode without saving it.
+              </p>
+            </div>
+          ) : (
+            <label className="flex items-center justify-between gap-4 p-4 bg-gray-50 border border-gray-100 rounded-2xl cursor-pointer">
+              <div>
+                <p className="text-xs font-bold text-gray-800">Record fixtures</p>
+                <p className="text-[10px] text-gray-400">Store every successful response for later offline replay</p>
+              </div>
+              <input
+                type="checkbox"
+                checked={config.recordFixtures}
+                onChange={(e) => update({ ...config, recordFixtures: e.target.checked })}
+                className="w-4 h-4 accent-indigo-600"
+              />
+            </label>
+          )}
+        </div>
+      </Card>
+
+      <Card title="Connection Vault" subtitle="Named credentials that blueprints and snippets refer to by name, encrypted on this device">
+        <ConnectionVault />
+      </Card>
+
+      <Card
+        title="Replay Fixtures"
+        subtitle={`${fixtures.length} recorded response${fixtures.length === 1 ? '' : 's'}`}
+        headerAction={
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl text-gray-500 hover:bg-gray-100 transition-all cursor-pointer">
+              <Upload size={14} />
+              Import
+              <input type="file" className="hidden" accept="application/json,.json" onChange={handleImportFixtures} />
+            </label>
+            <button
+              onClick={handleExportFixtures}
+              disabled={fixtures.length === 0}
+              className="flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl text-gray-500 hover:bg-gray-100 disabled:opacity-40 transition-all"
+            >
+              <Download size={14} />
+              Export
+            </button>
+            <button
+              onClick={handleClearFixtures}
+              disabled={fixtures.length === 0}
+              className="flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl text-red-500 hover:bg-red-50 disabled:opacity-40 transition-all"
+            >
+              <Trash2 size={14} />
+              Clear
+            </button>
+          </div>
+        }
+      >
+        {recordingFailure && (
+          <div className="mb-4 flex items-start gap-2 p-3 bg-red-50 border border-red-100 rounded-xl text-[11px] text-red-600 font-medium">
+            <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+            <span>Recording failed, so new responses are not being saved for replay: {recordingFailure}</span>
+          </div>
+        )}
+        {fixtureError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-100 rounded-xl text-[11px] text-red-600 font-medium">{fixtureError}</div>
+        )}
+        {fixtures.length === 0 ? (
+          <p className="text-xs text-gray-400 text-center py-6">
+            No fixtures yet. Turn on recording and use the app, or import a fixture file.
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {fixtures.map(fixture => (
+              <div key={fixture.id} className="flex items-center gap-3 px-4 py-3 bg-gray-50 rounded-xl">
+                <CircleDot size={12} className="text-indigo-400 shrink-0" />
+                <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest shrink-0">{fixture.operation}</span>
+                <span className="text-xs text-gray-600 truncate flex-1">{fixture.requestPreview || '(no prompt)'}</span>
+                <span className="text-[10px] text-gray-400 shrink-0">{new Date(fixture.recordedAt).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default SettingsView;
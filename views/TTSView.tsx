@@ -3,15 +3,21 @@ import React, { useState, useRef } from 'react';
 // Fix: Corrected imported function names from geminiService
 import { generateSpeech, decode, decodeAudioData } from '../services/geminiService';
 import { Card } from '../components/ui/Card';
-import { VoiceModel } from '../types';
+import { ApiError, AppView, VoiceModel } from '../types';
+import { ErrorNotice } from '../components/ErrorNotice';
+import { AiServiceError, toApiError } from '../services/aiErrors';
 import { Mic2, Play, Download, Loader2, Music, Volume2, AlertTriangle } from 'lucide-react';
 
-const TTSView: React.FC = () => {
+interface TTSViewProps {
+  onNavigate: (view: AppView) => void;
+}
+
+const TTSView: React.FC<TTSViewProps> = ({ onNavigate }) => {
   const [text, setText] = useState('Ensuring high-performance AI integration requires robust architecture and low-latency execution.');
   const [voice, setVoice] = useState('Kore');
   const [loading, setLoading] = useState(false);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
 
   const MAX_TEXT_LENGTH = 1000;
@@ -48,11 +54,11 @@ const TTSView: React.FC = () => {
         const url = URL.createObjectURL(wavBlob);
         setAudioUrl(url);
       } else {
-        throw new Error("No audio data was returned from the server.");
+        throw new AiServiceError('invalid_response', "No audio data was returned from the server.");
       }
     } catch (err: any) {
       console.error(err);
-      setError(err.message || "Failed to synthesize speech. Please try again.");
+      setError(toApiError(err, "Failed to synthesize speech. Please try again."));
     } finally {
       setLoading(false);
     }
@@ -146,10 +152,12 @@ const TTSView: React.FC = () => {
           </div>
 
           {error && (
-            <div className="p-3 bg-red-50 border border-red-100 text-red-700 rounded-xl text-xs flex items-center gap-2">
-              <AlertTriangle size={14} />
-              {error}
-            </div>
+            <ErrorNotice
+              error={error}
+              onRetry={handleSynthesize}
+              onOpenSettings={() => onNavigate(AppView.SETTINGS)}
+              onDismiss={() => setError(null)}
+            />
           )}
 
           <button
@@ -0,0 +1,324 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { UsageBudget, UsageRecord } from '../types';
+import { Card } from '../components/ui/Card';
+import {
+  FEATURE_LABELS,
+  listUsage,
+  clearUsage,
+  summarizeUsage,
+  loadUsageBudget,
+  saveUsageBudget,
+  budgetStatus,
+  budgetPeriodStart,
+  usageWriteStatus
+} from '../services/usageTracker';
+import { useWriteFailure } from '../hooks/useWriteFailure';
+import { Gauge, Coins, Activity, RefreshCw, Trash2, Wallet, AlertTriangle, Loader2, AlertCircle, Check } from 'lucide-react';
+
+const RANGES = [
+  { id: '7', label: '7 Days', days: 7 },
+  { id: '30', label: '30 Days', days: 30 },
+  { id: 'all', label: 'All Time', days: 0 }
+];
+
+const RECENT_LIMIT = 25;
+
+const formatCost = (cost: number) => cost === 0 ? '$0.00' : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+const formatTokens = (tokens: number) => tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(2)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+const formatLatency = (ms: number) => ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+
+const UsageView: React.FC = () => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rangeId, setRangeId] = useState('30');
+  const [budget, setBudget] = useState<UsageBudget | null>(loadUsageBudget);
+  const [budgetDraft, setBudgetDraft] = useState<UsageBudget>(() => loadUsageBudget() || { amount: 10, period: 'monthly' });
+  const [budgetSaved, setBudgetSaved] = useState(false);
+  const writeFailure = useWriteFailure(usageWriteStatus);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      setRecords(await listUsage());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Failed to load usage records.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const range = RANGES.find(item => item.id === rangeId) || RANGES[1];
+  const inRange = useMemo(() => {
+    if (!range.days) return records;
+    const since = Date.now() - range.days * 24 * 60 * 60 * 1000;
+    return records.filter(record => record.startedAt >= since);
+  }, [records, range]);
+
+  const summary = useMemo(() => summarizeUsage(inRange), [inRange]);
+  const status = useMemo(() => budget ? budgetStatus(records, budget) : null, [records, budget]);
+  const maxDayCost = Math.max(...summary.byDay.map(day => day.totals.cost), 0);
+  const maxDayTokens = Math.max(...summary.byDay.map(day => day.totals.tokens), 0);
+
+  const handleSaveBudget = () => {
+    const next = budgetDraft.amount > 0 ? budgetDraft : null;
+    saveUsageBudget(next);
+    setBudget(next);
+    setBudgetSaved(true);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(`Delete all ${records.length} usage records?`)) return;
+    try {
+      await clearUsage();
+      setRecords([]);
+    } catch (err: any) {
+      setError(err.message || "Failed to clear usage records.");
+    }
+  };
+
+  const stats = [
+    { label: 'Calls', value: String(summary.total.calls), hint: `${summary.total.errors} failed`, icon: Activity },
+    { label: 'Tokens', value: formatTokens(summary.total.tokens), hint: 'Input, output and thinking', icon: Gauge },
+    { label: 'Est. Cost', value: formatCost(summary.total.cost), hint: summary.total.unpriced ? `${summary.total.unpriced} unpriced calls` : 'At list prices', icon: Coins },
+    { label: 'Avg Latency', value: summary.total.calls ? formatLatency(summary.total.latencyMs / summary.total.calls) : '—', hint: `${summary.total.retries} retries`, icon: RefreshCw }
+  ];
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      {status && status.level !== 'ok' && (
+        <div className={`flex items-start gap-3 p-4 rounded-2xl border ${
+          status.level === 'exceeded' ? 'bg-red-50 border-red-100 text-red-700' : 'bg-amber-50/60 border-amber-100 text-amber-800'
+        }`}>
+          <AlertTriangle size={18} className="shrink-0 mt-0.5" />
+          <p className="text-xs font-medium leading-relaxed">
+            {status.level === 'exceeded' ? 'Budget exceeded: ' : 'Approaching budget: '}
+            {formatCost(status.spent)} of {formatCost(budget!.amount)} spent this {budget!.period === 'daily' ? 'day' : 'month'} ({Math.round(status.ratio * 100)}%).
+          </p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex gap-1 bg-white border border-gray-100 rounded-xl p-1">
+          {RANGES.map(item => (
+            <button
+              key={item.id}
+              onClick={() => setRangeId(item.id)}
+              className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${
+                rangeId === item.id ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:bg-gray-50'
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={refresh}
+            className="flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl text-gray-500 hover:bg-gray-100 transition-all"
+          >
+            <RefreshCw size={14} />
+            Refresh
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={records.length === 0}
+            className="flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl text-red-500 hover:bg-red-50 disabled:opacity-40 transition-all"
+          >
+            <Trash2 size={14} />
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-3 p-4 bg-red-50 border border-red-100 rounded-2xl text-red-600 text-xs font-medium">
+          <AlertCircle size={16} />
+          {error}
+        </div>
+      )}
+
+      {writeFailure && (
+        <div className="flex items-center gap-3 p-4 bg-amber-50 border border-amber-100 rounded-2xl text-amber-800 text-xs font-medium">
+          <AlertTriangle size={16} className="text-amber-500 shrink-0" />
+          Usage is not being recorded, so recent calls are missing from these totals: {writeFailure}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {stats.map(stat => {
+          const Icon = stat.icon;
+          return (
+            <div key={stat.label} className="bg-white rounded-2xl border border-gray-100 shadow-sm p-5">
+              <div className="flex items-center gap-2 mb-3">
+                <Icon size={14} className="text-indigo-500" />
+                <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{stat.label}</span>
+              </div>
+              <p className="text-2xl font-black text-gray-900">{loading ? '…' : stat.value}</p>
+              <p className="text-[10px] text-gray-400 mt-1">{stat.hint}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card title="By Feature" subtitle="Where calls and spend go" className="lg:col-span-2">
+          {loading ? (
+            <div className="flex justify-center py-10"><Loader2 className="animate-spin text-indigo-500" /></div>
+          ) : summary.byFeature.length === 0 ? (
+            <p className="text-xs text-gray-400 text-center py-10">No AI calls recorded in this range.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-[10px] font-black text-gray-400 uppercase tracking-widest text-left">
+                  <th className="pb-3">Feature</th>
+                  <th className="pb-3 text-right">Calls</th>
+                  <th className="pb-3 text-right">Tokens</th>
+                  <th className="pb-3 text-right">Avg Latency</th>
+                  <th className="pb-3 text-right">Retries</th>
+                  <th className="pb-3 text-right">Est. Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {summary.byFeature.map(({ feature, totals }) => (
+                  <tr key={feature}>
+                    <td className="py-3 font-bold text-gray-800">{FEATURE_LABELS[feature]}</td>
+                    <td className="py-3 text-right text-gray-600">
+                      {totals.calls}
+                      {totals.errors > 0 && <span className="ml-1 text-red-500">({totals.errors} failed)</span>}
+                    </td>
+                    <td className="py-3 text-right text-gray-600 font-mono">{formatTokens(totals.tokens)}</td>
+                    <td className="py-3 text-right text-gray-600">{formatLatency(totals.latencyMs / totals.calls)}</td>
+                    <td className="py-3 text-right text-gray-600">{totals.retries}</td>
+                    <td className="py-3 text-right font-bold text-gray-900 font-mono">
+                      {formatCost(totals.cost)}{totals.unpriced > 0 && <span className="text-gray-400">*</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {summary.total.unpriced > 0 && (
+            <p className="text-[10px] text-gray-400 mt-4">* Includes calls to models without a known price, such as local models, counted as $0.</p>
+          )}
+        </Card>
+
+        <Card
+          title="Budget"
+          subtitle="Warn when estimated spend nears a limit"
+          headerAction={
+            <button
+              onClick={handleSaveBudget}
+              className={`flex items-center gap-2 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all ${
+                budgetSaved ? 'bg-green-500 text-white' : 'bg-indigo-600 text-white hover:bg-indigo-700'
+              }`}
+            >
+              {budgetSaved ? <Check size={14} /> : <Wallet size={14} />}
+              {budgetSaved ? 'Saved' : 'Save'}
+            </button>
+          }
+        >
+          <div className="space-y-4">
+            <label className="space-y-2 block">
+              <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Limit (USD, 0 to disable)</span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={budgetDraft.amount}
+                onChange={(e) => {
+                  setBudgetDraft({ ...budgetDraft, amount: Math.max(0, Number(e.target.value) || 0) });
+                  setBudgetSaved(false);
+                }}
+                className="w-full bg-gray-50 border border-gray-100 rounded-xl px-4 py-2.5 text-xs font-mono focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all"
+              />
+            </label>
+            <label className="space-y-2 block">
+              <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Period</span>
+              <select
+                value={budgetDraft.period}
+                onChange={(e) => {
+                  setBudgetDraft({ ...budgetDraft, period: e.target.value as UsageBudget['period'] });
+                  setBudgetSaved(false);
+                }}
+                className="w-full bg-gray-50 border border-gray-100 rounded-xl px-4 py-2.5 text-xs font-bold outline-none"
+              >
+                <option value="daily">Per day</option>
+                <option value="monthly">Per calendar month</option>
+              </select>
+            </label>
+            {budget && status && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-[10px] font-black uppercase tracking-widest">
+                  <span className="text-gray-400">Since {new Date(budgetPeriodStart(budget)).toLocaleDateString()}</span>
+                  <span className="text-gray-700">{formatCost(status.spent)} / {formatCost(budget.amount)}</span>
+                </div>
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${status.level === 'exceeded' ? 'bg-red-500' : status.level === 'warning' ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                    style={{ width: `${Math.min(100, status.ratio * 100)}%` }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      <Card title="By Day" subtitle="Estimated spend and tokens per calendar day">
+        {summary.byDay.length === 0 ? (
+          <p className="text-xs text-gray-400 text-center py-6">No activity yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {summary.byDay.map(({ day, totals }) => (
+              <div key={day} className="grid grid-cols-12 gap-3 items-center text-xs">
+                <span className="col-span-2 font-mono text-gray-500">{day}</span>
+                <div className="col-span-6 h-3 bg-gray-50 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-500 rounded-full"
+                    style={{ width: `${maxDayCost > 0 ? (totals.cost / maxDayCost) * 100 : maxDayTokens > 0 ? (totals.tokens / maxDayTokens) * 100 : 0}%` }}
+                  />
+                </div>
+                <span className="col-span-2 text-right text-gray-600 font-mono">{formatTokens(totals.tokens)}</span>
+                <span className="col-span-2 text-right font-bold text-gray-900 font-mono">{formatCost(totals.cost)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <Card title="Recent Calls" subtitle={`Last ${RECENT_LIMIT} requests across all features`}>
+        {inRange.length === 0 ? (
+          <p className="text-xs text-gray-400 text-center py-6">No calls recorded in this range.</p>
+        ) : (
+          <div className="space-y-2">
+            {inRange.slice(0, RECENT_LIMIT).map(record => (
+              <div key={record.id} className="flex items-center gap-3 px-4 py-3 bg-gray-50 rounded-xl text-xs">
+                <span className={`w-2 h-2 rounded-full shrink-0 ${
+                  record.status === 'success' ? 'bg-green-500' : record.status === 'cancelled' ? 'bg-gray-300' : 'bg-red-500'
+                }`} />
+                <span className="font-bold text-gray-800 w-40 shrink-0">{FEATURE_LABELS[record.feature]}</span>
+                <span className="font-mono text-[10px] text-gray-400 truncate flex-1" title={record.error}>
+                  {record.model}{record.error ? ` · ${record.error}` : ''}
+                </span>
+                <span className="text-gray-500 shrink-0">{formatLatency(record.latencyMs)}</span>
+                {record.retries > 0 && <span className="text-amber-600 shrink-0">{record.retries}× retry</span>}
+                <span className="font-mono text-gray-600 shrink-0 w-14 text-right">{record.usage ? formatTokens(record.usage.totalTokens) : '—'}</span>
+                <span className="font-mono font-bold text-gray-900 shrink-0 w-16 text-right">{record.estimatedCost === null ? '—' : formatCost(record.estimatedCost)}</span>
+                <span className="text-[10px] text-gray-400 shrink-0">{new Date(record.startedAt).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default UsageView;
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { SANDBOX_WORKER_CSP, SANDBOX_WORKER_FILE } from './services/sandboxProtocol';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -8,12 +9,29 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API key lives only in the proxy server; the browser reaches Gemini through it
+        proxy: {
+          '/api': {
+            target: `http://127.0.0.1:${env.PROXY_PORT || 8787}`,
+            ws: true,
+            // Lets the proxy tell LAN visitors of the dev server from local ones
+            xfwd: true
+          }
+        }
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [
+        react(),
+        {
+          // The snippet sandbox worker gets the same restrictive policy the proxy serves it with
+          name: 'sandbox-worker-csp',
+          configureServer: (server) => {
+            server.middlewares.use((req, res, next) => {
+              if (SANDBOX_WORKER_FILE.test((req.url || '').split('?')[0])) res.setHeader('Content-Security-Policy', SANDBOX_WORKER_CSP);
+              next();
+            });
+          }
+        }
+      ],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),